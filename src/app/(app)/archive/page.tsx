@@ -1,7 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { DeleteConfirmDialog, DeleteTarget } from "@/components/layout/DeleteConfirmDialog";
 import { useAppDataContext } from "@/context/AppDataContext";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/Tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
@@ -9,15 +10,54 @@ import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Select } from "@/components/ui/Select";
 import { Badge } from "@/components/ui/Badge";
+import { ExportMenu } from "@/components/ui/ExportMenu";
+import { downloadSpreadsheet, getProjectColumns, getTodoColumns } from "@/lib/spreadsheet";
+import { useTrash } from "@/hooks/useTrash";
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashItem } from "@/services/trash";
 import { format, parseISO } from "date-fns";
 import { Search, Filter, ArchiveRestore, Trash2 } from "lucide-react";
+import { toast } from "@/components/ui/Toast";
+
+const ENTITY_LABELS: Record<TrashItem["entity"], string> = {
+  todos: "Task",
+  projects: "Project",
+  notes: "Note",
+};
+
+// Todos and notes have a title, projects a name
+function getTrashItemTitle(item: TrashItem): string {
+  return "name" in item.record ? item.record.name : item.record.title;
+}
 
 export default function ArchivePage() {
-  const { todos, projects, updateTodoStatus, deleteTodo, updateProjectStatus, deleteProject } = useAppDataContext();
+  const {
+    todos,
+    projects,
+    updateTodoStatus,
+    deleteTodo,
+    updateProjectStatus,
+    deleteProject,
+    refreshTodos,
+    refreshProjects,
+    refreshNotes,
+    settings,
+  } = useAppDataContext();
+
+  // Reload whichever collection a restored record went back into
+  const handleTrashRestored = useCallback(
+    (item: TrashItem) => {
+      if (item.entity === "todos") refreshTodos();
+      else if (item.entity === "projects") refreshProjects();
+      else refreshNotes();
+    },
+    [refreshTodos, refreshProjects, refreshNotes]
+  );
+  const { items: trashItems, reloadTrash, restoreItem, deleteItems, emptyTrash } = useTrash(handleTrashRestored);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [projectFilter, setProjectFilter] = useState<string>("");
   const [sortBy, setSortBy] = useState<"newest" | "oldest" | "name">("newest");
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
 
   // Get completed todos
   const completedTodos = todos.filter((todo) => todo.status === "completed");
@@ -66,6 +106,21 @@ export default function ArchivePage() {
       }
     });
 
+  // Filter and sort trashed records
+  const filteredTrash = trashItems
+    .filter((item) => searchQuery === "" || getTrashItemTitle(item).toLowerCase().includes(searchQuery.toLowerCase()))
+    .sort((a, b) => {
+      if (sortBy === "newest") {
+        return b.deletedAt.localeCompare(a.deletedAt);
+      } else if (sortBy === "oldest") {
+        return a.deletedAt.localeCompare(b.deletedAt);
+      } else {
+        return getTrashItemTitle(a).localeCompare(getTrashItemTitle(b));
+      }
+    });
+
+  const retentionDays = settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
   // Handle restore todo
   const handleRestoreTodo = async (id: string) => {
     try {
@@ -75,15 +130,14 @@ export default function ArchivePage() {
     }
   };
 
-  // Handle delete todo
-  const handleDeleteTodo = async (id: string) => {
-    if (window.confirm("Are you sure you want to permanently delete this task?")) {
-      try {
-        await deleteTodo(id);
-      } catch (error) {
-        console.error("Failed to delete todo:", error);
-      }
+  // Handle delete of a completed todo or archived project
+  const handleDeleteConfirm = async (target: DeleteTarget) => {
+    if (target.entity === "todos") {
+      await deleteTodo(target.id);
+    } else {
+      await deleteProject(target.id);
     }
+    reloadTrash();
   };
 
   // Handle restore project
@@ -95,13 +149,35 @@ export default function ArchivePage() {
     }
   };
 
-  // Handle delete project
-  const handleDeleteProject = async (id: string) => {
-    if (window.confirm("Are you sure you want to permanently delete this project?")) {
+  // Handle restore from trash
+  const handleRestoreTrashItem = async (item: TrashItem) => {
+    try {
+      await restoreItem(item.id);
+      toast.success({ title: "Restored", description: `${getTrashItemTitle(item)} is back` });
+    } catch (error) {
+      console.error("Failed to restore from trash:", error);
+      toast.error({ title: "Error", description: "Failed to restore item" });
+    }
+  };
+
+  // Handle permanent delete from trash
+  const handleDeleteTrashItem = async (item: TrashItem) => {
+    if (window.confirm(`Permanently delete "${getTrashItemTitle(item)}"? This cannot be undone.`)) {
       try {
-        await deleteProject(id);
+        await deleteItems([item.id]);
       } catch (error) {
-        console.error("Failed to delete project:", error);
+        console.error("Failed to delete from trash:", error);
+      }
+    }
+  };
+
+  // Handle empty trash
+  const handleEmptyTrash = async () => {
+    if (window.confirm("Permanently delete everything in the trash? This cannot be undone.")) {
+      try {
+        await emptyTrash();
+      } catch (error) {
+        console.error("Failed to empty trash:", error);
       }
     }
   };
@@ -111,7 +187,9 @@ export default function ArchivePage() {
       <div className="space-y-6">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Archive</h1>
-          <p className="text-muted-foreground">View and manage your completed tasks and archived projects.</p>
+          <p className="text-muted-foreground">
+            View and manage your completed tasks, archived projects and deleted items.
+          </p>
         </div>
 
         <div className="flex flex-col sm:flex-row gap-4 items-center">
@@ -135,26 +213,35 @@ export default function ArchivePage() {
         </div>
 
         <Tabs defaultValue="todos" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="todos">Completed Tasks</TabsTrigger>
             <TabsTrigger value="projects">Archived Projects</TabsTrigger>
+            <TabsTrigger value="trash">Trash</TabsTrigger>
           </TabsList>
 
           <TabsContent value="todos" className="mt-4 space-y-4">
-            {/* Project filter for todos */}
-            {projects.length > 0 && (
-              <div className="flex items-center gap-2">
-                <Filter className="h-4 w-4 text-muted-foreground" />
-                <Select value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)}>
-                  <option value="">All Projects</option>
-                  {projects.map((project) => (
-                    <option key={project.id} value={project.id}>
-                      {project.name}
-                    </option>
-                  ))}
-                </Select>
-              </div>
-            )}
+            <div className="flex items-center justify-between gap-2">
+              {/* Project filter for todos */}
+              {projects.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Filter className="h-4 w-4 text-muted-foreground" />
+                  <Select value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)}>
+                    <option value="">All Projects</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              )}
+              <ExportMenu
+                onExport={(format) =>
+                  downloadSpreadsheet(filteredTodos, getTodoColumns(projects), format, "taskflow-completed-todos")
+                }
+                disabled={filteredTodos.length === 0}
+              />
+            </div>
 
             {filteredTodos.length === 0 ? (
               <div className="text-center p-8 border rounded-lg">
@@ -223,9 +310,9 @@ export default function ArchivePage() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleDeleteTodo(todo.id)}
+                          onClick={() => setDeleteTarget({ entity: "todos", id: todo.id })}
                           className="text-destructive hover:text-destructive"
-                          title="Delete permanently"
+                          title="Move to trash"
                         >
                           <Trash2 className="h-4 w-4" />
                           <span className="sr-only sm:not-sr-only sm:ml-2">Delete</span>
@@ -238,7 +325,16 @@ export default function ArchivePage() {
             )}
           </TabsContent>
 
-          <TabsContent value="projects" className="mt-4">
+          <TabsContent value="projects" className="mt-4 space-y-4">
+            <div className="flex justify-end">
+              <ExportMenu
+                onExport={(format) =>
+                  downloadSpreadsheet(filteredProjects, getProjectColumns(), format, "taskflow-archived-projects")
+                }
+                disabled={filteredProjects.length === 0}
+              />
+            </div>
+
             {filteredProjects.length === 0 ? (
               <div className="text-center p-8 border rounded-lg">
                 <h3 className="text-lg font-medium">No archived projects found</h3>
@@ -279,7 +375,7 @@ export default function ArchivePage() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleDeleteProject(project.id)}
+                          onClick={() => setDeleteTarget({ entity: "projects", id: project.id })}
                           className="text-destructive hover:text-destructive"
                         >
                           <Trash2 className="h-4 w-4 mr-1" />
@@ -292,7 +388,82 @@ export default function ArchivePage() {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="trash" className="mt-4 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Deleted items are removed for good after {retentionDays} days.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleEmptyTrash}
+                disabled={trashItems.length === 0}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Empty Trash
+              </Button>
+            </div>
+
+            {filteredTrash.length === 0 ? (
+              <div className="text-center p-8 border rounded-lg">
+                <h3 className="text-lg font-medium">Trash is empty</h3>
+                <p className="text-muted-foreground mt-1">
+                  {searchQuery && trashItems.length > 0
+                    ? "Try adjusting your search"
+                    : "Deleted tasks, projects and notes show up here"}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {filteredTrash.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg bg-card">
+                    <div className="flex-1 min-w-0 mr-4">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium truncate">{getTrashItemTitle(item)}</h3>
+                        <Badge variant="outline" className="text-xs">
+                          {ENTITY_LABELS[item.entity]}
+                        </Badge>
+                      </div>
+                      <div className="mt-2 text-xs text-muted-foreground">
+                        Deleted {format(parseISO(item.deletedAt), "MMM d, yyyy")}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestoreTrashItem(item)}
+                        title="Restore"
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                        <span className="sr-only sm:not-sr-only sm:ml-2">Restore</span>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteTrashItem(item)}
+                        className="text-destructive hover:text-destructive"
+                        title="Delete permanently"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only sm:not-sr-only sm:ml-2">Delete</span>
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
+
+        <DeleteConfirmDialog
+          target={deleteTarget}
+          onClose={() => setDeleteTarget(null)}
+          onConfirm={handleDeleteConfirm}
+        />
       </div>
     </AppLayout>
   );
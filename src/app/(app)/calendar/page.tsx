@@ -6,12 +6,17 @@ import { useAppDataContext } from "@/context/AppDataContext";
 import { Button } from "@/components/ui/Button";
 import { Select } from "@/components/ui/Select";
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday, isSameMonth, parseISO, isValid } from "date-fns";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { CalendarPlus, ChevronLeft, ChevronRight, Upload } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { toast } from "@/components/ui/Toast";
+import { CalendarImportDialog } from "@/components/calendar/CalendarImportDialog";
 import { Todo, Project, Milestone } from "@/types";
+import { DEFAULT_WORKSPACE_ID, WORKSPACE_PARAM } from "@/lib/workspaces";
+import { workspaceService } from "@/services/workspace";
 
 export default function CalendarPage() {
-  const { todos, projects } = useAppDataContext();
+  const { todos, projects, refreshTodos, refreshProjects } = useAppDataContext();
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [view, setView] = useState<"month" | "week" | "day">("month");
   const [filteredItems, setFilteredItems] = useState<{
@@ -22,6 +27,22 @@ export default function CalendarPage() {
     milestones: [],
   });
 
+  // Copy the iCalendar feed URL so desktop calendar apps can subscribe to it. Calendar apps send no workspace
+  // header, so the URL names the workspace.
+  const copyFeedUrl = async () => {
+    const workspaceId = workspaceService.getActiveWorkspaceId();
+    const url =
+      workspaceId === DEFAULT_WORKSPACE_ID
+        ? `${window.location.origin}/api/calendar.ics`
+        : `${window.location.origin}/api/calendar.ics?${WORKSPACE_PARAM}=${workspaceId}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success({ title: "Feed URL copied", description: url });
+    } catch {
+      toast.toast({ title: "Calendar feed", description: url });
+    }
+  };
+
   // Filter todos and milestones with valid dates
   useEffect(() => {
     const filteredTodos = todos.filter((todo) => todo.dueDate && isValid(parseISO(todo.dueDate)));
@@ -99,6 +120,14 @@ export default function CalendarPage() {
             <Button variant="outline" size="sm" onClick={goToToday}>
               Today
             </Button>
+            <Button variant="outline" size="sm" onClick={copyFeedUrl} title="Copy the calendar feed URL">
+              <CalendarPlus className="h-4 w-4 mr-1" />
+              Subscribe
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)} title="Import an .ics file">
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+            </Button>
           </div>
         </div>
 
@@ -187,6 +216,16 @@ export default function CalendarPage() {
             })}
           </div>
         </div>
+
+        <CalendarImportDialog
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => {
+            refreshTodos();
+            refreshProjects();
+          }}
+          projects={projects}
+        />
       </div>
     </AppLayout>
   );
@@ -0,0 +1,9 @@
+import { AppDataProvider } from "@/context/AppDataContext";
+import { loadInitialAppData } from "@/lib/server/repository";
+
+// Reading the workspace cookie renders these pages on every request, so only pages showing app data live here
+export default async function AppDataLayout({ children }: { children: React.ReactNode }) {
+  const initialData = await loadInitialAppData();
+
+  return <AppDataProvider initialData={initialData}>{children}</AppDataProvider>;
+}
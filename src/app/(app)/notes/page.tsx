@@ -2,19 +2,22 @@
 
 import { useState } from "react";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { DeleteConfirmDialog, DeleteTarget } from "@/components/layout/DeleteConfirmDialog";
 import { useAppDataContext } from "@/context/AppDataContext";
 import { Note } from "@/types";
 import { Button } from "@/components/ui/Button";
 import { BackButton } from "@/components/ui/BackButton";
 import { Input } from "@/components/ui/Input";
 import { Skeleton } from "@/components/ui/Skeleton";
-import { Plus, Search, StarIcon } from "lucide-react";
+import { Download, Plus, Search, StarIcon, Upload } from "lucide-react";
 import { NoteCard } from "@/components/notes/NoteCard";
 import { NoteEditor } from "@/components/notes/NoteEditor";
+import { NotesImportDialog } from "@/components/notes/NotesImportDialog";
 import { Select } from "@/components/ui/Select";
+import { downloadNotesVault } from "@/lib/notesVault";
 
 export default function NotesPage() {
-  const { notes, loading, error, createNote, updateNote, deleteNote, addImageToNote, toggleFavorite } =
+  const { notes, loading, error, createNote, updateNote, deleteNote, addImageToNote, toggleFavorite, refreshNotes } =
     useAppDataContext();
 
   const [isEditorOpen, setIsEditorOpen] = useState(false);
@@ -23,6 +26,8 @@ export default function NotesPage() {
   const [selectedTag, setSelectedTag] = useState<string>("");
   const [sortBy, setSortBy] = useState<"newest" | "oldest" | "title">("newest");
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
 
   const handleAddClick = () => {
     setEditingNote(undefined);
@@ -34,13 +39,16 @@ export default function NotesPage() {
     setIsEditorOpen(true);
   };
 
-  const handleDeleteClick = async (id: string) => {
-    if (window.confirm("Are you sure you want to delete this note?")) {
-      try {
-        await deleteNote(id);
-      } catch (err) {
-        console.error("Failed to delete note:", err);
-      }
+  const handleDeleteClick = (id: string) => {
+    setDeleteTarget({ entity: "notes", id });
+  };
+
+  const handleDeleteConfirm = async (target: DeleteTarget) => {
+    await deleteNote(target.id);
+
+    // Close the editor if it was showing the deleted note
+    if (editingNote?.id === target.id) {
+      handleEditorCancel();
     }
   };
 
@@ -133,9 +141,22 @@ export default function NotesPage() {
             <h1 className="text-3xl font-bold tracking-tight">Notes</h1>
             <p className="text-muted-foreground">Capture and organize your thoughts.</p>
           </div>
-          <Button onClick={handleAddClick}>
-            <Plus className="h-4 w-4 mr-1" /> New Note
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} title="Import a folder of Markdown files">
+              <Upload className="h-4 w-4 mr-1" /> Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => downloadNotesVault(filteredNotes)}
+              disabled={filteredNotes.length === 0}
+              title="Download the notes shown as Markdown files"
+            >
+              <Download className="h-4 w-4 mr-1" /> Export {filteredNotes.length === notes.length ? "All" : "Shown"}
+            </Button>
+            <Button onClick={handleAddClick}>
+              <Plus className="h-4 w-4 mr-1" /> New Note
+            </Button>
+          </div>
         </div>
 
         {error && <div className="rounded-lg bg-destructive/15 p-4 text-destructive">{error}</div>}
@@ -215,6 +236,8 @@ export default function NotesPage() {
           </div>
         )}
 
+        <NotesImportDialog isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImported={refreshNotes} />
+
         {isEditorOpen && (
           <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
             <div className="w-full max-w-5xl max-h-[90vh] overflow-auto">
@@ -228,6 +251,12 @@ export default function NotesPage() {
             </div>
           </div>
         )}
+
+        <DeleteConfirmDialog
+          target={deleteTarget}
+          onClose={() => setDeleteTarget(null)}
+          onConfirm={handleDeleteConfirm}
+        />
       </div>
     </AppLayout>
   );
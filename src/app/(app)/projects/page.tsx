@@ -2,12 +2,15 @@
 
 import { useState } from "react";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { DeleteConfirmDialog, DeleteTarget } from "@/components/layout/DeleteConfirmDialog";
 import { Dialog } from "@/components/ui/Dialog";
 import { useAppDataContext } from "@/context/AppDataContext";
 import { Project } from "@/types";
 import { Button } from "@/components/ui/Button";
 import { ProjectForm } from "@/components/project/ProjectForm";
 import { ProjectList } from "@/components/project/ProjectList";
+import { ExportMenu } from "@/components/ui/ExportMenu";
+import { downloadSpreadsheet, getProjectColumns } from "@/lib/spreadsheet";
 
 export default function ProjectsPage() {
   const { projects, loading, error, createProject, updateProject, deleteProject, updateProjectStatus } =
@@ -17,6 +20,7 @@ export default function ProjectsPage() {
   const [editingProject, setEditingProject] = useState<Project | undefined>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
 
   const handleAddClick = () => {
     setEditingProject(undefined);
@@ -66,7 +70,11 @@ export default function ProjectsPage() {
 
         {error && <div className="rounded-lg bg-destructive/15 p-4 text-destructive">{error}</div>}
 
-        <div className="flex justify-end">
+        <div className="flex justify-end items-center gap-2">
+          <ExportMenu
+            onExport={(format) => downloadSpreadsheet(projects, getProjectColumns(), format, "taskflow-projects")}
+            disabled={projects.length === 0}
+          />
           <Button onClick={handleAddClick}>Create Project</Button>
         </div>
 
@@ -75,7 +83,13 @@ export default function ProjectsPage() {
           isLoading={loading}
           onStatusChange={updateProjectStatus}
           onEdit={handleEditClick}
-          onDelete={deleteProject}
+          onDelete={async (id) => setDeleteTarget({ entity: "projects", id })}
+        />
+
+        <DeleteConfirmDialog
+          target={deleteTarget}
+          onClose={() => setDeleteTarget(null)}
+          onConfirm={(target) => deleteProject(target.id)}
         />
 
         <Dialog
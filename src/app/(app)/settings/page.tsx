@@ -2,6 +2,9 @@
 
 import { useState } from "react";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { BackupManager } from "@/components/settings/BackupManager";
+import { ImportWizard } from "@/components/settings/ImportWizard";
+import { StorageUsage } from "@/components/settings/StorageUsage";
 import { useAppDataContext } from "@/context/AppDataContext";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
@@ -13,7 +16,37 @@ import { Separator } from "@/components/ui/Separator";
 import { AlertCircle, Check, Download, Moon, Palette, Settings2, Sun } from "lucide-react";
 import { Dialog } from "@/components/ui/Dialog";
 import { storageService } from "@/services/storage";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "@/services/trash";
+import { RELATIONS } from "@/services/relations";
+import { Select } from "@/components/ui/Select";
 import { toast } from "@/components/ui/Toast";
+import type { EntityImportSummary, ImportMode, WorkspaceArchive } from "@/lib/server/workspace";
+import type { DeletePolicy, RelationName } from "@/types";
+
+const DELETE_POLICY_LABELS: Record<DeletePolicy, string> = {
+  unlink: "Unlink them",
+  cascade: "Delete them too",
+  block: "Prevent the delete",
+};
+
+/**
+ * Offer a value as a downloaded JSON file
+ */
+function downloadJson(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  // Clean up
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
 
 export default function SettingsPage() {
   const { settings, updateSettings, updateTheme, updateNotifications } = useAppDataContext();
@@ -24,6 +57,9 @@ export default function SettingsPage() {
   const [showImportConfirm, setShowImportConfirm] = useState(false);
   const [importData, setImportData] = useState<string | null>(null);
   const [useServerStorage, setUseServerStorage] = useState(settings?.useServerStorage ?? true);
+  const [workspaceArchive, setWorkspaceArchive] = useState<WorkspaceArchive | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importPreview, setImportPreview] = useState<EntityImportSummary[] | null>(null);
 
   if (!settings) {
     return (
@@ -83,6 +119,28 @@ export default function SettingsPage() {
     }
   };
 
+  // Handle trash retention change
+  const handleTrashRetentionChange = async (value: number) => {
+    if (!Number.isFinite(value) || value < 1) return;
+
+    try {
+      await updateSettings({ trashRetentionDays: value });
+      showSaveSuccess();
+    } catch (error) {
+      console.error("Failed to update trash retention:", error);
+    }
+  };
+
+  // Handle delete rule change
+  const handleDeleteRuleChange = async (relation: RelationName, policy: DeletePolicy) => {
+    try {
+      await updateSettings({ deleteRules: { ...settings?.deleteRules, [relation]: policy } });
+      showSaveSuccess();
+    } catch (error) {
+      console.error("Failed to update delete rule:", error);
+    }
+  };
+
   // Show save success indicator
   const showSaveSuccess = () => {
     setSaveSuccess(true);
@@ -92,15 +150,23 @@ export default function SettingsPage() {
   };
 
   // Handle data export
-  const handleExportData = () => {
+  const handleExportData = async () => {
     setIsExporting(true);
 
     try {
-      // Get all data from localStorage
+      // With server storage the server holds the real data, so export its whole workspace
+      if (useServerStorage) {
+        const archive = await storageService.exportWorkspace();
+        downloadJson(archive, `taskflow-workspace-${new Date().toISOString().split("T")[0]}.json`);
+        return;
+      }
+
+      // Get all of this workspace's data from localStorage
+      const prefix = storageService.getLocalKeyPrefix();
       const data: Record<string, unknown> = {};
       for (let i = 0; i < localStorage.length; i++) {
         const key = localStorage.key(i);
-        if (key && key.startsWith("taskflow_data")) {
+        if (key && (key === prefix || key.startsWith(`${prefix}_`))) {
           try {
             data[key] = JSON.parse(localStorage.getItem(key) || "null");
           } catch {
@@ -110,23 +176,11 @@ export default function SettingsPage() {
         }
       }
 
-      // Create a download link
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `taskflow-backup-${new Date().toISOString().split("T")[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-
-      // Clean up
-      setTimeout(() => {
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        setIsExporting(false);
-      }, 100);
+      downloadJson(data, `taskflow-backup-${new Date().toISOString().split("T")[0]}.json`);
     } catch (error) {
       console.error("Failed to export data:", error);
+      toast.error({ title: "Error", description: "Failed to export data" });
+    } finally {
       setIsExporting(false);
     }
   };
@@ -144,10 +198,20 @@ export default function SettingsPage() {
         try {
           // Preview the data
           const jsonData = event.target.result as string;
+          const parsed = JSON.parse(jsonData);
+
+          // Workspace archives are imported on the server, after showing what they would change
+          if (useServerStorage && parsed?.format === "taskflow-workspace") {
+            setWorkspaceArchive(parsed as WorkspaceArchive);
+            previewWorkspaceImport(parsed as WorkspaceArchive, importMode);
+            return;
+          }
+
           setImportData(jsonData);
           setShowImportConfirm(true);
         } catch (err) {
           console.error("Failed to parse import file:", err);
+          toast.error({ title: "Error", description: "The selected file is not valid JSON" });
         }
       }
     };
@@ -165,9 +229,10 @@ export default function SettingsPage() {
       try {
         const data = JSON.parse(event.target?.result as string);
 
-        // Import data to localStorage
+        // Import data to localStorage, into this workspace whichever one it was exported from
         Object.entries(data).forEach(([key, value]) => {
-          localStorage.setItem(key, JSON.stringify(value));
+          const localKey = key.replace(/^taskflow_data(@[a-z0-9-]+)?/, storageService.getLocalKeyPrefix());
+          localStorage.setItem(localKey, JSON.stringify(value));
         });
 
         // Reload the page to apply changes
@@ -182,6 +247,46 @@ export default function SettingsPage() {
     reader.readAsText(importFile);
   };
 
+  // Ask the server what importing the archive would change in the given mode
+  const previewWorkspaceImport = async (archive: WorkspaceArchive, mode: ImportMode) => {
+    setImportMode(mode);
+    setImportPreview(null);
+
+    try {
+      setImportPreview(await storageService.importWorkspace(archive, mode, true));
+    } catch (error) {
+      console.error("Failed to preview import:", error);
+      toast.error({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the archive",
+      });
+      setWorkspaceArchive(null);
+    }
+  };
+
+  const handleWorkspaceImportConfirm = async () => {
+    if (!workspaceArchive) return;
+
+    setIsImporting(true);
+    try {
+      await storageService.importWorkspace(workspaceArchive, importMode);
+
+      // Reload the page to apply changes
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to import workspace:", error);
+      toast.error({ title: "Error", description: "Failed to import workspace" });
+      setIsImporting(false);
+    }
+  };
+
+  const closeWorkspaceImport = () => {
+    setWorkspaceArchive(null);
+    setImportPreview(null);
+    const input = document.getElementById("import-file") as HTMLInputElement | null;
+    if (input) input.value = "";
+  };
+
   const handleStorageToggle = async (useServer: boolean) => {
     try {
       setUseServerStorage(useServer);
@@ -248,6 +353,22 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="trashRetentionDays">Keep Deleted Items</Label>
+                  <div className="flex items-center gap-4">
+                    <Input
+                      id="trashRetentionDays"
+                      type="number"
+                      min="1"
+                      max="365"
+                      value={settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+                      onChange={(e) => handleTrashRetentionChange(parseInt(e.target.value))}
+                      className="w-20"
+                    />
+                    <span className="text-sm text-muted-foreground">days in the trash</span>
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Working Hours</Label>
                   <div className="flex items-center gap-4">
@@ -281,6 +402,32 @@ export default function SettingsPage() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Deleting Linked Items</CardTitle>
+                <CardDescription>Choose what happens to items linked to something you delete</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {(Object.keys(RELATIONS) as RelationName[]).map((name) => (
+                  <div key={name} className="flex items-center justify-between gap-4">
+                    <Label htmlFor={`delete-rule-${name}`}>{RELATIONS[name].label}</Label>
+                    <Select
+                      id={`delete-rule-${name}`}
+                      value={settings.deleteRules?.[name] ?? RELATIONS[name].defaultPolicy}
+                      onChange={(e) => handleDeleteRuleChange(name, e.target.value as DeletePolicy)}
+                      className="w-48"
+                    >
+                      {RELATIONS[name].policies.map((policy) => (
+                        <option key={policy} value={policy}>
+                          {DELETE_POLICY_LABELS[policy]}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="appearance" className="mt-4 space-y-4">
@@ -409,9 +556,15 @@ export default function SettingsPage() {
 
                 <div className="text-sm text-muted-foreground">
                   <p className="mb-2">
-                    Exporting data will download a JSON file containing all your tasks, projects, and settings.
+                    {useServerStorage
+                      ? "Exporting data will download a workspace archive of everything stored on the server, including note history and images."
+                      : "Exporting data will download a JSON file containing all your tasks, projects, and settings."}
+                  </p>
+                  <p>
+                    {useServerStorage
+                      ? "Importing a workspace archive lets you replace your data or merge it by ID, after previewing the changes."
+                      : "Importing data will replace your current data with the imported data. This cannot be undone."}
                   </p>
-                  <p>Importing data will replace your current data with the imported data. This cannot be undone.</p>
                 </div>
 
                 <Separator />
@@ -433,10 +586,90 @@ export default function SettingsPage() {
                 </div>
               </CardContent>
             </Card>
+
+            <ImportWizard />
+
+            {useServerStorage && <BackupManager />}
+
+            {useServerStorage && <StorageUsage />}
           </TabsContent>
         </Tabs>
       </div>
 
+      {/* Workspace Import Dialog */}
+      {workspaceArchive && (
+        <Dialog
+          isOpen={!!workspaceArchive}
+          onClose={closeWorkspaceImport}
+          title="Import Workspace"
+          description={`Archive exported ${new Date(workspaceArchive.exportedAt).toLocaleString()}. The current data is backed up before it changes.`}
+        >
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={importMode === "merge" ? "default" : "outline"}
+                onClick={() => previewWorkspaceImport(workspaceArchive, "merge")}
+              >
+                Merge by ID
+              </Button>
+              <Button
+                variant={importMode === "replace" ? "default" : "outline"}
+                onClick={() => previewWorkspaceImport(workspaceArchive, "replace")}
+              >
+                Replace
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {importMode === "merge"
+                ? "Records in the archive are added or overwrite the record with the same ID. Everything else is kept."
+                : "Each entity in the archive replaces the current data. Records missing from the archive are removed."}
+            </p>
+
+            {importPreview ? (
+              <div className="max-h-60 overflow-y-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted text-left">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Data</th>
+                      <th className="px-3 py-2 font-medium">Added</th>
+                      <th className="px-3 py-2 font-medium">Updated</th>
+                      <th className="px-3 py-2 font-medium">Skipped</th>
+                      {importMode === "replace" && <th className="px-3 py-2 font-medium">Removed</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importPreview.map((summary) => (
+                      <tr key={summary.entity} className="border-t">
+                        <td className="px-3 py-2">{summary.entity.replace(/_/g, " ")}</td>
+                        <td className="px-3 py-2">{summary.added}</td>
+                        <td className="px-3 py-2">{summary.updated}</td>
+                        <td className="px-3 py-2">{summary.skipped + summary.unchanged}</td>
+                        {importMode === "replace" && <td className="px-3 py-2">{summary.removed}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Checking the archive...</p>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={closeWorkspaceImport}>
+                Cancel
+              </Button>
+              <Button
+                variant={importMode === "replace" ? "destructive" : "default"}
+                onClick={handleWorkspaceImportConfirm}
+                disabled={!importPreview || isImporting}
+              >
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            </div>
+          </div>
+        </Dialog>
+      )}
+
       {/* Import Confirmation Dialog */}
       {showImportConfirm && importData && (
         <Dialog
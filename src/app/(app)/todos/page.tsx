@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { DeleteConfirmDialog, DeleteTarget } from "@/components/layout/DeleteConfirmDialog";
 import { TodoList } from "@/components/todo/TodoList";
 import { Dialog } from "@/components/ui/Dialog";
 import { TodoForm } from "@/components/todo/TodoForm";
@@ -15,6 +16,7 @@ export default function TodosPage() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingTodo, setEditingTodo] = useState<Todo | undefined>(undefined);
   const [initialStatus, setInitialStatus] = useState<"pending" | "in-progress" | "completed" | undefined>(undefined);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
 
   const handleAddClick = (status?: "pending" | "in-progress" | "completed") => {
     setEditingTodo(undefined);
@@ -107,14 +109,21 @@ export default function TodosPage() {
 
         <TodoList
           todos={todos}
+          projects={projects}
           isLoading={loading}
           onStatusChange={updateTodoStatus}
           onEdit={handleEditClick}
-          onDelete={deleteTodo}
+          onDelete={(id) => setDeleteTarget({ entity: "todos", id })}
           onAdd={handleAddClick}
           onSubtaskToggle={handleSubtaskToggle}
         />
 
+        <DeleteConfirmDialog
+          target={deleteTarget}
+          onClose={() => setDeleteTarget(null)}
+          onConfirm={(target) => deleteTodo(target.id)}
+        />
+
         <Dialog
           isOpen={isFormOpen}
           onClose={() => setIsFormOpen(false)}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAttachmentHeaders, readAttachment } from "@/lib/server/attachments";
+
+/**
+ * GET handler - Serve an attachment's bytes
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ hash: string }> }) {
+  const { hash } = await params;
+  const attachment = readAttachment(hash);
+
+  if (!attachment) {
+    return NextResponse.json({ error: `Attachment ${hash} not found` }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(attachment.data), { headers: getAttachmentHeaders(hash, attachment.type) });
+}
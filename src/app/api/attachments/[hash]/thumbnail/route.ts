@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAttachmentHeaders, readThumbnail } from "@/lib/server/attachments";
+
+/**
+ * GET handler - Serve an image attachment's thumbnail
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ hash: string }> }) {
+  const { hash } = await params;
+  const thumbnail = readThumbnail(hash);
+
+  if (!thumbnail) {
+    return NextResponse.json({ error: `Attachment ${hash} has no thumbnail` }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(thumbnail), {
+    headers: getAttachmentHeaders(`${hash}-thumbnail`, "image/webp"),
+  });
+}
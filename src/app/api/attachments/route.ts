@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_ATTACHMENT_SIZE } from "@/lib/attachments";
+import { saveAttachment } from "@/lib/server/attachments";
+
+// Room for the multipart boundaries and headers around the file
+const MAX_FORM_OVERHEAD = 64 * 1024;
+
+const MAX_BODY_SIZE = MAX_ATTACHMENT_SIZE + MAX_FORM_OVERHEAD;
+
+function tooLarge() {
+  return NextResponse.json(
+    { error: `Files can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB` },
+    { status: 413 }
+  );
+}
+
+/**
+ * Read a request body, giving up as soon as it grows past the limit so an oversized upload is never held in
+ * memory whole. Resolves to null when the body is too large.
+ */
+async function readBodyWithLimit(request: NextRequest, limit: number): Promise<Uint8Array | null> {
+  if (!request.body) {
+    return new Uint8Array();
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body;
+}
+
+/**
+ * POST handler - Store an uploaded file. Body: multipart form data with the file in a "file" field.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Refuse what the client says is too large before reading any of it
+    const contentLength = Number(request.headers.get("Content-Length"));
+    if (contentLength > MAX_BODY_SIZE) {
+      return tooLarge();
+    }
+
+    const body = await readBodyWithLimit(request, MAX_BODY_SIZE);
+    if (!body) {
+      return tooLarge();
+    }
+
+    const form = await new Response(body, { headers: { "Content-Type": request.headers.get("Content-Type") || "" } })
+      .formData()
+      .catch(() => null);
+    const file = form?.get("file");
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "A file is required" }, { status: 400 });
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return tooLarge();
+    }
+
+    const attachment = await saveAttachment(Buffer.from(await file.arrayBuffer()), file.type);
+    return NextResponse.json(attachment, { status: 201 });
+  } catch (error) {
+    console.error("Error storing attachment:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
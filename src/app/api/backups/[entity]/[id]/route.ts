@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { previewBackup, restoreBackup } from "@/lib/server/backups";
+import { publishChange } from "@/lib/server/changes";
+import { ensureMigrated } from "@/lib/server/schema";
+import { sanitizeEntity } from "@/lib/server/storage";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+type RouteParams = { params: Promise<{ entity: string; id: string }> };
+
+/**
+ * GET handler - Describe a backup, with its record count next to the current one
+ */
+export const GET = withWorkspace(async (_request: NextRequest, { params }: RouteParams) => {
+  const { entity, id } = await params;
+
+  if (sanitizeEntity(entity) !== entity) {
+    return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
+  }
+
+  const preview = previewBackup(entity, id);
+
+  if (!preview) {
+    return NextResponse.json({ error: `Backup ${id} not found for ${entity}` }, { status: 404 });
+  }
+
+  return NextResponse.json(preview);
+});
+
+/**
+ * POST handler - Replace the entity's data with the backup
+ */
+export const POST = withWorkspace(async (_request: NextRequest, { params }: RouteParams) => {
+  const { entity, id } = await params;
+
+  if (sanitizeEntity(entity) !== entity) {
+    return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
+  }
+
+  // Let a pending migration finish first so it does not run over the restored data
+  await ensureMigrated();
+
+  if (!previewBackup(entity, id)) {
+    return NextResponse.json({ error: `Backup ${id} not found for ${entity}` }, { status: 404 });
+  }
+
+  const success = await restoreBackup(entity, id);
+
+  if (!success) {
+    return NextResponse.json({ error: `Failed to restore backup for ${entity}` }, { status: 500 });
+  }
+
+  publishChange({ kind: "replace", entity });
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pruneBackups, toRetentionPolicy } from "@/lib/server/backups";
+import { createBackup, listBackups, sanitizeEntity } from "@/lib/server/storage";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+/**
+ * GET handler - List an entity's backups, newest first
+ */
+export const GET = withWorkspace(async (_request: NextRequest, { params }: { params: Promise<{ entity: string }> }) => {
+  const { entity } = await params;
+
+  if (sanitizeEntity(entity) !== entity) {
+    return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
+  }
+
+  return NextResponse.json(listBackups(entity));
+});
+
+/**
+ * POST handler - Create a backup, or prune backups with a retention policy
+ */
+export const POST = withWorkspace(async (request: NextRequest, { params }: { params: Promise<{ entity: string }> }) => {
+  const { entity } = await params;
+  const operation = request.nextUrl.searchParams.get("operation") || "create";
+
+  if (sanitizeEntity(entity) !== entity) {
+    return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (operation === "prune") {
+      const result = await pruneBackups(entity, toRetentionPolicy(body));
+      return NextResponse.json(result);
+    }
+
+    const backupId = createBackup(entity, new Date().toISOString().replace(/:/g, "-"));
+
+    if (!backupId) {
+      return NextResponse.json({ error: `No ${entity} data to back up` }, { status: 404 });
+    }
+
+    return NextResponse.json(listBackups(entity).find((backup) => backup.id === backupId) || { id: backupId }, {
+      status: 201,
+    });
+  } catch (error) {
+    console.error(`Error in backups POST handler for ${entity}:`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
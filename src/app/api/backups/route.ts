@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { listAllBackups } from "@/lib/server/backups";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+/**
+ * GET handler - List the backups of every entity, newest first
+ */
+export const GET = withWorkspace(async () => {
+  try {
+    return NextResponse.json(listAllBackups());
+  } catch (error) {
+    console.error("Error listing backups:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
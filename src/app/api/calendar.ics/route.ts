@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Todo } from "@/types";
+import { buildCalendarFeed } from "@/lib/server/calendar";
+import { projectRepository, todoRepository } from "@/lib/server/repository";
+import { ensureMigrated } from "@/lib/server/schema";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+const STATUSES: Todo["status"][] = ["pending", "in-progress", "completed"];
+
+/**
+ * Read a filter given as repeated parameters (?tag=a&tag=b) or a comma-separated list (?tag=a,b)
+ */
+function getList(request: NextRequest, name: string): string[] {
+  return request.nextUrl.searchParams
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * GET handler - iCalendar feed of todo due and start dates and milestone due dates.
+ * Filters: project (ID), tag, status. Pass todos=events to get todos as events instead of tasks.
+ */
+export const GET = withWorkspace(async (request: NextRequest) => {
+  const statuses = getList(request, "status");
+  const todosAs = request.nextUrl.searchParams.get("todos");
+
+  if (statuses.some((status) => !STATUSES.includes(status as Todo["status"]))) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(", ")}` }, { status: 400 });
+  }
+
+  if (todosAs !== null && todosAs !== "tasks" && todosAs !== "events") {
+    return NextResponse.json({ error: "todos must be tasks or events" }, { status: 400 });
+  }
+
+  await ensureMigrated();
+
+  try {
+    const feed = buildCalendarFeed(todoRepository.list(), projectRepository.list(), {
+      projectIds: getList(request, "project"),
+      tags: getList(request, "tag"),
+      statuses: statuses as Todo["status"][],
+      todosAsEvents: todosAs === "events",
+    });
+
+    return new NextResponse(feed, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="taskflow.ics"',
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,65 @@
+import { NextRequest } from "next/server";
+import { subscribeToChanges } from "@/lib/server/changes";
+import { currentWorkspaceId } from "@/lib/server/workspaceContext";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+// Comment lines sent while nothing changes, so proxies do not drop an idle connection
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * GET handler - Server-sent events stream with one message per change to the request's workspace
+ */
+export const GET = withWorkspace(async (request: NextRequest) => {
+  const encoder = new TextEncoder();
+  const workspaceId = currentWorkspaceId();
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Enqueueing throws once the stream is closed or cancelled, which ends the subscription and the heartbeat
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          stop();
+        }
+      };
+
+      unsubscribe = subscribeToChanges((change, changedWorkspaceId) => {
+        if (changedWorkspaceId === workspaceId) {
+          send(`data: ${JSON.stringify(change)}\n\n`);
+        }
+      });
+      heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      request.signal.addEventListener("abort", () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed from the other end
+        }
+      });
+
+      // Ask browsers to reconnect after a few seconds if the stream drops
+      send("retry: 5000\n\n");
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { queryJournal } from "@/lib/server/journal";
+import { sanitizeEntity } from "@/lib/server/storage";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+/**
+ * GET handler - List a page of journal entries, newest first. Filters: entity, recordId, from, to (ISO timestamps),
+ * limit, and before (the ID of the last entry of the previous page).
+ */
+export const GET = withWorkspace(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const entity = searchParams.get("entity") || undefined;
+  const recordId = searchParams.get("recordId") || undefined;
+  const from = searchParams.get("from") || undefined;
+  const to = searchParams.get("to") || undefined;
+  const before = searchParams.get("before") || undefined;
+  const limit = searchParams.get("limit");
+
+  if (entity && sanitizeEntity(entity) !== entity) {
+    return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
+  }
+
+  if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+    return NextResponse.json({ error: "from and to must be ISO timestamps" }, { status: 400 });
+  }
+
+  if (limit !== null && !/^\d+$/.test(limit)) {
+    return NextResponse.json({ error: "limit must be a non-negative integer" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(
+      queryJournal({ entity, recordId, from, to, before, limit: limit !== null ? parseInt(limit, 10) : undefined })
+    );
+  } catch (error) {
+    console.error("Error reading journal:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,14 @@
+import { createCollectionHandlers } from "@/lib/server/records";
+import { noteRepository } from "@/lib/server/repository";
+
+const handlers = createCollectionHandlers(noteRepository);
+
+/**
+ * GET handler - List all notes
+ */
+export const GET = handlers.GET;
+
+/**
+ * POST handler - Create a single record
+ */
+export const POST = handlers.POST;
@@ -0,0 +1,19 @@
+import { createRecordHandlers } from "@/lib/server/records";
+import { projectRepository } from "@/lib/server/repository";
+
+const handlers = createRecordHandlers(projectRepository);
+
+/**
+ * GET handler - Read a single record
+ */
+export const GET = handlers.GET;
+
+/**
+ * PATCH handler - Merge changes into a single record
+ */
+export const PATCH = handlers.PATCH;
+
+/**
+ * DELETE handler - Remove a single record
+ */
+export const DELETE = handlers.DELETE;
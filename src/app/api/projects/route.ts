@@ -0,0 +1,14 @@
+import { createCollectionHandlers } from "@/lib/server/records";
+import { projectRepository } from "@/lib/server/repository";
+
+const handlers = createCollectionHandlers(projectRepository);
+
+/**
+ * GET handler - List all projects
+ */
+export const GET = handlers.GET;
+
+/**
+ * POST handler - Create a single record
+ */
+export const POST = handlers.POST;
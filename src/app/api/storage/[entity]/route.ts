@@ -1,107 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
-// import { searchParams } from "next/navigation";
-
-const DATA_DIR = path.join(process.cwd(), "data");
-
-// Ensure data directory exists
-if (!fs.existsSync(DATA_DIR)) {
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-}
-
-/**
- * Helper function to get the file path for an entity
- */
-function getFilePath(entity: string, filename?: string): string {
-  const entityPath = path.join(DATA_DIR, entity);
-
-  // Ensure entity directory exists
-  if (!fs.existsSync(entityPath)) {
-    fs.mkdirSync(entityPath, { recursive: true });
-  }
-
-  return path.join(entityPath, filename || "data.json");
-}
-
-/**
- * Helper function to read data from a file
- */
-function readData<T>(entity: string, filename?: string): T | null {
-  const filePath = getFilePath(entity, filename);
-
-  if (!fs.existsSync(filePath)) {
-    return null;
-  }
-
-  try {
-    const data = fs.readFileSync(filePath, "utf8");
-    return JSON.parse(data) as T;
-  } catch (error) {
-    console.error(`Error reading ${entity} data:`, error);
-    return null;
-  }
-}
-
-/**
- * Helper function to write data to a file
- */
-function writeData<T>(entity: string, data: T, filename?: string): boolean {
-  const filePath = getFilePath(entity, filename);
-
-  try {
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), "utf8");
-    return true;
-  } catch (error) {
-    console.error(`Error writing ${entity} data:`, error);
-    return false;
-  }
-}
-
-/**
- * Helper function to create a backup
- */
-function createBackup(entity: string, timestamp: string, filename?: string): string | null {
-  const filePath = getFilePath(entity, filename);
-
-  if (!fs.existsSync(filePath)) {
-    return null;
-  }
-
-  try {
-    const backupPath = path.join(DATA_DIR, entity, `backup_${timestamp}.json`);
-    fs.copyFileSync(filePath, backupPath);
-    return backupPath;
-  } catch (error) {
-    console.error(`Error creating backup for ${entity}:`, error);
-    return null;
-  }
-}
-
-/**
- * Helper function to restore from a backup
- */
-function restoreFromBackup(entity: string, backupId: string, filename?: string): boolean {
-  const backupPath = backupId;
-  const filePath = getFilePath(entity, filename);
-
-  if (!fs.existsSync(backupPath)) {
-    return false;
-  }
-
-  try {
-    fs.copyFileSync(backupPath, filePath);
-    return true;
-  } catch (error) {
-    console.error(`Error restoring backup for ${entity}:`, error);
-    return false;
-  }
-}
+import {
+  createBackup,
+  dataExists,
+  isValidFilename,
+  parseIfMatch,
+  readDataWithRevision,
+  removeData,
+  sanitizeEntity,
+  toEtag,
+  writeDataIfMatch,
+} from "@/lib/server/storage";
+import { restoreBackup } from "@/lib/server/backups";
+import { publishChange } from "@/lib/server/changes";
+import { JOURNAL_ENTITY, journalCollectionChange } from "@/lib/server/journal";
+import { getRecordRevisions, stampRecordRevisions } from "@/lib/server/repository";
+import { ensureMigrated, METADATA_ENTITY } from "@/lib/server/schema";
+import { validateEntityData } from "@/lib/validation";
+import { withWorkspace } from "@/lib/server/workspaces";
+import { RESERVED_ENTITIES } from "@/lib/server/workspaceContext";
 
 /**
  * GET handler - Read data
  */
-export async function GET(request: NextRequest, { params }: { params: Promise<{ entity: string }> }) {
+export const GET = withWorkspace(async (request: NextRequest, { params }: { params: Promise<{ entity: string }> }) => {
   const { entity } = await params;
   const searchParams = request.nextUrl.searchParams;
   // const entity = searchParams.get("entity") || "";
@@ -109,77 +30,170 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   const operation = searchParams.get("operation") || "read";
 
   // Sanitize entity name to prevent directory traversal
-  const sanitizedEntity = entity.replace(/[^a-zA-Z0-9_-]/g, "");
+  const sanitizedEntity = sanitizeEntity(entity);
 
-  if (sanitizedEntity !== entity) {
+  if (sanitizedEntity !== entity || RESERVED_ENTITIES.includes(entity)) {
     return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
   }
 
+  // File names are passed straight to the storage driver, so they must not reach outside the entity either
+  if (filename !== undefined && !isValidFilename(filename)) {
+    return NextResponse.json({ error: "Invalid filename" }, { status: 400 });
+  }
+
+  // Upgrade data written by older versions before anyone reads it
+  await ensureMigrated();
+
   if (operation === "exists") {
-    const filePath = getFilePath(sanitizedEntity, filename);
-    const exists = fs.existsSync(filePath);
+    const exists = dataExists(sanitizedEntity, filename);
     return NextResponse.json({ exists });
   }
 
-  const data = readData(sanitizedEntity, filename);
+  const result = readDataWithRevision(sanitizedEntity, filename);
 
-  if (data === null) {
+  if (result === null) {
     return NextResponse.json({ error: `No data found for ${sanitizedEntity}` }, { status: 404 });
   }
 
-  return NextResponse.json(data);
-}
+  return NextResponse.json(result.data, { headers: { ETag: toEtag(result.revision) } });
+});
 
 /**
  * POST handler - Write data, create backup, or restore
  */
-export async function POST(request: NextRequest, { params }: { params: Promise<{ entity: string }> }) {
+export const POST = withWorkspace(async (request: NextRequest, { params }: { params: Promise<{ entity: string }> }) => {
   const { entity } = await params;
   const filename = request.nextUrl.searchParams.get("filename") || undefined;
   const operation = request.nextUrl.searchParams.get("operation") || "write";
 
   // Sanitize entity name to prevent directory traversal
-  const sanitizedEntity = entity.replace(/[^a-zA-Z0-9_-]/g, "");
+  const sanitizedEntity = sanitizeEntity(entity);
 
-  if (sanitizedEntity !== entity) {
+  if (sanitizedEntity !== entity || RESERVED_ENTITIES.includes(entity)) {
     return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
   }
 
+  // File names are passed straight to the storage driver, so they must not reach outside the entity either
+  if (filename !== undefined && !isValidFilename(filename)) {
+    return NextResponse.json({ error: "Invalid filename" }, { status: 400 });
+  }
+
+  // The journal is append-only and metadata records the schema version, so only the server itself writes either
+  if (sanitizedEntity === JOURNAL_ENTITY || sanitizedEntity === METADATA_ENTITY) {
+    return NextResponse.json({ error: `${sanitizedEntity} cannot be modified` }, { status: 403 });
+  }
+
+  await ensureMigrated();
+
   try {
     // Handle different operations
     if (operation === "backup") {
       const { timestamp } = await request.json();
-      const backupPath = createBackup(sanitizedEntity, timestamp, filename);
+      const backupId = createBackup(sanitizedEntity, timestamp, filename);
 
-      if (!backupPath) {
+      if (!backupId) {
         return NextResponse.json({ error: `Failed to create backup for ${sanitizedEntity}` }, { status: 500 });
       }
 
-      return NextResponse.json({ backupId: backupPath });
+      return NextResponse.json({ backupId });
     }
 
     if (operation === "restore") {
       const { backupId } = await request.json();
-      const success = restoreFromBackup(sanitizedEntity, backupId, filename);
+
+      if (typeof backupId !== "string") {
+        return NextResponse.json({ error: "backupId is required" }, { status: 400 });
+      }
+
+      const success = await restoreBackup(sanitizedEntity, backupId, filename);
 
       if (!success) {
         return NextResponse.json({ error: `Failed to restore backup for ${sanitizedEntity}` }, { status: 500 });
       }
 
+      if (!filename) {
+        publishChange({ kind: "replace", entity: sanitizedEntity });
+      }
       return NextResponse.json({ success: true });
     }
 
-    // Default operation: write
+    // Default operation: write, rejecting it if the client's copy is out of date
     const data = await request.json();
-    const success = writeData(sanitizedEntity, data, filename);
 
-    if (!success) {
+    // Reject data that would break every page reading it
+    if (!filename) {
+      const errors = validateEntityData(sanitizedEntity, data);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: `Invalid ${sanitizedEntity} data`, errors }, { status: 422 });
+      }
+    }
+
+    const expectedRevision = parseIfMatch(request.headers.get("If-Match"));
+    const result = await writeDataIfMatch(sanitizedEntity, data, expectedRevision, filename, (value, previous) =>
+      filename ? value : stampRecordRevisions(sanitizedEntity, previous, value)
+    );
+
+    if (result.status === "conflict") {
+      return NextResponse.json(
+        { error: `${sanitizedEntity} has been modified since it was read`, current: result.current },
+        { status: 409, headers: result.revision ? { ETag: toEtag(result.revision) } : undefined }
+      );
+    }
+
+    if (result.status === "failed") {
       return NextResponse.json({ error: `Failed to write data for ${sanitizedEntity}` }, { status: 500 });
     }
 
-    return NextResponse.json({ success: true });
+    if (!filename) {
+      await journalCollectionChange(sanitizedEntity, result.previous, result.data);
+      publishChange({ kind: "replace", entity: sanitizedEntity });
+    }
+
+    // Records written whole get their revisions from the server, which the writer needs for its next change
+    const revisions = filename ? null : getRecordRevisions(sanitizedEntity, result.data);
+    return NextResponse.json(
+      { success: true, ...(revisions ? { revisions } : {}) },
+      { headers: { ETag: toEtag(result.revision) } }
+    );
   } catch (error) {
     console.error(`Error in POST handler for ${entity}:`, error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
+
+/**
+ * DELETE handler - Delete an entity altogether, with its backups
+ */
+export const DELETE = withWorkspace(
+  async (_request: NextRequest, { params }: { params: Promise<{ entity: string }> }) => {
+    const { entity } = await params;
+
+    // Sanitize entity name to prevent directory traversal
+    const sanitizedEntity = sanitizeEntity(entity);
+
+    if (sanitizedEntity !== entity || RESERVED_ENTITIES.includes(entity)) {
+      return NextResponse.json({ error: "Invalid entity name" }, { status: 400 });
+    }
+
+    if (sanitizedEntity === JOURNAL_ENTITY || sanitizedEntity === METADATA_ENTITY) {
+      return NextResponse.json({ error: `${sanitizedEntity} cannot be deleted` }, { status: 403 });
+    }
+
+    await ensureMigrated();
+
+    try {
+      const result = await removeData(sanitizedEntity);
+
+      if (!result.removed) {
+        return NextResponse.json({ error: `No data found for ${sanitizedEntity}` }, { status: 404 });
+      }
+
+      await journalCollectionChange(sanitizedEntity, result.previous, null);
+      publishChange({ kind: "replace", entity: sanitizedEntity });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error(`Error in DELETE handler for ${entity}:`, error);
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  }
+);
@@ -0,0 +1,14 @@
+import { createCollectionHandlers } from "@/lib/server/records";
+import { todoRepository } from "@/lib/server/repository";
+
+const handlers = createCollectionHandlers(todoRepository);
+
+/**
+ * GET handler - List all todos
+ */
+export const GET = handlers.GET;
+
+/**
+ * POST handler - Create a single record
+ */
+export const POST = handlers.POST;
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { collectGarbage, findGarbage, getStorageReport, toGarbageSelection } from "@/lib/server/usage";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+/**
+ * GET handler - Report how much space the workspace's entities, notes and attachments take
+ */
+export const GET = withWorkspace(async () => {
+  try {
+    return NextResponse.json(getStorageReport());
+  } catch (error) {
+    console.error("Error building storage report:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+/**
+ * POST handler - Find or reclaim garbage. Query: operation=preview|collect. Body: keep, plus the confirmed
+ * versionHistories (note IDs) and attachments (hashes) to collect.
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  const operation = request.nextUrl.searchParams.get("operation") || "preview";
+
+  if (operation !== "preview" && operation !== "collect") {
+    return NextResponse.json({ error: `Unknown operation: ${operation}` }, { status: 400 });
+  }
+
+  try {
+    const selection = toGarbageSelection(await request.json().catch(() => ({})));
+
+    if (operation === "preview") {
+      return NextResponse.json(findGarbage(selection.keep));
+    }
+
+    return NextResponse.json(await collectGarbage(selection));
+  } catch (error) {
+    console.error(`Error in garbage ${operation}:`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ensureMigrated } from "@/lib/server/schema";
+import {
+  exportWorkspace,
+  getArchiveError,
+  ImportMode,
+  importWorkspace,
+  previewImport,
+  WorkspaceArchive,
+} from "@/lib/server/workspace";
+import { withWorkspace } from "@/lib/server/workspaces";
+
+/**
+ * GET handler - Download every entity as a single workspace archive
+ */
+export const GET = withWorkspace(async () => {
+  await ensureMigrated();
+
+  try {
+    const archive = exportWorkspace();
+    const filename = `taskflow-workspace-${archive.exportedAt.split("T")[0]}.json`;
+
+    return NextResponse.json(archive, {
+      headers: { "Content-Disposition": `attachment; filename="${filename}"` },
+    });
+  } catch (error) {
+    console.error("Error exporting workspace:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
+
+/**
+ * POST handler - Preview or import a workspace archive. Query: operation=preview|import, mode=replace|merge
+ */
+export const POST = withWorkspace(async (request: NextRequest) => {
+  const operation = request.nextUrl.searchParams.get("operation") || "preview";
+  const mode = request.nextUrl.searchParams.get("mode") || "merge";
+
+  if (operation !== "preview" && operation !== "import") {
+    return NextResponse.json({ error: `Unknown operation: ${operation}` }, { status: 400 });
+  }
+
+  if (mode !== "replace" && mode !== "merge") {
+    return NextResponse.json({ error: "mode must be replace or merge" }, { status: 400 });
+  }
+
+  await ensureMigrated();
+
+  try {
+    const archive = await request.json().catch(() => null);
+    const archiveError = getArchiveError(archive);
+
+    if (archiveError) {
+      return NextResponse.json({ error: archiveError }, { status: 422 });
+    }
+
+    if (operation === "preview") {
+      return NextResponse.json(previewImport(archive as WorkspaceArchive, mode as ImportMode));
+    }
+
+    return NextResponse.json(await importWorkspace(archive as WorkspaceArchive, mode as ImportMode));
+  } catch (error) {
+    console.error(`Error in workspace ${operation}:`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+});
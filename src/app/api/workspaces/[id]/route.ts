@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces";
+import { deleteWorkspace, getWorkspaceNameError, renameWorkspace } from "@/lib/server/workspaces";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH handler - Rename a workspace. Body: { name }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const nameError = getWorkspaceNameError(body?.name);
+
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    const workspace = renameWorkspace(id, body.name);
+    if (!workspace) {
+      return NextResponse.json({ error: `Workspace ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json(workspace);
+  } catch (error) {
+    console.error(`Error renaming workspace ${id}:`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE handler - Delete a workspace and all of its data
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (id === DEFAULT_WORKSPACE_ID) {
+    return NextResponse.json({ error: "The default workspace cannot be deleted" }, { status: 400 });
+  }
+
+  try {
+    if (!deleteWorkspace(id)) {
+      return NextResponse.json({ error: `Workspace ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting workspace ${id}:`, error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
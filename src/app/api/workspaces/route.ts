@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createWorkspace, findWorkspace, getWorkspaceNameError, listWorkspaces } from "@/lib/server/workspaces";
+
+/**
+ * GET handler - List every workspace
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(listWorkspaces());
+  } catch (error) {
+    console.error("Error listing workspaces:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST handler - Create a workspace. Body: { name, copyFrom? } where copyFrom names a workspace to duplicate
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const nameError = getWorkspaceNameError(body?.name);
+
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    if (body.copyFrom !== undefined && (typeof body.copyFrom !== "string" || !findWorkspace(body.copyFrom))) {
+      return NextResponse.json({ error: "Workspace to copy not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await createWorkspace(body.name, body.copyFrom), { status: 201 });
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,7 +1,6 @@
 import "./globals.css";
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
-import { AppDataProvider } from "@/context/AppDataContext";
 import { Toaster } from "@/components/ui/Toast";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -15,10 +14,8 @@ export default function RootLayout({ children }: { children: React.ReactNode })
   return (
     <html lang="en">
       <body className={inter.className}>
-        <AppDataProvider>
-          <div className="min-h-screen bg-background text-foreground w-4/5 m-auto">{children}</div>
-          <Toaster />
-        </AppDataProvider>
+        <div className="min-h-screen bg-background text-foreground w-4/5 m-auto">{children}</div>
+        <Toaster />
       </body>
     </html>
   );
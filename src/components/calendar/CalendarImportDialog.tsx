@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { FileUp } from "lucide-react";
+import { Project } from "@/types";
+import { Dialog } from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Label } from "@/components/ui/Label";
+import { Select } from "@/components/ui/Select";
+import { Badge } from "@/components/ui/Badge";
+import { toast } from "@/components/ui/Toast";
+import { CalendarParseResult, parseCalendar } from "@/lib/importers";
+import { importService } from "@/services/import";
+
+interface CalendarImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  projects: Project[];
+}
+
+function toDateInput(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+/**
+ * Imports the events and tasks of an .ics file as todos or as milestones of a project. Recurring events are
+ * expanded over the chosen date range and items imported before are skipped.
+ */
+export function CalendarImportDialog({ isOpen, onClose, onImported, projects }: CalendarImportDialogProps) {
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [from, setFrom] = useState(() => toDateInput(new Date()));
+  const [to, setTo] = useState(() => toDateInput(addMonths(new Date(), 3)));
+  // Empty means import as todos
+  const [projectId, setProjectId] = useState("");
+  const [result, setResult] = useState<CalendarParseResult | null>(null);
+  const [imported, setImported] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Re-read the file whenever the window changes, and check it against what was imported before
+  useEffect(() => {
+    if (!fileText) {
+      setResult(null);
+      return;
+    }
+
+    try {
+      const parsed = parseCalendar(fileText, {
+        from: new Date(`${from}T00:00:00`),
+        to: new Date(`${to}T23:59:59`),
+      });
+      setResult(parsed);
+    } catch (error) {
+      setFileText(null);
+      toast.error({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "The file is not a valid calendar",
+      });
+    }
+  }, [fileText, from, to]);
+
+  useEffect(() => {
+    if (!result) {
+      setImported(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    importService
+      .findImportedCalendarItems(result.items, projectId || undefined)
+      .then((uids) => !cancelled && setImported(uids))
+      .catch(() => !cancelled && setImported(new Set()));
+    return () => {
+      cancelled = true;
+    };
+  }, [result, projectId]);
+
+  const handleClose = () => {
+    if (isImporting) return;
+    setFileText(null);
+    onClose();
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      setFileText(await file.text());
+    }
+  };
+
+  const importable = (result?.items || []).filter((item) => !imported.has(item.uid) && (!projectId || item.date));
+
+  const handleImport = async () => {
+    if (!result) return;
+
+    setIsImporting(true);
+    try {
+      const count = await importService.importCalendar(result.items, projectId || undefined);
+      const project = projects.find((p) => p.id === projectId);
+      toast.success({
+        title: "Calendar imported",
+        description: project ? `Added ${count} milestone(s) to ${project.name}` : `Created ${count} task(s)`,
+      });
+      onImported();
+      setFileText(null);
+      onClose();
+    } catch {
+      toast.error({
+        title: "Error",
+        description: "Import failed part way through. Importing again skips what was added.",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import Calendar"
+      description="Add the events and tasks from an .ics file as tasks or project milestones."
+      className="max-w-2xl"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Button variant="outline" onClick={() => document.getElementById("calendar-import-file")?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {fileText ? "Choose another file" : "Choose .ics file"}
+          </Button>
+          <input
+            id="calendar-import-file"
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Select value={projectId} onChange={(e) => setProjectId(e.target.value)} aria-label="Import as">
+            <option value="">Import as tasks</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                Milestones in {project.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="calendar-import-from">Repeat events from</Label>
+            <Input id="calendar-import-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="calendar-import-to">Until</Label>
+            <Input id="calendar-import-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {result && (
+          <>
+            {result.items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No events or tasks found.</p>
+            ) : (
+              <ul className="divide-y rounded-md border max-h-72 overflow-y-auto">
+                {result.items.map((item) => {
+                  const skipped = imported.has(item.uid) || (!!projectId && !item.date);
+                  return (
+                    <li
+                      key={item.uid}
+                      className={`flex items-center justify-between gap-4 px-3 py-2 text-sm ${skipped ? "opacity-50" : ""}`}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{item.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.date
+                            ? format(parseISO(item.date), item.allDay ? "MMM d, yyyy" : "MMM d, yyyy HH:mm")
+                            : "No date"}
+                          {item.recurring && " · repeats"}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Badge variant="outline">{item.kind === "todo" ? "Task" : "Event"}</Badge>
+                        {imported.has(item.uid) && <Badge variant="secondary">Already imported</Badge>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {result.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                {result.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importable.length === 0 || isImporting}>
+            {isImporting ? "Importing..." : `Import ${importable.length} item(s)`}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -1,9 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { Header } from "./Header";
 import { Sidebar } from "./Sidebar";
-import { useErrorBoundary } from "@/hooks";
+import { MergeConflictDialog } from "./MergeConflictDialog";
+import { RejectedChangesDialog } from "./RejectedChangesDialog";
+import { useErrorBoundary, usePendingSync } from "@/hooks";
 import { useAppDataContext } from "@/context/AppDataContext";
 import { useAppNavigation } from "@/utils/navigation";
 import { Dialog } from "@/components/ui/Dialog";
@@ -11,6 +13,7 @@ import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Label } from "@/components/ui/Label";
 import { Select } from "@/components/ui/Select";
+import { CloudOff, RefreshCw } from "lucide-react";
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -25,9 +28,20 @@ export function AppLayout({ children }: AppLayoutProps) {
   const [taskDueDate, setTaskDueDate] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { addTodo, todos, projects, notes } = useAppDataContext();
+  const { addTodo, todos, projects, notes, refreshTodos, refreshProjects, refreshNotes } = useAppDataContext();
   const { navigateToTodos } = useAppNavigation();
   const { ErrorBoundary } = useErrorBoundary();
+  const { pendingCount, syncing, syncNow } = usePendingSync();
+
+  // Reload whichever collection a resolved sync conflict or a resent change belonged to
+  const handleConflictResolved = useCallback(
+    (entity: string) => {
+      if (entity === "todos") refreshTodos();
+      else if (entity === "projects") refreshProjects();
+      else if (entity === "notes") refreshNotes();
+    },
+    [refreshTodos, refreshProjects, refreshNotes]
+  );
 
   // Search functionality
   const handleSearchChange = (query: string) => {
@@ -60,6 +74,22 @@ export function AppLayout({ children }: AppLayoutProps) {
   return (
     <div className="flex h-screen flex-col">
       <Header onAddClick={handleAddTask} searchQuery={searchQuery} onSearchChange={handleSearchChange} />
+      {pendingCount > 0 && (
+        <div className="flex items-center justify-center gap-3 border-b bg-yellow-50 px-4 py-1.5 text-sm text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+          <CloudOff className="h-4 w-4" />
+          <span>
+            {pendingCount} {pendingCount === 1 ? "change" : "changes"} pending sync
+          </span>
+          <button
+            onClick={() => syncNow()}
+            disabled={syncing}
+            className="inline-flex items-center gap-1 font-medium underline-offset-4 hover:underline disabled:opacity-50"
+          >
+            <RefreshCw className={`h-3 w-3 ${syncing ? "animate-spin" : ""}`} />
+            {syncing ? "Syncing..." : "Retry now"}
+          </button>
+        </div>
+      )}
       <div className="flex flex-1 overflow-hidden">
         <Sidebar
           todoCount={todos.filter((t) => t.status === "pending").length}
@@ -86,6 +116,9 @@ export function AppLayout({ children }: AppLayoutProps) {
         </ErrorBoundary>
       </div>
 
+      <MergeConflictDialog onResolved={handleConflictResolved} />
+      <RejectedChangesDialog onRetried={handleConflictResolved} />
+
       {/* Quick Add Task Dialog */}
       <Dialog
         isOpen={showAddTaskDialog}
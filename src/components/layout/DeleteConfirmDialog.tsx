@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Dialog } from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { toast } from "@/components/ui/Toast";
+import { DeletePlan, describeDeletePlan, relationService } from "@/services/relations";
+import { RecordEntityType } from "@/services/storage";
+
+export interface DeleteTarget {
+  entity: RecordEntityType;
+  id: string;
+}
+
+interface DeleteConfirmDialogProps {
+  target: DeleteTarget | null;
+  onClose: () => void;
+  onConfirm: (target: DeleteTarget) => Promise<void>;
+}
+
+const ENTITY_NAMES: Record<RecordEntityType, string> = {
+  todos: "task",
+  projects: "project",
+  notes: "note",
+};
+
+/**
+ * Asks before moving a record to the trash, spelling out what the delete rules will do to the records linked to it
+ */
+export function DeleteConfirmDialog({ target, onClose, onConfirm }: DeleteConfirmDialogProps) {
+  const [plan, setPlan] = useState<DeletePlan | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setPlan(null);
+    if (!target) return;
+
+    let cancelled = false;
+    relationService
+      .planDelete(target.entity, target.id)
+      .then((result) => !cancelled && setPlan(result))
+      .catch((error) => console.error("Failed to check linked records:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [target]);
+
+  const handleConfirm = async () => {
+    if (!target) return;
+
+    setIsDeleting(true);
+    try {
+      await onConfirm(target);
+      onClose();
+    } catch (error) {
+      toast.error({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to delete ${ENTITY_NAMES[target.entity]}`,
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const name = target ? ENTITY_NAMES[target.entity] : "";
+
+  return (
+    <Dialog isOpen={!!target} onClose={onClose} title={`Delete ${name}?`}>
+      <div className="space-y-4">
+        {!plan ? (
+          <p className="text-sm text-muted-foreground">Checking linked records...</p>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <p>
+              <span className="font-medium">{plan.target.title}</span> will be moved to the trash.
+            </p>
+            {describeDeletePlan(plan).map((line) => (
+              <p key={line} className={plan.blocked ? "text-destructive" : "text-muted-foreground"}>
+                {line}
+              </p>
+            ))}
+            {(plan.blocked || plan.impacts.length > 0) && (
+              <p className="text-muted-foreground">
+                What happens to linked records is set in{" "}
+                <Link href="/settings" className="underline">
+                  Settings
+                </Link>
+                .
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!plan || plan.blocked || isDeleting}>
+            {isDeleting ? "Deleting..." : "Delete"}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog } from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { useSyncConflicts } from "@/hooks";
+import { cn } from "@/lib/utils";
+import { RecordConflict } from "@/services/storage";
+
+interface MergeConflictDialogProps {
+  onResolved?: (entity: string) => void;
+}
+
+type ConflictVersion = Record<string, unknown> | null;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, 2);
+}
+
+function getRecordLabel(conflict: RecordConflict): string {
+  const record = (conflict.local || conflict.server) as ConflictVersion;
+  const label = record?.title || record?.name;
+  return typeof label === "string" && label ? label : conflict.id;
+}
+
+function VersionColumn({
+  heading,
+  version,
+  fields,
+  other,
+}: {
+  heading: string;
+  version: ConflictVersion;
+  fields: string[];
+  other: ConflictVersion;
+}) {
+  return (
+    <div className="min-w-0 space-y-2">
+      <h3 className="text-sm font-semibold">{heading}</h3>
+      {version ? (
+        <dl className="space-y-1 text-xs">
+          {fields.map((field) => (
+            <div
+              key={field}
+              className={cn(
+                "rounded px-2 py-1",
+                formatValue(version[field]) !== formatValue(other?.[field]) && "bg-yellow-100 dark:bg-yellow-900/30"
+              )}
+            >
+              <dt className="font-medium text-muted-foreground">{field}</dt>
+              <dd className="whitespace-pre-wrap break-words">{formatValue(version[field])}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="rounded bg-muted px-2 py-4 text-center text-sm text-muted-foreground">Deleted</p>
+      )}
+    </div>
+  );
+}
+
+export function MergeConflictDialog({ onResolved }: MergeConflictDialogProps) {
+  const { conflicts, resolving, error, resolveConflict } = useSyncConflicts(onResolved);
+  const [dismissedCount, setDismissedCount] = useState<number | null>(null);
+
+  const conflict = conflicts[0];
+  const isOpen = !!conflict && dismissedCount !== conflicts.length;
+
+  if (!conflict) {
+    return null;
+  }
+
+  const local = conflict.local as ConflictVersion;
+  const server = conflict.server as ConflictVersion;
+  const fields = Array.from(new Set([...Object.keys(local || {}), ...Object.keys(server || {})])).filter(
+    (field) => field !== "id"
+  );
+
+  const handleResolve = async (keep: "local" | "server") => {
+    try {
+      await resolveConflict(conflict, keep);
+    } catch {
+      // Error is shown in the dialog
+    }
+  };
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={() => setDismissedCount(conflicts.length)}
+      title="Resolve sync conflict"
+      description={`"${getRecordLabel(conflict)}" in ${conflict.entity} was changed on this device and on the server. Choose which version to keep.`}
+      className="max-w-3xl max-h-[85vh]"
+    >
+      <div className="space-y-4">
+        {conflicts.length > 1 && (
+          <p className="text-sm text-muted-foreground">{conflicts.length} conflicts to resolve</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <VersionColumn heading="This device" version={local} fields={fields} other={server} />
+          <VersionColumn heading="Server" version={server} fields={fields} other={local} />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="ghost" onClick={() => setDismissedCount(conflicts.length)} disabled={resolving}>
+            Decide later
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve("server")} disabled={resolving}>
+            Keep server version
+          </Button>
+          <Button onClick={() => handleResolve("local")} disabled={resolving}>
+            Keep this device&apos;s version
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
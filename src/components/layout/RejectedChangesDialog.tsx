@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog } from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { useRejectedChanges } from "@/hooks";
+import { RejectedChange } from "@/services/storage";
+
+interface RejectedChangesDialogProps {
+  onRetried?: (entity: string) => void;
+}
+
+const KIND_LABELS: Record<RejectedChange["kind"], string> = {
+  write: "Save",
+  remove: "Removal",
+  create: "New record",
+  update: "Edit",
+  delete: "Delete",
+};
+
+function getChangeLabel(change: RejectedChange): string {
+  const target = change.filename ? `${change.entity}/${change.filename}` : change.entity;
+  return `${KIND_LABELS[change.kind]} in ${target.replace(/_/g, " ")}${change.recordId ? ` (${change.recordId})` : ""}`;
+}
+
+/**
+ * Lists offline changes the server refused for a reason other than a record conflict, such as invalid data or a
+ * clash on settings, so the user decides whether to drop them or overwrite the server with them
+ */
+export function RejectedChangesDialog({ onRetried }: RejectedChangesDialogProps) {
+  const { rejectedChanges, retrying, error, retryChange, discardChange } = useRejectedChanges(onRetried);
+  const [dismissedCount, setDismissedCount] = useState<number | null>(null);
+
+  if (rejectedChanges.length === 0) {
+    return null;
+  }
+
+  return (
+    <Dialog
+      isOpen={dismissedCount !== rejectedChanges.length}
+      onClose={() => setDismissedCount(rejectedChanges.length)}
+      title="Offline changes were not saved"
+      description="The server refused these changes made while it was out of reach. Send them again to replace what the server has, or discard them."
+      className="max-w-2xl max-h-[85vh]"
+    >
+      <div className="space-y-4">
+        <ul className="divide-y rounded-md border max-h-80 overflow-y-auto text-sm">
+          {rejectedChanges.map((change) => (
+            <li key={change.id} className="flex items-center justify-between gap-4 px-3 py-2">
+              <div className="min-w-0">
+                <p className="truncate font-medium">{getChangeLabel(change)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {change.reason} · made {new Date(change.queuedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button variant="outline" size="sm" onClick={() => discardChange(change)} disabled={retrying}>
+                  Discard
+                </Button>
+                <Button size="sm" onClick={() => retryChange(change)} disabled={retrying}>
+                  Send again
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end">
+          <Button variant="ghost" onClick={() => setDismissedCount(rejectedChanges.length)} disabled={retrying}>
+            Decide later
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
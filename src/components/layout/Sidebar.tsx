@@ -15,6 +15,7 @@ import {
 import { Button } from "@/components/ui/Button";
 import { cn } from "@/lib/utils";
 import { useAppNavigation, getRouteByViewId } from "@/utils/navigation";
+import { WorkspaceSwitcher } from "./WorkspaceSwitcher";
 
 interface SidebarProps {
   todoCount: number;
@@ -76,8 +77,13 @@ export function Sidebar({ todoCount, projectCount, noteCount }: SidebarProps) {
         {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronLeft className="h-3 w-3" />}
       </Button>
 
+      {/* Workspace */}
+      <div className="p-2 pt-8">
+        <WorkspaceSwitcher isCollapsed={isCollapsed} />
+      </div>
+
       {/* Navigation */}
-      <nav className="flex-1 space-y-1 p-2 pt-8">
+      <nav className="flex-1 space-y-1 p-2">
         {menuItems.map((item) => {
           const Icon = item.icon;
           const count = getCounts(item.id);
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronsUpDown, Copy, Layers, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Dialog } from "@/components/ui/Dialog";
+import { Input } from "@/components/ui/Input";
+import { Label } from "@/components/ui/Label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/DropdownMenu";
+import { toast } from "@/components/ui/Toast";
+import { useWorkspaces } from "@/hooks";
+import { cn } from "@/lib/utils";
+import { DEFAULT_WORKSPACE_ID, MAX_WORKSPACE_NAME_LENGTH } from "@/lib/workspaces";
+
+type NameDialogMode = "create" | "rename" | "duplicate";
+
+const NAME_DIALOG_TITLES: Record<NameDialogMode, string> = {
+  create: "New Workspace",
+  rename: "Rename Workspace",
+  duplicate: "Duplicate Workspace",
+};
+
+interface WorkspaceSwitcherProps {
+  isCollapsed: boolean;
+}
+
+/**
+ * Shows the workspace this tab works in, with a menu to switch to another one or create, rename, duplicate and
+ * delete workspaces
+ */
+export function WorkspaceSwitcher({ isCollapsed }: WorkspaceSwitcherProps) {
+  const {
+    workspaces,
+    activeWorkspace,
+    switchWorkspace,
+    createWorkspace,
+    duplicateWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+  } = useWorkspaces();
+  const [nameDialog, setNameDialog] = useState<NameDialogMode | null>(null);
+  const [name, setName] = useState("");
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openNameDialog = (mode: NameDialogMode) => {
+    setName(mode === "create" ? "" : mode === "rename" ? activeWorkspace?.name || "" : `${activeWorkspace?.name} copy`);
+    setNameDialog(mode);
+  };
+
+  const handleNameSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!nameDialog || !activeWorkspace || !name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      if (nameDialog === "rename") {
+        await renameWorkspace(activeWorkspace.id, name);
+        setNameDialog(null);
+        return;
+      }
+
+      const workspace =
+        nameDialog === "create" ? await createWorkspace(name) : await duplicateWorkspace(activeWorkspace.id, name);
+      switchWorkspace(workspace.id);
+    } catch (error) {
+      toast.error({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save workspace",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeWorkspace) return;
+
+    setIsSaving(true);
+    try {
+      await deleteWorkspace(activeWorkspace.id);
+    } catch (error) {
+      toast.error({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete workspace",
+      });
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn("w-full justify-start space-x-3 px-3 h-10", isCollapsed && "px-2")}
+            title={activeWorkspace ? `Workspace: ${activeWorkspace.name}` : "Workspaces"}
+          >
+            <Layers className="h-5 w-5 flex-shrink-0 text-cyan-500" />
+            {!isCollapsed && (
+              <>
+                <span className="flex-1 truncate text-left">{activeWorkspace?.name || "Workspace"}</span>
+                <ChevronsUpDown className="h-4 w-4 text-muted-foreground" />
+              </>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem key={workspace.id} onClick={() => switchWorkspace(workspace.id)}>
+              <Check
+                className={cn("h-4 w-4 mr-2", workspace.id === activeWorkspace?.id ? "opacity-100" : "opacity-0")}
+              />
+              <span className="truncate">{workspace.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openNameDialog("create")}>
+            <Plus className="h-4 w-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openNameDialog("rename")} disabled={!activeWorkspace}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openNameDialog("duplicate")} disabled={!activeWorkspace}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setShowDeleteConfirm(true)}
+            disabled={!activeWorkspace || activeWorkspace.id === DEFAULT_WORKSPACE_ID}
+            className="text-destructive"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        isOpen={!!nameDialog}
+        onClose={() => !isSaving && setNameDialog(null)}
+        title={nameDialog ? NAME_DIALOG_TITLES[nameDialog] : ""}
+        description={
+          nameDialog === "duplicate"
+            ? `Copies the tasks, projects, notes and settings of ${activeWorkspace?.name}. Backups are not copied.`
+            : nameDialog === "create"
+              ? "Starts empty, with its own data and settings."
+              : undefined
+        }
+      >
+        <form onSubmit={handleNameSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              maxLength={MAX_WORKSPACE_NAME_LENGTH}
+              onChange={(event) => setName(event.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setNameDialog(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              {isSaving ? "Saving..." : nameDialog === "rename" ? "Rename" : "Create and open"}
+            </Button>
+          </div>
+        </form>
+      </Dialog>
+
+      <Dialog
+        isOpen={showDeleteConfirm}
+        onClose={() => !isSaving && setShowDeleteConfirm(false)}
+        title={`Delete ${activeWorkspace?.name}?`}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Every task, project, note, setting and backup in this workspace is deleted for good. You will be taken back
+            to {workspaces.find((workspace) => workspace.id === DEFAULT_WORKSPACE_ID)?.name}.
+          </p>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowDeleteConfirm(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? "Deleting..." : "Delete Workspace"}
+            </Button>
+          </div>
+        </div>
+      </Dialog>
+    </>
+  );
+}
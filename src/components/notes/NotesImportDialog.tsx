@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { FileArchive, FolderOpen } from "lucide-react";
+import { Dialog } from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { toast } from "@/components/ui/Toast";
+import { NotesVaultPlan, planNotesVaultImport } from "@/lib/notesVault";
+import { readZip, ZipEntry } from "@/lib/zip";
+import { importService } from "@/services/import";
+
+// Files worth reading from a folder upload; everything else is left on disk
+const VAULT_FILE_PATTERN = /\.(md|markdown|png|jpe?g|gif|webp|svg|bmp)$/i;
+
+interface NotesImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+/**
+ * Imports a folder or zip of Markdown files as notes, after showing what was found
+ */
+export function NotesImportDialog({ isOpen, onClose, onImported }: NotesImportDialogProps) {
+  const [plan, setPlan] = useState<NotesVaultPlan | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleClose = () => {
+    if (isImporting) return;
+    setPlan(null);
+    onClose();
+  };
+
+  const readFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (selected.length === 0) return;
+
+    setIsReading(true);
+    try {
+      let files: ZipEntry[];
+      if (selected.length === 1 && /\.zip$/i.test(selected[0].name)) {
+        files = await readZip(new Uint8Array(await selected[0].arrayBuffer()));
+      } else {
+        files = await Promise.all(
+          selected
+            .filter((file) => VAULT_FILE_PATTERN.test(file.name))
+            .map(async (file) => ({
+              path: file.webkitRelativePath || file.name,
+              data: new Uint8Array(await file.arrayBuffer()),
+            }))
+        );
+      }
+      setPlan(planNotesVaultImport(files));
+    } catch (error) {
+      toast.error({
+        title: "Could not read files",
+        description: error instanceof Error ? error.message : "The upload is not a readable folder or zip",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setIsImporting(true);
+    try {
+      const notes = await importService.importNotes(plan);
+      toast.success({ title: "Notes imported", description: `Created ${notes.length} note(s)` });
+      onImported();
+      setPlan(null);
+      onClose();
+    } catch {
+      toast.error({ title: "Error", description: "Import failed part way through. Check your notes." });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const imageCount = plan?.notes.reduce((total, note) => total + note.images.length, 0) ?? 0;
+  const linkCount = plan?.notes.reduce((total, note) => total + note.links.length, 0) ?? 0;
+  const folderCount = new Set(plan?.notes.map((note) => note.folder).filter(Boolean)).size;
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import Markdown Notes"
+      description="Folders become note folders, front matter tags become tags, and [[links]] between notes are kept."
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            onClick={() => document.getElementById("notes-import-folder")?.click()}
+            disabled={isReading || isImporting}
+          >
+            <FolderOpen className="h-4 w-4 mr-2" />
+            Choose folder
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => document.getElementById("notes-import-zip")?.click()}
+            disabled={isReading || isImporting}
+          >
+            <FileArchive className="h-4 w-4 mr-2" />
+            Choose zip
+          </Button>
+          <input
+            id="notes-import-folder"
+            type="file"
+            multiple
+            className="hidden"
+            ref={(input) => input?.setAttribute("webkitdirectory", "")}
+            onChange={readFiles}
+          />
+          <input id="notes-import-zip" type="file" accept=".zip" className="hidden" onChange={readFiles} />
+        </div>
+
+        {isReading && <p className="text-sm text-muted-foreground">Reading files...</p>}
+
+        {plan && (
+          <>
+            <dl className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 text-sm">
+              <dt className="text-muted-foreground">Notes</dt>
+              <dd>{plan.notes.length}</dd>
+              <dt className="text-muted-foreground">Folders</dt>
+              <dd>{folderCount}</dd>
+              <dt className="text-muted-foreground">Images</dt>
+              <dd>{imageCount}</dd>
+              <dt className="text-muted-foreground">Links between notes</dt>
+              <dd>{linkCount}</dd>
+            </dl>
+            {plan.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                {plan.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!plan || plan.notes.length === 0 || isImporting}>
+            {isImporting ? "Importing..." : `Import ${plan?.notes.length ?? 0} note(s)`}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
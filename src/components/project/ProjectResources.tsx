@@ -6,8 +6,10 @@ import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Select } from "@/components/ui/Select";
 import { Card } from "@/components/ui/Card";
-import { File, Link as LinkIcon, Newspaper, Plus, ExternalLink, Trash } from "lucide-react";
+import { File, Link as LinkIcon, Newspaper, Plus, ExternalLink, Trash, Upload } from "lucide-react";
 import { formatDate } from "@/lib/utils";
+import { toast } from "@/components/ui/Toast";
+import { attachmentService } from "@/services/attachments";
 
 interface ProjectResourcesProps {
   project: Project;
@@ -26,6 +28,27 @@ export function ProjectResources({ project, onAddResource, onDeleteResource }: P
     type: "link",
     url: "",
   });
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Upload a file to the attachment store and point the resource at it
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const attachment = await attachmentService.upload(file, file.name);
+      setNewResource((prev) => ({ ...prev, name: prev.name || file.name, url: attachment.url }));
+    } catch (error) {
+      toast.error({
+        title: `Could not upload ${file.name}`,
+        description: error instanceof Error ? error.message : "Upload failed",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
 
   const handleAddSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -131,12 +154,28 @@ export function ProjectResources({ project, onAddResource, onDeleteResource }: P
                 }
                 required
               />
+              {newResource.type === "file" && (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => document.getElementById("new-resource-file")?.click()}
+                    disabled={isUploading}
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {isUploading ? "Uploading..." : "Upload a file instead"}
+                  </Button>
+                  <input id="new-resource-file" type="file" className="hidden" onChange={handleFileSelected} />
+                </>
+              )}
             </div>
             <div className="flex justify-end gap-2 pt-2">
               <Button type="button" variant="outline" size="sm" onClick={() => setIsAdding(false)}>
                 Cancel
               </Button>
-              <Button type="submit" size="sm">
+              <Button type="submit" size="sm" disabled={isUploading}>
                 Add Resource
               </Button>
             </div>
@@ -0,0 +1,166 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Archive, RefreshCw, RotateCcw, Scissors } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Dialog } from "@/components/ui/Dialog";
+import { toast } from "@/components/ui/Toast";
+import { formatSize } from "@/lib/utils";
+import type { BackupInfo } from "@/lib/server/drivers";
+import type { BackupPreview } from "@/lib/server/backups";
+import { storageService } from "@/services/storage";
+
+function formatCount(count: number | null): string {
+  return count === null ? "—" : `${count} record${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Lists server backups and restores a chosen one after showing what it holds
+ */
+export function BackupManager() {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isPruning, setIsPruning] = useState(false);
+
+  const loadBackups = useCallback(async () => {
+    setLoading(true);
+    try {
+      setBackups(await storageService.listServerBackups());
+    } catch {
+      toast.error({ title: "Error", description: "Failed to load backups" });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const handleSelect = async (backup: BackupInfo) => {
+    try {
+      setPreview(await storageService.previewServerBackup(backup.entity, backup.id));
+    } catch {
+      toast.error({ title: "Error", description: "Failed to read backup" });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+
+    setIsRestoring(true);
+    try {
+      await storageService.restoreServerBackup(preview.entity, preview.id);
+
+      // Reload the page so every view picks up the restored data
+      window.location.reload();
+    } catch {
+      toast.error({ title: "Error", description: `Failed to restore ${preview.entity}` });
+      setIsRestoring(false);
+    }
+  };
+
+  const handlePrune = async () => {
+    setIsPruning(true);
+    try {
+      const entities = Array.from(new Set(backups.map((backup) => backup.entity)));
+      const results = await Promise.all(entities.map((entity) => storageService.pruneServerBackups(entity)));
+      const deleted = results.reduce((total, result) => total + result.deleted.length, 0);
+
+      toast.success({
+        title: "Backups pruned",
+        description: deleted > 0 ? `Deleted ${deleted} old backup${deleted === 1 ? "" : "s"}` : "Nothing to delete",
+      });
+      await loadBackups();
+    } catch {
+      toast.error({ title: "Error", description: "Failed to prune backups" });
+    } finally {
+      setIsPruning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backups</CardTitle>
+        <CardDescription>
+          Snapshots kept on the server before migrations, restores and other risky changes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={loadBackups} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={handlePrune} disabled={isPruning || backups.length === 0}>
+            <Scissors className="h-4 w-4 mr-2" />
+            {isPruning ? "Pruning..." : "Prune old backups"}
+          </Button>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Pruning keeps the most recent backups of each kind of data, plus one a day for the last week and one a week
+          for the last month.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading backups...</p>
+        ) : backups.length === 0 ? (
+          <div className="flex flex-col items-center py-6 text-muted-foreground">
+            <Archive className="h-8 w-8 mb-2" />
+            <p className="text-sm">No backups yet</p>
+          </div>
+        ) : (
+          <ul className="divide-y rounded-md border max-h-80 overflow-y-auto">
+            {backups.map((backup) => (
+              <li key={`${backup.entity}/${backup.id}`} className="flex items-center justify-between gap-4 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium capitalize">{backup.entity}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(backup.createdAt).toLocaleString()} · {formatSize(backup.size)}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleSelect(backup)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {preview && (
+        <Dialog
+          isOpen={!!preview}
+          onClose={() => setPreview(null)}
+          title={`Restore ${preview.entity}?`}
+          description="The current data will be replaced with this backup. A backup of the current data is taken first."
+        >
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 text-sm">
+              <dt className="text-muted-foreground">Backup from</dt>
+              <dd>{new Date(preview.createdAt).toLocaleString()}</dd>
+              <dt className="text-muted-foreground">Backup holds</dt>
+              <dd>{formatCount(preview.recordCount)}</dd>
+              <dt className="text-muted-foreground">Currently stored</dt>
+              <dd>{formatCount(preview.currentRecordCount)}</dd>
+            </dl>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleRestore} disabled={isRestoring}>
+                {isRestoring ? "Restoring..." : "Restore"}
+              </Button>
+            </div>
+          </div>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
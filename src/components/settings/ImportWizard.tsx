@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { FileUp } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Label } from "@/components/ui/Label";
+import { Select } from "@/components/ui/Select";
+import { toast } from "@/components/ui/Toast";
+import { useAppDataContext } from "@/context/AppDataContext";
+import { parseCsvObjects } from "@/lib/csv";
+import {
+  CSV_IMPORT_FIELDS,
+  CsvColumnMapping,
+  CsvImportField,
+  guessCsvMapping,
+  ImportPlan,
+  parseTodoistCsv,
+  parseTodoistJson,
+  parseTrelloBoard,
+  planCsvImport,
+} from "@/lib/importers";
+import { importService } from "@/services/import";
+
+type ImportSource = "todoist" | "trello" | "csv";
+
+const SOURCES: Array<{ value: ImportSource; label: string; accept: string; hint: string }> = [
+  {
+    value: "todoist",
+    label: "Todoist",
+    accept: ".csv,.json",
+    hint: "A project exported as CSV, or a JSON backup with projects, sections and tasks",
+  },
+  { value: "trello", label: "Trello", accept: ".json", hint: "A board exported from Trello as JSON" },
+  { value: "csv", label: "CSV task list", accept: ".csv,.tsv,.txt", hint: "Any spreadsheet with one task per row" },
+];
+
+const FIELD_LABELS: Record<CsvImportField, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  dueDate: "Due date",
+  tags: "Tags",
+  project: "Project",
+  milestone: "Milestone",
+};
+
+/**
+ * Imports tasks from Todoist, Trello or a CSV file, with a column mapping step for CSV and a preview before
+ * anything is created
+ */
+export function ImportWizard() {
+  const { refreshTodos, refreshProjects } = useAppDataContext();
+  const [source, setSource] = useState<ImportSource>("todoist");
+  const [csv, setCsv] = useState<{ headers: string[]; rows: Record<string, string>[] } | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const selected = SOURCES.find((option) => option.value === source)!;
+
+  const reset = () => {
+    setCsv(null);
+    setMapping({});
+    setPlan(null);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    reset();
+    try {
+      const text = await file.text();
+      const isJson = file.name.toLowerCase().endsWith(".json");
+
+      if (source === "csv") {
+        const parsed = parseCsvObjects(text);
+        if (parsed.headers.length === 0) {
+          throw new Error("The file is empty");
+        }
+        setCsv(parsed);
+        setMapping(guessCsvMapping(parsed.headers));
+      } else if (source === "trello") {
+        setPlan(parseTrelloBoard(JSON.parse(text)));
+      } else if (isJson) {
+        setPlan(parseTodoistJson(JSON.parse(text)));
+      } else {
+        setPlan(parseTodoistCsv(text, file.name.replace(/\.[^.]+$/, "")));
+      }
+    } catch (error) {
+      toast.error({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "The file is not a valid export",
+      });
+    }
+  };
+
+  const handleMappingConfirmed = () => {
+    if (!csv) return;
+
+    try {
+      setPlan(planCsvImport(csv.rows, mapping));
+    } catch (error) {
+      toast.error({ title: "Error", description: error instanceof Error ? error.message : "Invalid column mapping" });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importService.applyImport(plan);
+      refreshTodos();
+      refreshProjects();
+      toast.success({
+        title: "Import complete",
+        description: `Imported ${result.todos.length} task(s) and ${result.projects.length} project(s) from ${plan.source}`,
+      });
+      reset();
+    } catch {
+      toast.error({ title: "Error", description: "Import failed part way through. Check your projects and tasks." });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const milestoneCount = plan?.projects.reduce((total, project) => total + project.milestones.length, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import from other apps</CardTitle>
+        <CardDescription>Bring in tasks and projects from Todoist, Trello or a CSV file</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="import-source">Source</Label>
+            <Select
+              id="import-source"
+              value={source}
+              onChange={(event) => {
+                setSource(event.target.value as ImportSource);
+                reset();
+              }}
+            >
+              {SOURCES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <Button variant="outline" onClick={() => document.getElementById("import-wizard-file")?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Choose file
+          </Button>
+          <input
+            id="import-wizard-file"
+            type="file"
+            accept={selected.accept}
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">{selected.hint}</p>
+
+        {csv && !plan && (
+          <div className="space-y-4 rounded-md border p-4">
+            <p className="text-sm font-medium">
+              Match columns to task fields ({csv.rows.length} row{csv.rows.length === 1 ? "" : "s"})
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {CSV_IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`import-column-${field}`}>
+                    {FIELD_LABELS[field]}
+                    {field === "title" && " *"}
+                  </Label>
+                  <Select
+                    id={`import-column-${field}`}
+                    value={mapping[field] ?? ""}
+                    onChange={(event) => setMapping({ ...mapping, [field]: event.target.value || undefined })}
+                  >
+                    <option value="">Not imported</option>
+                    {csv.headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset}>
+                Cancel
+              </Button>
+              <Button onClick={handleMappingConfirmed} disabled={!mapping.title}>
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {plan && (
+          <div className="space-y-4 rounded-md border p-4">
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              <dt className="text-muted-foreground">Projects</dt>
+              <dd>{plan.projects.length}</dd>
+              <dt className="text-muted-foreground">Milestones</dt>
+              <dd>{milestoneCount}</dd>
+              <dt className="text-muted-foreground">Tasks</dt>
+              <dd>{plan.todos.length}</dd>
+            </dl>
+            {plan.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                {plan.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset} disabled={isImporting}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={isImporting || plan.todos.length === 0}>
+                {isImporting ? "Importing..." : `Import ${plan.todos.length} task(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
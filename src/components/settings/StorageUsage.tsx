@@ -0,0 +1,262 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { HardDrive, RefreshCw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Dialog } from "@/components/ui/Dialog";
+import { toast } from "@/components/ui/Toast";
+import { formatSize } from "@/lib/utils";
+import type { GarbageReport, StorageReport } from "@/lib/server/usage";
+import { storageService } from "@/services/storage";
+
+// How many of the largest notes and attachments are listed
+const TOP_COUNT = 10;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Breaks down the space the workspace takes on the server, and finds and reclaims unused attachments and
+ * oversized note histories after confirmation
+ */
+export function StorageUsage() {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [garbage, setGarbage] = useState<GarbageReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isCollecting, setIsCollecting] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReport(await storageService.getStorageReport());
+    } catch {
+      toast.error({ title: "Error", description: "Failed to load storage usage" });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      const found = await storageService.findGarbage();
+
+      if (found.versionHistories.length === 0 && found.attachments.length === 0) {
+        toast.success({ title: "Nothing to clean up", description: "Every attachment and note history is in use" });
+      } else {
+        setGarbage(found);
+      }
+    } catch {
+      toast.error({ title: "Error", description: "Failed to look for unused data" });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleCollect = async () => {
+    if (!garbage) return;
+
+    setIsCollecting(true);
+    try {
+      const result = await storageService.collectGarbage(garbage);
+
+      toast.success({
+        title: "Storage cleaned up",
+        description: `Removed ${plural(result.attachmentsRemoved, "attachment")} and ${plural(
+          result.versionsRemoved,
+          "note version"
+        )}, freeing ${formatSize(result.bytes)}`,
+      });
+      setGarbage(null);
+      await loadReport();
+    } catch {
+      toast.error({ title: "Error", description: "Failed to clean up storage" });
+    } finally {
+      setIsCollecting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Storage Usage</CardTitle>
+        <CardDescription>
+          Space this workspace takes on the server, by kind of data, note and attachment
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={loadReport} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleScan} disabled={isScanning}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            {isScanning ? "Looking..." : "Clean up unused data"}
+          </Button>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Cleaning up deletes attachments nothing refers to any more, including in backups and note histories, and trims
+          note histories to their newest versions. You see what would go before anything is deleted.
+        </p>
+
+        {loading && !report ? (
+          <p className="text-sm text-muted-foreground">Loading storage usage...</p>
+        ) : !report ? (
+          <div className="flex flex-col items-center py-6 text-muted-foreground">
+            <HardDrive className="h-8 w-8 mb-2" />
+            <p className="text-sm">Storage usage is not available</p>
+          </div>
+        ) : (
+          <>
+            <dl className="grid grid-cols-3 gap-2 rounded-md bg-muted p-4 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Data</dt>
+                <dd className="font-medium">{formatSize(report.dataBytes)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Backups</dt>
+                <dd className="font-medium">{formatSize(report.backupBytes)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Attachments</dt>
+                <dd className="font-medium">{formatSize(report.attachmentBytes)}</dd>
+              </div>
+            </dl>
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">By kind of data</h3>
+              <ul className="divide-y rounded-md border max-h-60 overflow-y-auto">
+                {report.entities.map((usage) => (
+                  <li key={usage.entity} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                    <span className="truncate">{usage.entity.replace(/_/g, " ")}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {formatSize(usage.bytes)}
+                      {usage.backupCount > 0 &&
+                        ` · ${plural(usage.backupCount, "backup")} (${formatSize(usage.backupBytes)})`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {report.notes.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Largest notes</h3>
+                <ul className="divide-y rounded-md border">
+                  {report.notes.slice(0, TOP_COUNT).map((note) => (
+                    <li key={note.id} className="px-3 py-2 text-sm">
+                      <p className="truncate font-medium">
+                        {note.title || "Untitled"}
+                        {note.trashed && <span className="ml-2 text-xs text-muted-foreground">(in trash)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Note {formatSize(note.bytes)} · {plural(note.versionCount, "version")}{" "}
+                        {formatSize(note.versionBytes)} · {plural(note.attachmentCount, "attachment")}{" "}
+                        {formatSize(note.attachmentBytes)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.attachments.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Largest attachments</h3>
+                <ul className="divide-y rounded-md border">
+                  {report.attachments.slice(0, TOP_COUNT).map((attachment) => (
+                    <li key={attachment.hash} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <a
+                          href={attachment.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block truncate font-medium hover:underline"
+                        >
+                          {attachment.type} · {attachment.hash.slice(0, 12)}
+                        </a>
+                        <p className="truncate text-xs text-muted-foreground">
+                          Used by {attachment.usedBy.join(", ").replace(/_/g, " ")}
+                        </p>
+                      </div>
+                      <span className="text-muted-foreground whitespace-nowrap">{formatSize(attachment.size)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {garbage && (
+        <Dialog
+          isOpen={!!garbage}
+          onClose={() => !isCollecting && setGarbage(null)}
+          title="Clean up unused data?"
+          description={`This frees about ${formatSize(garbage.bytes)} and cannot be undone.`}
+        >
+          <div className="space-y-4">
+            {garbage.attachments.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">
+                  {plural(garbage.attachments.length, "unused attachment")} (shared by all workspaces)
+                </h3>
+                <ul className="divide-y rounded-md border max-h-40 overflow-y-auto text-sm">
+                  {garbage.attachments.map((attachment) => (
+                    <li key={attachment.hash} className="flex justify-between gap-4 px-3 py-2">
+                      <span className="truncate">
+                        {attachment.type} · {attachment.hash.slice(0, 12)}
+                      </span>
+                      <span className="text-muted-foreground whitespace-nowrap">{formatSize(attachment.size)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {garbage.versionHistories.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">
+                  {garbage.versionHistories.length === 1
+                    ? "1 note history"
+                    : `${garbage.versionHistories.length} note histories`}
+                </h3>
+                <ul className="divide-y rounded-md border max-h-40 overflow-y-auto text-sm">
+                  {garbage.versionHistories.map((history) => (
+                    <li key={history.noteId} className="flex justify-between gap-4 px-3 py-2">
+                      <span className="truncate">
+                        {history.reason === "orphaned"
+                          ? `Deleted note: all ${plural(history.versionCount, "version")}`
+                          : `${history.title || "Untitled"}: oldest ${plural(history.removeCount, "version")}`}
+                      </span>
+                      <span className="text-muted-foreground whitespace-nowrap">{formatSize(history.bytes)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setGarbage(null)} disabled={isCollecting}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleCollect} disabled={isCollecting}>
+                {isCollecting ? "Cleaning up..." : "Delete"}
+              </Button>
+            </div>
+          </div>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
@@ -1,13 +1,15 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Todo, Project, SubTask } from "@/types";
+import { Todo, Project, SubTask, TodoImage } from "@/types";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Select } from "@/components/ui/Select";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { Plus, Trash2, Upload, X } from "lucide-react";
 import { generateId } from "@/lib/utils";
+import { toast } from "@/components/ui/Toast";
+import { attachmentService } from "@/services/attachments";
 import Image from "next/image";
 
 interface TodoFormProps {
@@ -33,9 +35,9 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
   const [newSubtask, setNewSubtask] = useState("");
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
-  // For image uploads (mock implementation, in a real app would handle actual file uploads)
-  const [images, setImages] = useState<File[]>([]);
-  const [existingImages, setExistingImages] = useState(initialData?.images || []);
+  // Images are uploaded to the attachment store as soon as they are picked
+  const [images, setImages] = useState<TodoImage[]>(initialData?.images || []);
+  const [uploadingCount, setUploadingCount] = useState(0);
 
   useEffect(() => {
     if (isEditing && initialData) {
@@ -47,7 +49,7 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
       setStatus(initialData.status);
       setTags(initialData.tags || []);
       setSubtasks(initialData.subtasks || []);
-      setExistingImages(initialData.images || []);
+      setImages(initialData.images || []);
     }
   }, [initialData, isEditing]);
 
@@ -67,9 +69,6 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
 
     if (!validate()) return;
 
-    // In a real app, we would upload the images here
-    // and add them to the todo with URLs
-
     onSubmit({
       title: title.trim(),
       description: description.trim() || undefined,
@@ -79,8 +78,7 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
       projectId: projectId || undefined,
       tags,
       subtasks,
-      // Here we're just keeping the existing images since we're not actually uploading
-      images: existingImages,
+      images,
     });
   };
 
@@ -131,23 +129,42 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
     setTags(tags.filter((t) => t !== tag));
   };
 
-  // Handle image selection (mock implementation)
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      // Convert FileList to array and add to images state
-      const newFiles = Array.from(e.target.files);
-      setImages([...images, ...newFiles]);
-    }
-  };
-
-  // Remove selected image (mock implementation)
-  const handleRemoveImage = (index: number) => {
-    setImages(images.filter((_, i) => i !== index));
+  // Upload the selected images
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setUploadingCount((count) => count + files.length);
+    await Promise.all(
+      files.map(async (file) => {
+        try {
+          const attachment = await attachmentService.upload(file, file.name);
+          const image: TodoImage = {
+            id: generateId(),
+            url: attachment.url,
+            thumbnail: attachment.thumbnailUrl,
+            name: file.name,
+            type: attachment.type,
+            size: attachment.size,
+            createdAt: new Date().toISOString(),
+          };
+          setImages((prev) => [...prev, image]);
+        } catch (error) {
+          toast.error({
+            title: `Could not upload ${file.name}`,
+            description: error instanceof Error ? error.message : "Upload failed",
+          });
+        } finally {
+          setUploadingCount((count) => count - 1);
+        }
+      })
+    );
   };
 
-  // Remove existing image
-  const handleRemoveExistingImage = (id: string) => {
-    setExistingImages(existingImages.filter((img) => img.id !== id));
+  // Remove an image
+  const handleRemoveImage = (id: string) => {
+    setImages(images.filter((img) => img.id !== id));
   };
 
   // Only show active projects in the dropdown
@@ -379,7 +396,7 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
         </div>
       </div>
 
-      {/* Image Upload (Mock Implementation) */}
+      {/* Image Upload */}
       <div className="space-y-2 w-full">
         <label className="text-sm font-medium">Images</label>
 
@@ -389,9 +406,10 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
           size="sm"
           className="w-full flex items-center justify-center"
           onClick={() => document.getElementById("image-upload")?.click()}
+          disabled={uploadingCount > 0}
         >
           <Upload className="h-4 w-4 mr-2" />
-          Upload Images
+          {uploadingCount > 0 ? `Uploading ${uploadingCount} image(s)...` : "Upload Images"}
         </Button>
         <input
           id="image-upload"
@@ -402,11 +420,9 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
           onChange={handleImageChange}
         />
 
-        {/* Display existing and selected images */}
-        {(existingImages.length > 0 || images.length > 0) && (
+        {images.length > 0 && (
           <div className="grid grid-cols-4 gap-2 mt-2">
-            {/* Display existing images */}
-            {existingImages.map((image) => (
+            {images.map((image) => (
               <div key={image.id} className="relative w-full aspect-square">
                 <Image
                   src={image.thumbnail || image.url}
@@ -420,25 +436,7 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
                   variant="destructive"
                   size="sm"
                   className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full"
-                  onClick={() => handleRemoveExistingImage(image.id)}
-                >
-                  <X className="h-3 w-3" />
-                </Button>
-              </div>
-            ))}
-
-            {/* Display selected images (would be implemented in a real app) */}
-            {images.map((file, index) => (
-              <div key={index} className="relative w-full aspect-square">
-                <div className="w-full h-full flex items-center justify-center border rounded bg-muted text-xs text-center p-1 overflow-hidden">
-                  {file.name}
-                </div>
-                <Button
-                  type="button"
-                  variant="destructive"
-                  size="sm"
-                  className="absolute -top-2 -right-2 h-5 w-5 p-0 rounded-full"
-                  onClick={() => handleRemoveImage(index)}
+                  onClick={() => handleRemoveImage(image.id)}
                 >
                   <X className="h-3 w-3" />
                 </Button>
@@ -452,7 +450,9 @@ export function TodoForm({ initialData, onSubmit, onCancel, isEditing = false, p
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
         </Button>
-        <Button type="submit">{isEditing ? "Update" : "Create"} Task</Button>
+        <Button type="submit" disabled={uploadingCount > 0}>
+          {isEditing ? "Update" : "Create"} Task
+        </Button>
       </div>
     </form>
   );
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Todo } from "@/types";
+import { Project, Todo } from "@/types";
 import { TodoItem } from "./TodoItem";
 import { KanbanView } from "./KanbanView";
 import { TodoMetrics } from "./TodoMetrics";
@@ -9,9 +9,13 @@ import { Button } from "@/components/ui/Button";
 import { Plus, List, Columns, BarChart, Search } from "lucide-react";
 import { Input } from "@/components/ui/Input";
 import { Select } from "@/components/ui/Select";
+import { ExportMenu } from "@/components/ui/ExportMenu";
+import { downloadSpreadsheet, getTodoColumns, SpreadsheetFormat } from "@/lib/spreadsheet";
 
 interface TodoListProps {
   todos: Todo[];
+  // Used to resolve project names in exports
+  projects?: Project[];
   isLoading?: boolean;
   onStatusChange: (id: string, status: "pending" | "in-progress" | "completed") => void;
   onEdit: (todo: Todo) => void;
@@ -26,6 +30,7 @@ type SortMode = "dueDate" | "priority" | "createdAt" | "title";
 
 export function TodoList({
   todos,
+  projects = [],
   isLoading = false,
   onStatusChange,
   onEdit,
@@ -98,6 +103,11 @@ export function TodoList({
     }
   });
 
+  // Export the todos as currently filtered and sorted
+  const handleExport = (format: SpreadsheetFormat) => {
+    downloadSpreadsheet(sortedTodos, getTodoColumns(projects), format, "taskflow-todos");
+  };
+
   // Handle adding a new todo
   const handleAdd = (status?: "pending" | "in-progress" | "completed") => {
     onAdd(status);
@@ -142,6 +152,8 @@ export function TodoList({
             <option value="low">Low</option>
           </Select>
 
+          <ExportMenu onExport={handleExport} disabled={sortedTodos.length === 0} />
+
           <Button onClick={() => setShowMetrics(!showMetrics)} variant="outline" size="icon" title="Toggle Metrics">
             <BarChart className="h-4 w-4" />
           </Button>
@@ -0,0 +1,29 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/DropdownMenu";
+import type { SpreadsheetFormat } from "@/lib/spreadsheet";
+
+interface ExportMenuProps {
+  onExport: (format: SpreadsheetFormat) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+export function ExportMenu({ onExport, disabled = false, label = "Export" }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} title={label}>
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => onExport("csv")}>CSV (.csv)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onExport("tsv")}>Tab-separated (.tsv)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
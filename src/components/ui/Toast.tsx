@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { Toaster as SonnerToaster } from "sonner";
+import { Toaster as SonnerToaster, type ExternalToast } from "sonner";
 import { cva, type VariantProps } from "class-variance-authority";
 import { cn } from "@/lib/utils";
 
@@ -25,7 +25,7 @@ const toastVariants = cva(
 export interface ToastProps extends VariantProps<typeof toastVariants> {
   title?: string;
   description?: string;
-  action?: React.ReactNode;
+  action?: ExternalToast["action"];
 }
 
 export function Toaster() {
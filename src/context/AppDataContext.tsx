@@ -1,7 +1,9 @@
 "use client";
-import { createContext, useContext, ReactNode } from "react";
+import { createContext, useContext, useLayoutEffect, useState, ReactNode } from "react";
 import { useAppData } from "@/hooks";
-import { AppSettings, Note, Project, Todo, NoteImage } from "@/types";
+import { AppSettings, InitialAppData, Note, Project, Todo, NoteImage } from "@/types";
+import { HistoryEntry } from "@/services/history";
+import { workspaceService } from "@/services/workspace";
 
 // Define the context type
 interface AppDataContextType {
@@ -21,6 +23,7 @@ interface AppDataContextType {
   updateTodoStatus: (id: string, status: Todo["status"]) => Promise<Todo>;
   deleteTodo: (id: string) => Promise<void>;
   getTodosByProject: (projectId: string) => Promise<Todo[]>;
+  refreshTodos: () => void;
 
   // Project state
   projects: Project[];
@@ -33,6 +36,7 @@ interface AppDataContextType {
   deleteProject: (id: string) => Promise<void>;
   addTodoToProject: (projectId: string, todoId: string) => Promise<Project>;
   removeTodoFromProject: (projectId: string, todoId: string) => Promise<Project>;
+  refreshProjects: () => void;
 
   // Notes state
   notes: Note[];
@@ -44,6 +48,15 @@ interface AppDataContextType {
   addImageToNote: (noteId: string, file: File) => Promise<NoteImage>;
   removeImageFromNote: (noteId: string, imageId: string) => Promise<Note>;
   toggleFavorite: (noteId: string) => Promise<Note>;
+  refreshNotes: () => void;
+
+  // Undo history
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  undo: () => Promise<HistoryEntry | null>;
+  redo: () => Promise<HistoryEntry | null>;
 
   // Settings
   settings: AppSettings | null;
@@ -61,13 +74,37 @@ interface AppDataContextType {
 // Create the context with an empty default value
 const AppDataContext = createContext<AppDataContextType | undefined>(undefined);
 
-// Create the provider component
-export function AppDataProvider({ children }: { children: ReactNode }) {
-  const appData = useAppData();
+function AppDataState({ children, initialData }: { children: ReactNode; initialData: InitialAppData | null }) {
+  const appData = useAppData(initialData);
 
   return <AppDataContext.Provider value={appData}>{children}</AppDataContext.Provider>;
 }
 
+// Create the provider component. Data rendered on the server is shown until the client has read its own copy.
+export function AppDataProvider({
+  children,
+  initialData,
+}: {
+  children: ReactNode;
+  initialData?: InitialAppData | null;
+}) {
+  const [usableInitialData, setUsableInitialData] = useState(initialData ?? null);
+
+  // The server renders the workspace the cookie names, which another tab may have claimed since. Data for a
+  // workspace other than this tab's is dropped before it is painted, and the tab loads its own data instead.
+  useLayoutEffect(() => {
+    if (initialData && initialData.workspaceId !== workspaceService.getActiveWorkspaceId()) {
+      setUsableInitialData(null);
+    }
+  }, [initialData]);
+
+  return (
+    <AppDataState key={usableInitialData ? "server" : "client"} initialData={usableInitialData}>
+      {children}
+    </AppDataState>
+  );
+}
+
 // Create a hook to use the context
 export function useAppDataContext() {
   const context = useContext(AppDataContext);
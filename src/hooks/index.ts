@@ -1,5 +1,12 @@
 // Re-export all hooks
 export * from "./useErrorHandler";
+export * from "./useConflictRetry";
+export * from "./usePendingSync";
+export * from "./useSyncConflicts";
+export * from "./useRejectedChanges";
+export * from "./useTrash";
+export * from "./useUndoHistory";
+export * from "./useWorkspaces";
 export * from "./useTodos";
 export * from "./useProjects";
 export * from "./useNotes";
@@ -1,22 +1,331 @@
 "use client";
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useTodos } from "./useTodos";
 import { useProjects } from "./useProjects";
 import { useNotes } from "./useNotes";
-import { AppSettings } from "@/types";
-import { storageService } from "@/services/storage";
+import { useUndoHistory } from "./useUndoHistory";
+import { AppSettings, InitialAppData, Milestone, Note, Project, ProjectResource, ProjectRisk, Todo } from "@/types";
+import { toHistoryRecord } from "@/services/history";
+import { notesService } from "@/services/notes";
+import { RecordChange } from "@/services/relations";
+import { todoService } from "@/services/todo";
+import { trashService } from "@/services/trash";
+import { RecordEntityType, StorageConflictError, storageService } from "@/services/storage";
 import { useErrorHandler } from "./useErrorHandler";
 
-export function useAppData() {
-  const todoState = useTodos();
-  const projectState = useProjects();
-  const notesState = useNotes();
-  const [settings, setSettings] = useState<AppSettings | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [isInitialized, setIsInitialized] = useState(false);
+export function useAppData(initialData?: InitialAppData | null) {
+  const todoState = useTodos(initialData?.todos);
+  const projectState = useProjects(initialData?.projects);
+  const notesState = useNotes(initialData?.notes);
+  const [settings, setSettings] = useState<AppSettings | null>(initialData?.settings ?? null);
+  const [loading, setLoading] = useState(!initialData);
+  const [isInitialized, setIsInitialized] = useState(!!initialData);
+  const hasInitialSettings = useRef(!!initialData);
   const [initializationError] = useState<string | null>(null);
   const { error, setError, clearError } = useErrorHandler();
 
+  const {
+    todos,
+    reloadTodos,
+    addTodo: addTodoUntracked,
+    updateTodo: updateTodoUntracked,
+    updateTodoStatus: updateTodoStatusUntracked,
+    deleteTodo: deleteTodoUntracked,
+  } = todoState;
+  const {
+    projects,
+    reloadProjects,
+    createProject: createProjectUntracked,
+    updateProject: updateProjectUntracked,
+    updateProjectStatus: updateProjectStatusUntracked,
+    deleteProject: deleteProjectUntracked,
+    addTodoToProject: addTodoToProjectUntracked,
+    removeTodoFromProject: removeTodoFromProjectUntracked,
+    addMilestone: addMilestoneUntracked,
+    updateMilestone: updateMilestoneUntracked,
+    deleteMilestone: deleteMilestoneUntracked,
+    addProjectResource: addProjectResourceUntracked,
+    deleteProjectResource: deleteProjectResourceUntracked,
+    addProjectRisk: addProjectRiskUntracked,
+    updateProjectRisk: updateProjectRiskUntracked,
+  } = projectState;
+  const {
+    notes,
+    reloadNotes,
+    createNote: createNoteUntracked,
+    updateNote: updateNoteUntracked,
+    deleteNote: deleteNoteUntracked,
+    addImageToNote: addImageToNoteUntracked,
+    removeImageFromNote: removeImageFromNoteUntracked,
+    toggleFavorite: toggleFavoriteUntracked,
+  } = notesState;
+
+  // Pick up records an undo or redo changed
+  const reloadEntities = useCallback(
+    (entities: RecordEntityType[]) => {
+      if (entities.includes("todos")) reloadTodos();
+      if (entities.includes("projects")) reloadProjects();
+      if (entities.includes("notes")) reloadNotes();
+    },
+    [reloadTodos, reloadProjects, reloadNotes]
+  );
+
+  const history = useUndoHistory(reloadEntities);
+  const { recordChange } = history;
+
+  // A delete can cascade to or unlink other records, so every one of them is part of the command
+  const recordDelete = useCallback(
+    (label: string, changes: RecordChange[]) => {
+      recordChange(
+        label,
+        changes.map((change) => ({
+          entity: change.entity,
+          id: change.id,
+          before: toHistoryRecord(change.before),
+          after: toHistoryRecord(change.after),
+        })),
+        true
+      );
+      reloadEntities(Array.from(new Set(changes.map((change) => change.entity))));
+    },
+    [recordChange, reloadEntities]
+  );
+
+  // Todo mutations, recorded for undo
+  const addTodo = useCallback(
+    async (...args: Parameters<typeof addTodoUntracked>) => {
+      const todo = await addTodoUntracked(...args);
+      recordChange("Todo added", [{ entity: "todos", id: todo.id, before: null, after: toHistoryRecord(todo) }]);
+      return todo;
+    },
+    [addTodoUntracked, recordChange]
+  );
+
+  const updateTodo = useCallback(
+    async (updatedTodo: Todo) => {
+      const before = todos.find((todo) => todo.id === updatedTodo.id);
+      const todo = await updateTodoUntracked(updatedTodo);
+      recordChange("Todo updated", [
+        { entity: "todos", id: todo.id, before: toHistoryRecord(before), after: toHistoryRecord(todo) },
+      ]);
+      return todo;
+    },
+    [todos, updateTodoUntracked, recordChange]
+  );
+
+  const updateTodoStatus = useCallback(
+    async (id: string, status: Todo["status"]) => {
+      const before = todos.find((todo) => todo.id === id);
+      const todo = await updateTodoStatusUntracked(id, status);
+      recordChange("Todo status changed", [
+        { entity: "todos", id, before: toHistoryRecord(before), after: toHistoryRecord(todo) },
+      ]);
+      return todo;
+    },
+    [todos, updateTodoStatusUntracked, recordChange]
+  );
+
+  const deleteTodo = useCallback(
+    async (id: string) => {
+      recordDelete("Todo deleted", await deleteTodoUntracked(id));
+    },
+    [deleteTodoUntracked, recordDelete]
+  );
+
+  // Project mutations, recorded for undo. Most of them change a single project.
+  const trackProject = useCallback(
+    async (id: string, label: string, mutate: () => Promise<Project>, destructive = false) => {
+      const before = projects.find((project) => project.id === id);
+      const project = await mutate();
+      recordChange(
+        label,
+        [{ entity: "projects", id, before: toHistoryRecord(before), after: toHistoryRecord(project) }],
+        destructive
+      );
+      return project;
+    },
+    [projects, recordChange]
+  );
+
+  const createProject = useCallback(
+    async (projectData: Parameters<typeof createProjectUntracked>[0]) => {
+      const project = await createProjectUntracked(projectData);
+      recordChange("Project created", [
+        { entity: "projects", id: project.id, before: null, after: toHistoryRecord(project) },
+      ]);
+      return project;
+    },
+    [createProjectUntracked, recordChange]
+  );
+
+  const updateProject = useCallback(
+    (id: string, updates: Partial<Omit<Project, "id" | "createdAt" | "updatedAt">>) =>
+      trackProject(id, "Project updated", () => updateProjectUntracked(id, updates)),
+    [trackProject, updateProjectUntracked]
+  );
+
+  const updateProjectStatus = useCallback(
+    (id: string, status: Project["status"]) =>
+      trackProject(id, "Project status changed", () => updateProjectStatusUntracked(id, status)),
+    [trackProject, updateProjectStatusUntracked]
+  );
+
+  const deleteProject = useCallback(
+    async (id: string) => {
+      recordDelete("Project deleted", await deleteProjectUntracked(id));
+    },
+    [deleteProjectUntracked, recordDelete]
+  );
+
+  // Linking also changes the todo's projectId, so both records are part of the command
+  const trackTodoLink = useCallback(
+    async (projectId: string, todoId: string, label: string, mutate: () => Promise<Project>, destructive = false) => {
+      const projectBefore = projects.find((project) => project.id === projectId);
+      const todoBefore = todos.find((todo) => todo.id === todoId);
+      const project = await mutate();
+      const todoAfter = await todoService.getTodoById(todoId);
+
+      recordChange(
+        label,
+        [
+          { entity: "todos", id: todoId, before: toHistoryRecord(todoBefore), after: toHistoryRecord(todoAfter) },
+          {
+            entity: "projects",
+            id: projectId,
+            before: toHistoryRecord(projectBefore),
+            after: toHistoryRecord(project),
+          },
+        ],
+        destructive
+      );
+      return project;
+    },
+    [projects, todos, recordChange]
+  );
+
+  const addTodoToProject = useCallback(
+    (projectId: string, todoId: string) =>
+      trackTodoLink(projectId, todoId, "Todo added to project", () => addTodoToProjectUntracked(projectId, todoId)),
+    [trackTodoLink, addTodoToProjectUntracked]
+  );
+
+  const removeTodoFromProject = useCallback(
+    (projectId: string, todoId: string) =>
+      trackTodoLink(
+        projectId,
+        todoId,
+        "Todo removed from project",
+        () => removeTodoFromProjectUntracked(projectId, todoId),
+        true
+      ),
+    [trackTodoLink, removeTodoFromProjectUntracked]
+  );
+
+  const addMilestone = useCallback(
+    (projectId: string, milestoneData: Omit<Milestone, "id" | "createdAt" | "updatedAt">) =>
+      trackProject(projectId, "Milestone added", () => addMilestoneUntracked(projectId, milestoneData)),
+    [trackProject, addMilestoneUntracked]
+  );
+
+  const updateMilestone = useCallback(
+    (projectId: string, milestoneId: string, milestoneData: Partial<Omit<Milestone, "id" | "createdAt">>) =>
+      trackProject(projectId, "Milestone updated", () =>
+        updateMilestoneUntracked(projectId, milestoneId, milestoneData)
+      ),
+    [trackProject, updateMilestoneUntracked]
+  );
+
+  const deleteMilestone = useCallback(
+    (projectId: string, milestoneId: string) =>
+      trackProject(projectId, "Milestone deleted", () => deleteMilestoneUntracked(projectId, milestoneId), true),
+    [trackProject, deleteMilestoneUntracked]
+  );
+
+  const addProjectResource = useCallback(
+    (projectId: string, resourceData: Omit<ProjectResource, "id" | "createdAt" | "updatedAt">) =>
+      trackProject(projectId, "Resource added", () => addProjectResourceUntracked(projectId, resourceData)),
+    [trackProject, addProjectResourceUntracked]
+  );
+
+  const deleteProjectResource = useCallback(
+    (projectId: string, resourceId: string) =>
+      trackProject(projectId, "Resource deleted", () => deleteProjectResourceUntracked(projectId, resourceId), true),
+    [trackProject, deleteProjectResourceUntracked]
+  );
+
+  const addProjectRisk = useCallback(
+    (projectId: string, riskData: Omit<ProjectRisk, "id" | "createdAt" | "updatedAt">) =>
+      trackProject(projectId, "Risk added", () => addProjectRiskUntracked(projectId, riskData)),
+    [trackProject, addProjectRiskUntracked]
+  );
+
+  const updateProjectRisk = useCallback(
+    (projectId: string, riskId: string, riskData: Partial<Omit<ProjectRisk, "id" | "createdAt">>) =>
+      trackProject(projectId, "Risk updated", () => updateProjectRiskUntracked(projectId, riskId, riskData)),
+    [trackProject, updateProjectRiskUntracked]
+  );
+
+  // Note mutations, recorded for undo
+  const trackNote = useCallback(
+    async (id: string, label: string, mutate: () => Promise<Note>, destructive = false) => {
+      const before = notes.find((note) => note.id === id);
+      const note = await mutate();
+      recordChange(
+        label,
+        [{ entity: "notes", id, before: toHistoryRecord(before), after: toHistoryRecord(note) }],
+        destructive
+      );
+      return note;
+    },
+    [notes, recordChange]
+  );
+
+  const createNote = useCallback(
+    async (noteData: Parameters<typeof createNoteUntracked>[0]) => {
+      const note = await createNoteUntracked(noteData);
+      recordChange("Note created", [{ entity: "notes", id: note.id, before: null, after: toHistoryRecord(note) }]);
+      return note;
+    },
+    [createNoteUntracked, recordChange]
+  );
+
+  const updateNote = useCallback(
+    (id: string, updates: Partial<Omit<Note, "id" | "createdAt">>) =>
+      trackNote(id, "Note updated", () => updateNoteUntracked(id, updates)),
+    [trackNote, updateNoteUntracked]
+  );
+
+  const deleteNote = useCallback(
+    async (id: string) => {
+      recordDelete("Note deleted", await deleteNoteUntracked(id));
+    },
+    [deleteNoteUntracked, recordDelete]
+  );
+
+  const addImageToNote = useCallback(
+    async (noteId: string, file: File) => {
+      const before = notes.find((note) => note.id === noteId);
+      const image = await addImageToNoteUntracked(noteId, file);
+      const note = await notesService.getNoteById(noteId);
+      recordChange("Image added", [
+        { entity: "notes", id: noteId, before: toHistoryRecord(before), after: toHistoryRecord(note) },
+      ]);
+      return image;
+    },
+    [notes, addImageToNoteUntracked, recordChange]
+  );
+
+  const removeImageFromNote = useCallback(
+    (noteId: string, imageId: string) =>
+      trackNote(noteId, "Image removed", () => removeImageFromNoteUntracked(noteId, imageId), true),
+    [trackNote, removeImageFromNoteUntracked]
+  );
+
+  const toggleFavorite = useCallback(
+    (noteId: string) => trackNote(noteId, "Favorite toggled", () => toggleFavoriteUntracked(noteId)),
+    [trackNote, toggleFavoriteUntracked]
+  );
+
   // Load settings
   const loadSettings = useCallback(async () => {
     try {
@@ -53,12 +362,24 @@ export function useAppData() {
           throw new Error("Settings not initialized");
         }
 
-        const newSettings = {
+        let newSettings = {
           ...settings,
           ...updatedSettings,
         };
 
-        await storageService.write("settings", newSettings);
+        try {
+          await storageService.write("settings", newSettings);
+        } catch (err) {
+          if (!(err instanceof StorageConflictError)) {
+            throw err;
+          }
+
+          // Settings were changed elsewhere: re-apply this change on top of the latest copy
+          const latestSettings = await storageService.read<AppSettings>("settings");
+          newSettings = { ...latestSettings, ...updatedSettings };
+          await storageService.write("settings", newSettings);
+        }
+
         setSettings(newSettings);
         return newSettings;
       } catch (err) {
@@ -86,11 +407,41 @@ export function useAppData() {
     [updateSettings]
   );
 
-  // Initialize app
+  // Initialize app. Settings rendered on the server stay on screen while the client's copy is read.
   useEffect(() => {
+    if (hasInitialSettings.current) {
+      hasInitialSettings.current = false;
+      storageService
+        .read<AppSettings>("settings")
+        .then(setSettings)
+        .catch((err) => console.error(err));
+      return;
+    }
+
     loadSettings();
   }, [loadSettings]);
 
+  // Pick up settings changed in another tab or by another client
+  useEffect(
+    () =>
+      storageService.onRemoteChange(async (change) => {
+        if (change.entity === "settings") {
+          setSettings(await storageService.read<AppSettings>("settings"));
+        }
+      }),
+    []
+  );
+
+  // Clear out items that have been in the trash longer than the retention period once settings are loaded, and
+  // again only when the period changes rather than on every settings save
+  const hasSettings = settings !== null;
+  const trashRetentionDays = settings?.trashRetentionDays;
+  useEffect(() => {
+    if (hasSettings) {
+      trashService.purgeExpired(trashRetentionDays).catch((err) => console.error(err));
+    }
+  }, [hasSettings, trashRetentionDays]);
+
   // Apply theme
   useEffect(() => {
     if (settings?.theme) {
@@ -110,12 +461,43 @@ export function useAppData() {
   return {
     // Todo state
     ...todoState,
+    addTodo,
+    updateTodo,
+    updateTodoStatus,
+    deleteTodo,
 
     // Project state
     ...projectState,
+    createProject,
+    updateProject,
+    updateProjectStatus,
+    deleteProject,
+    addTodoToProject,
+    removeTodoFromProject,
+    addMilestone,
+    updateMilestone,
+    deleteMilestone,
+    addProjectResource,
+    deleteProjectResource,
+    addProjectRisk,
+    updateProjectRisk,
 
     // Notes state
     ...notesState,
+    createNote,
+    updateNote,
+    deleteNote,
+    addImageToNote,
+    removeImageFromNote,
+    toggleFavorite,
+
+    // Undo history
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    undoLabel: history.undoLabel,
+    redoLabel: history.redoLabel,
+    undo: history.undo,
+    redo: history.redo,
 
     // Settings
     settings,
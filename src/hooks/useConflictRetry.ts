@@ -0,0 +1,26 @@
+"use client";
+import { useCallback } from "react";
+import { StorageConflictError } from "@/services/storage";
+
+/**
+ * Wraps a mutation so that when the server rejects it because the data changed elsewhere,
+ * the data is re-fetched and the mutation is applied once more on top of the fresh copy
+ */
+export function useConflictRetry(refetch: () => Promise<void>) {
+  return useCallback(
+    async <T>(mutation: () => Promise<T>): Promise<T> => {
+      try {
+        return await mutation();
+      } catch (err) {
+        if (!(err instanceof StorageConflictError)) {
+          throw err;
+        }
+
+        console.warn(`${err.entity} changed elsewhere, re-fetching and retrying`);
+        await refetch();
+        return mutation();
+      }
+    },
+    [refetch]
+  );
+}
@@ -1,12 +1,16 @@
 "use client";
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Note, NoteImage } from "@/types";
+import { attachmentService } from "@/services/attachments";
 import { notesService } from "@/services/notes";
+import { applyRemoteChange, storageService } from "@/services/storage";
 import { useErrorHandler } from "./useErrorHandler";
+import { useConflictRetry } from "./useConflictRetry";
 
-export function useNotes() {
-  const [notes, setNotes] = useState<Note[]>([]);
-  const [loading, setLoading] = useState(true);
+export function useNotes(initialNotes?: Note[]) {
+  const [notes, setNotes] = useState<Note[]>(initialNotes ?? []);
+  const [loading, setLoading] = useState(!initialNotes);
+  const hasInitialNotes = useRef(!!initialNotes);
   const [refreshCounter, setRefreshCounter] = useState(0);
   const { error, setError, clearError, hasError } = useErrorHandler();
 
@@ -30,15 +34,43 @@ export function useNotes() {
     }
   }, [clearError, setError]);
 
+  // Reload notes without toggling the loading state, used to pick up changes made elsewhere
+  const reloadNotes = useCallback(async () => {
+    setNotes(await notesService.getNotes());
+  }, []);
+
+  const retryOnConflict = useConflictRetry(reloadNotes);
+
   // Refresh notes
   const refreshNotes = useCallback(() => {
     setRefreshCounter((prev) => prev + 1);
   }, []);
 
-  // Load notes on mount
+  // Load notes on mount, without the loading state if the server already rendered them
   useEffect(() => {
+    if (hasInitialNotes.current) {
+      hasInitialNotes.current = false;
+      reloadNotes().catch((err) => console.error(err));
+      return;
+    }
+
     fetchNotes();
-  }, [fetchNotes, refreshCounter]);
+  }, [fetchNotes, reloadNotes, refreshCounter]);
+
+  // Merge changes made in other tabs and by other clients
+  useEffect(
+    () =>
+      storageService.onRemoteChange((change) => {
+        if (change.entity !== "notes") return;
+
+        if (change.kind === "replace") {
+          reloadNotes();
+        } else {
+          setNotes((prev) => applyRemoteChange(prev, change));
+        }
+      }),
+    [reloadNotes]
+  );
 
   // Create a new note
   const createNote = useCallback(
@@ -62,7 +94,7 @@ export function useNotes() {
     async (id: string, updates: Partial<Omit<Note, "id" | "createdAt">>) => {
       try {
         clearError();
-        const updatedNote = await notesService.updateNote(id, updates);
+        const updatedNote = await retryOnConflict(() => notesService.updateNote(id, updates));
         setNotes((prev) => prev.map((note) => (note.id === id ? updatedNote : note)));
         return updatedNote;
       } catch (err) {
@@ -71,7 +103,7 @@ export function useNotes() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Delete a note
@@ -79,15 +111,17 @@ export function useNotes() {
     async (id: string) => {
       try {
         clearError();
-        await notesService.deleteNote(id);
-        setNotes((prev) => prev.filter((note) => note.id !== id));
+        const changes = await retryOnConflict(() => notesService.deleteNote(id));
+        const deleted = new Set(changes.filter((change) => change.entity === "notes").map((change) => change.id));
+        setNotes((prev) => prev.filter((note) => !deleted.has(note.id)));
+        return changes;
       } catch (err) {
         setError("Failed to delete note");
         console.error(err);
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Get notes by project
@@ -129,29 +163,21 @@ export function useNotes() {
         // Process the image to reduce file size while maintaining quality
         const processedImage = await processImage(file);
 
-        // Convert the blob to a data URL for persistent storage
-        const dataUrl = await blobToDataURL(processedImage.blob);
-
-        // Log for debugging
-        console.log(`Processing image for note ${noteId}:`, {
-          name: file.name,
-          originalSize: file.size,
-          processedSize: processedImage.size,
-          dimensions: `${processedImage.width}x${processedImage.height}`,
-        });
+        // Store the bytes in the attachment store, which also makes the thumbnail
+        const attachment = await attachmentService.upload(processedImage.blob, file.name);
 
         const image: Omit<NoteImage, "id" | "createdAt"> = {
-          url: dataUrl,
+          url: attachment.url,
           name: file.name,
           type: processedImage.type,
           size: processedImage.size,
-          thumbnail: await createThumbnail(processedImage.blob),
+          thumbnail: attachment.thumbnailUrl,
           originalSize: file.size, // Store original size for reference
           width: processedImage.width,
           height: processedImage.height,
         };
 
-        const updatedNote = await notesService.addImageToNote(noteId, image);
+        const updatedNote = await retryOnConflict(() => notesService.addImageToNote(noteId, image));
         setNotes((prev) => prev.map((note) => (note.id === noteId ? updatedNote : note)));
 
         // Return the last added image
@@ -163,19 +189,9 @@ export function useNotes() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
-  // Helper function to convert a blob to a data URL
-  const blobToDataURL = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = () => reject(new Error("Failed to convert blob to data URL"));
-      reader.readAsDataURL(blob);
-    });
-  };
-
   // Process image to reduce file size while maintaining quality
   const processImage = async (
     file: File
@@ -265,70 +281,12 @@ export function useNotes() {
     });
   };
 
-  // Create thumbnail for image preview
-  const createThumbnail = async (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          // Set thumbnail dimensions
-          const THUMB_WIDTH = 200;
-          const THUMB_HEIGHT = 200;
-
-          // Calculate thumbnail dimensions (maintain aspect ratio)
-          const aspectRatio = img.width / img.height;
-          let width = THUMB_WIDTH;
-          let height = THUMB_HEIGHT;
-
-          if (aspectRatio > 1) {
-            // Landscape
-            height = THUMB_WIDTH / aspectRatio;
-          } else {
-            // Portrait
-            width = THUMB_HEIGHT * aspectRatio;
-          }
-
-          // Create canvas for thumbnail
-          const canvas = document.createElement("canvas");
-          canvas.width = width;
-          canvas.height = height;
-
-          // Draw image on canvas
-          const ctx = canvas.getContext("2d");
-          if (!ctx) {
-            reject(new Error("Could not get canvas context"));
-            return;
-          }
-
-          ctx.drawImage(img, 0, 0, width, height);
-
-          // Convert to data URL
-          const dataUrl = canvas.toDataURL("image/jpeg", 0.7);
-          resolve(dataUrl);
-        };
-
-        img.onerror = () => {
-          reject(new Error("Failed to load image for thumbnail"));
-        };
-
-        img.src = event.target?.result as string;
-      };
-
-      reader.onerror = () => {
-        reject(new Error("Failed to read file for thumbnail"));
-      };
-
-      reader.readAsDataURL(blob);
-    });
-  };
-
   // Remove image from note
   const removeImageFromNote = useCallback(
     async (noteId: string, imageId: string) => {
       try {
         clearError();
-        const updatedNote = await notesService.removeImageFromNote(noteId, imageId);
+        const updatedNote = await retryOnConflict(() => notesService.removeImageFromNote(noteId, imageId));
         setNotes((prev) => prev.map((note) => (note.id === noteId ? updatedNote : note)));
         return updatedNote;
       } catch (err) {
@@ -337,7 +295,7 @@ export function useNotes() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Toggle favorite status
@@ -345,7 +303,7 @@ export function useNotes() {
     async (noteId: string) => {
       try {
         clearError();
-        const updatedNote = await notesService.toggleFavorite(noteId);
+        const updatedNote = await retryOnConflict(() => notesService.toggleFavorite(noteId));
         setNotes((prev) => prev.map((note) => (note.id === noteId ? updatedNote : note)));
         return updatedNote;
       } catch (err) {
@@ -354,7 +312,7 @@ export function useNotes() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   return {
@@ -363,6 +321,7 @@ export function useNotes() {
     error,
     hasError,
     refreshNotes,
+    reloadNotes,
     createNote,
     updateNote,
     deleteNote,
@@ -0,0 +1,57 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { storageService } from "@/services/storage";
+
+// How often to retry while changes are waiting for the server
+const RETRY_INTERVAL_MS = 30000;
+
+/**
+ * Track changes saved while the server was unreachable and replay them once it answers again
+ */
+export function usePendingSync() {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  const syncNow = useCallback(async () => {
+    try {
+      setSyncing(true);
+      return await storageService.syncPendingChanges();
+    } catch (err) {
+      console.error("Failed to sync pending changes:", err);
+      return false;
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  // Follow the outbox size
+  useEffect(() => {
+    setPendingCount(storageService.getPendingChangeCount());
+    return storageService.onPendingChangesChange(setPendingCount);
+  }, []);
+
+  // Retry when the browser comes back online and periodically while anything is pending
+  useEffect(() => {
+    if (pendingCount === 0) {
+      return;
+    }
+
+    const handleOnline = () => {
+      syncNow();
+    };
+
+    window.addEventListener("online", handleOnline);
+    const interval = window.setInterval(syncNow, RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.clearInterval(interval);
+    };
+  }, [pendingCount, syncNow]);
+
+  return {
+    pendingCount,
+    syncing,
+    syncNow,
+  };
+}
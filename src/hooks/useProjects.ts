@@ -1,12 +1,15 @@
 "use client";
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Milestone, Project, ProjectResource, ProjectRisk } from "@/types";
 import { projectService } from "@/services/project";
+import { applyRemoteChange, storageService } from "@/services/storage";
 import { useErrorHandler } from "./useErrorHandler";
+import { useConflictRetry } from "./useConflictRetry";
 
-export function useProjects() {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [loading, setLoading] = useState(true);
+export function useProjects(initialProjects?: Project[]) {
+  const [projects, setProjects] = useState<Project[]>(initialProjects ?? []);
+  const [loading, setLoading] = useState(!initialProjects);
+  const hasInitialProjects = useRef(!!initialProjects);
   const [refreshCounter, setRefreshCounter] = useState(0);
   const { error, setError, clearError } = useErrorHandler();
 
@@ -36,15 +39,43 @@ export function useProjects() {
     }
   }, [clearError, setError]);
 
+  // Reload projects without toggling the loading state, used to pick up changes made elsewhere
+  const reloadProjects = useCallback(async () => {
+    setProjects(await projectService.getProjects());
+  }, []);
+
+  const retryOnConflict = useConflictRetry(reloadProjects);
+
   // Refresh projects
   const refreshProjects = useCallback(() => {
     setRefreshCounter((prev) => prev + 1);
   }, []);
 
-  // Load projects on mount and when refreshCounter changes
+  // Load projects on mount and when refreshCounter changes, quietly the first time if the server rendered them
   useEffect(() => {
+    if (hasInitialProjects.current) {
+      hasInitialProjects.current = false;
+      reloadProjects().catch((err) => console.error(err));
+      return;
+    }
+
     fetchProjects();
-  }, [fetchProjects, refreshCounter]);
+  }, [fetchProjects, reloadProjects, refreshCounter]);
+
+  // Merge changes made in other tabs and by other clients
+  useEffect(
+    () =>
+      storageService.onRemoteChange((change) => {
+        if (change.entity !== "projects") return;
+
+        if (change.kind === "replace") {
+          reloadProjects();
+        } else {
+          setProjects((prev) => applyRemoteChange(prev, change));
+        }
+      }),
+    [reloadProjects]
+  );
 
   // Create a new project
   const createProject = useCallback(
@@ -69,7 +100,7 @@ export function useProjects() {
     async (id: string, updates: Partial<Omit<Project, "id" | "createdAt" | "updatedAt">>) => {
       try {
         clearError();
-        const updatedProject = await projectService.updateProject(id, updates);
+        const updatedProject = await retryOnConflict(() => projectService.updateProject(id, updates));
 
         setProjects((prev) => prev.map((project) => (project.id === id ? updatedProject : project)));
 
@@ -80,7 +111,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Delete a project
@@ -88,15 +119,16 @@ export function useProjects() {
     async (id: string) => {
       try {
         clearError();
-        await projectService.deleteProject(id);
+        const changes = await retryOnConflict(() => projectService.deleteProject(id));
         setProjects((prev) => prev.filter((project) => project.id !== id));
+        return changes;
       } catch (err) {
         setError("Failed to delete project");
         console.error(err);
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Update project status
@@ -104,7 +136,7 @@ export function useProjects() {
     async (id: string, status: Project["status"]) => {
       try {
         clearError();
-        const updatedProject = await projectService.updateProject(id, { status });
+        const updatedProject = await retryOnConflict(() => projectService.updateProject(id, { status }));
 
         setProjects((prev) => prev.map((project) => (project.id === id ? updatedProject : project)));
 
@@ -115,7 +147,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Add todo to project
@@ -123,7 +155,7 @@ export function useProjects() {
     async (projectId: string, todoId: string) => {
       try {
         clearError();
-        const updatedProject = await projectService.addTodoToProject(projectId, todoId);
+        const updatedProject = await retryOnConflict(() => projectService.addTodoToProject(projectId, todoId));
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -134,7 +166,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Remove todo from project
@@ -142,7 +174,7 @@ export function useProjects() {
     async (projectId: string, todoId: string) => {
       try {
         clearError();
-        const updatedProject = await projectService.removeTodoFromProject(projectId, todoId);
+        const updatedProject = await retryOnConflict(() => projectService.removeTodoFromProject(projectId, todoId));
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -153,7 +185,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Add milestone to project
@@ -161,7 +193,7 @@ export function useProjects() {
     async (projectId: string, milestoneData: Omit<Milestone, "id" | "createdAt" | "updatedAt">) => {
       try {
         clearError();
-        const updatedProject = await projectService.addMilestone(projectId, milestoneData);
+        const updatedProject = await retryOnConflict(() => projectService.addMilestone(projectId, milestoneData));
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -172,7 +204,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Update milestone
@@ -180,7 +212,9 @@ export function useProjects() {
     async (projectId: string, milestoneId: string, milestoneData: Partial<Omit<Milestone, "id" | "createdAt">>) => {
       try {
         clearError();
-        const updatedProject = await projectService.updateMilestone(projectId, milestoneId, milestoneData);
+        const updatedProject = await retryOnConflict(() =>
+          projectService.updateMilestone(projectId, milestoneId, milestoneData)
+        );
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -191,7 +225,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Delete milestone
@@ -199,7 +233,7 @@ export function useProjects() {
     async (projectId: string, milestoneId: string) => {
       try {
         clearError();
-        const updatedProject = await projectService.deleteMilestone(projectId, milestoneId);
+        const updatedProject = await retryOnConflict(() => projectService.deleteMilestone(projectId, milestoneId));
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -210,7 +244,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Add resource to project
@@ -218,7 +252,7 @@ export function useProjects() {
     async (projectId: string, resourceData: Omit<ProjectResource, "id" | "createdAt" | "updatedAt">) => {
       try {
         clearError();
-        const updatedProject = await projectService.addProjectResource(projectId, resourceData);
+        const updatedProject = await retryOnConflict(() => projectService.addProjectResource(projectId, resourceData));
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -229,7 +263,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Delete resource from project
@@ -237,7 +271,7 @@ export function useProjects() {
     async (projectId: string, resourceId: string) => {
       try {
         clearError();
-        const updatedProject = await projectService.deleteProjectResource(projectId, resourceId);
+        const updatedProject = await retryOnConflict(() => projectService.deleteProjectResource(projectId, resourceId));
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -248,7 +282,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Add risk to project
@@ -256,7 +290,7 @@ export function useProjects() {
     async (projectId: string, riskData: Omit<ProjectRisk, "id" | "createdAt" | "updatedAt">) => {
       try {
         clearError();
-        const updatedProject = await projectService.addProjectRisk(projectId, riskData);
+        const updatedProject = await retryOnConflict(() => projectService.addProjectRisk(projectId, riskData));
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -267,7 +301,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Update risk
@@ -275,7 +309,9 @@ export function useProjects() {
     async (projectId: string, riskId: string, riskData: Partial<Omit<ProjectRisk, "id" | "createdAt">>) => {
       try {
         clearError();
-        const updatedProject = await projectService.updateProjectRisk(projectId, riskId, riskData);
+        const updatedProject = await retryOnConflict(() =>
+          projectService.updateProjectRisk(projectId, riskId, riskData)
+        );
 
         setProjects((prev) => prev.map((project) => (project.id === projectId ? updatedProject : project)));
 
@@ -286,7 +322,7 @@ export function useProjects() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   return {
@@ -312,5 +348,6 @@ export function useProjects() {
     addProjectRisk,
     updateProjectRisk,
     refreshProjects,
+    reloadProjects,
   };
 }
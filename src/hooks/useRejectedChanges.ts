@@ -0,0 +1,47 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { RejectedChange, storageService } from "@/services/storage";
+import { useErrorHandler } from "./useErrorHandler";
+
+/**
+ * Track offline changes the server refused, and let the user discard them or send them again
+ */
+export function useRejectedChanges(onRetried?: (entity: string) => void) {
+  const [rejectedChanges, setRejectedChanges] = useState<RejectedChange[]>([]);
+  const [retrying, setRetrying] = useState(false);
+  const { error, setError, clearError } = useErrorHandler();
+
+  useEffect(() => {
+    setRejectedChanges(storageService.getRejectedChanges());
+    return storageService.onRejectedChangesChange(setRejectedChanges);
+  }, []);
+
+  const retryChange = useCallback(
+    async (change: RejectedChange) => {
+      try {
+        setRetrying(true);
+        clearError();
+        await storageService.retryRejectedChange(change.id);
+        onRetried?.(change.entity);
+      } catch (err) {
+        setError("Failed to send the change again");
+        console.error(err);
+      } finally {
+        setRetrying(false);
+      }
+    },
+    [onRetried, clearError, setError]
+  );
+
+  const discardChange = useCallback((change: RejectedChange) => {
+    storageService.discardRejectedChange(change.id);
+  }, []);
+
+  return {
+    rejectedChanges,
+    retrying,
+    error,
+    retryChange,
+    discardChange,
+  };
+}
@@ -0,0 +1,43 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { RecordConflict, storageService } from "@/services/storage";
+import { useErrorHandler } from "./useErrorHandler";
+
+/**
+ * Track records that were edited both locally and on the server, and let the user pick a version
+ */
+export function useSyncConflicts(onResolved?: (entity: string) => void) {
+  const [conflicts, setConflicts] = useState<RecordConflict[]>([]);
+  const [resolving, setResolving] = useState(false);
+  const { error, setError, clearError } = useErrorHandler();
+
+  useEffect(() => {
+    setConflicts(storageService.getConflicts());
+    return storageService.onConflictsChange(setConflicts);
+  }, []);
+
+  const resolveConflict = useCallback(
+    async (conflict: RecordConflict, keep: "local" | "server") => {
+      try {
+        setResolving(true);
+        clearError();
+        await storageService.resolveConflict(conflict, keep);
+        onResolved?.(conflict.entity);
+      } catch (err) {
+        setError("Failed to resolve conflict");
+        console.error(err);
+        throw err;
+      } finally {
+        setResolving(false);
+      }
+    },
+    [onResolved, clearError, setError]
+  );
+
+  return {
+    conflicts,
+    resolving,
+    error,
+    resolveConflict,
+  };
+}
@@ -1,12 +1,15 @@
 "use client";
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Todo, SubTask, TodoImage } from "@/types";
 import { todoService } from "@/services/todo";
+import { applyRemoteChange, storageService } from "@/services/storage";
 import { useErrorHandler } from "./useErrorHandler";
+import { useConflictRetry } from "./useConflictRetry";
 
-export function useTodos() {
-  const [todos, setTodos] = useState<Todo[]>([]);
-  const [loading, setLoading] = useState(true);
+export function useTodos(initialTodos?: Todo[]) {
+  const [todos, setTodos] = useState<Todo[]>(initialTodos ?? []);
+  const [loading, setLoading] = useState(!initialTodos);
+  const hasInitialTodos = useRef(!!initialTodos);
   const [refreshCounter, setRefreshCounter] = useState(0);
   const { error, setError, clearError } = useErrorHandler();
 
@@ -39,15 +42,44 @@ export function useTodos() {
     }
   }, [clearError, setError]);
 
+  // Reload todos without toggling the loading state, used to pick up changes made elsewhere
+  const reloadTodos = useCallback(async () => {
+    setTodos(await todoService.getTodos());
+  }, []);
+
+  const retryOnConflict = useConflictRetry(reloadTodos);
+
   // Refresh todos
   const refreshTodos = useCallback(() => {
     setRefreshCounter((prev) => prev + 1);
   }, []);
 
-  // Load todos on mount and when refreshCounter changes
+  // Load todos on mount and when refreshCounter changes. Todos rendered on the server stay on screen while the
+  // client's copy, which may hold changes not yet synced, is read.
   useEffect(() => {
+    if (hasInitialTodos.current) {
+      hasInitialTodos.current = false;
+      reloadTodos().catch((err) => console.error(err));
+      return;
+    }
+
     fetchTodos();
-  }, [fetchTodos, refreshCounter]);
+  }, [fetchTodos, reloadTodos, refreshCounter]);
+
+  // Merge changes made in other tabs and by other clients
+  useEffect(
+    () =>
+      storageService.onRemoteChange((change) => {
+        if (change.entity !== "todos") return;
+
+        if (change.kind === "replace") {
+          reloadTodos();
+        } else {
+          setTodos((prev) => applyRemoteChange(prev, change));
+        }
+      }),
+    [reloadTodos]
+  );
 
   // Add a new todo
   const addTodo = useCallback(
@@ -92,7 +124,7 @@ export function useTodos() {
     async (updatedTodo: Todo) => {
       try {
         clearError();
-        const result = await todoService.updateTodo(updatedTodo.id, updatedTodo);
+        const result = await retryOnConflict(() => todoService.updateTodo(updatedTodo.id, updatedTodo));
 
         setTodos((prev) => prev.map((todo) => (todo.id === result.id ? result : todo)));
 
@@ -103,7 +135,7 @@ export function useTodos() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Delete a todo
@@ -111,15 +143,17 @@ export function useTodos() {
     async (id: string) => {
       try {
         clearError();
-        await todoService.deleteTodo(id);
-        setTodos((prev) => prev.filter((todo) => todo.id !== id));
+        const changes = await retryOnConflict(() => todoService.deleteTodo(id));
+        const deleted = new Set(changes.filter((change) => change.entity === "todos").map((change) => change.id));
+        setTodos((prev) => prev.filter((todo) => !deleted.has(todo.id)));
+        return changes;
       } catch (err) {
         setError("Failed to delete todo");
         console.error(err);
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Update todo status
@@ -127,7 +161,7 @@ export function useTodos() {
     async (id: string, status: "pending" | "in-progress" | "completed") => {
       try {
         clearError();
-        const updatedTodo = await todoService.updateTodoStatus(id, status);
+        const updatedTodo = await retryOnConflict(() => todoService.updateTodoStatus(id, status));
 
         setTodos((prev) => prev.map((todo) => (todo.id === id ? updatedTodo : todo)));
 
@@ -138,7 +172,7 @@ export function useTodos() {
         throw err;
       }
     },
-    [clearError, setError]
+    [clearError, setError, retryOnConflict]
   );
 
   // Get todos by project
@@ -168,6 +202,7 @@ export function useTodos() {
     deleteTodo,
     updateTodoStatus,
     refreshTodos,
+    reloadTodos,
     getTodosByProject,
   };
 }
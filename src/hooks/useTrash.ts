@@ -0,0 +1,96 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { storageService } from "@/services/storage";
+import { relationService } from "@/services/relations";
+import { TRASH_ENTITY, TrashItem, trashService } from "@/services/trash";
+import { useErrorHandler } from "./useErrorHandler";
+
+/**
+ * List deleted records and restore them or delete them for good
+ */
+export function useTrash(onRestored?: (item: TrashItem) => void) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { error, setError, clearError } = useErrorHandler();
+
+  const reloadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      clearError();
+      setItems(await trashService.getItems());
+    } catch (err) {
+      setError("Failed to load trash");
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [clearError, setError]);
+
+  useEffect(() => {
+    reloadTrash();
+  }, [reloadTrash]);
+
+  // Follow deletes and restores made in other tabs
+  useEffect(
+    () =>
+      storageService.onRemoteChange((change) => {
+        if (change.entity === TRASH_ENTITY) {
+          trashService.getItems().then(setItems);
+        }
+      }),
+    []
+  );
+
+  const restoreItem = useCallback(
+    async (itemId: string) => {
+      try {
+        clearError();
+        const item = await relationService.restoreRecord(itemId);
+        setItems((prev) => prev.filter((candidate) => candidate.id !== itemId));
+        onRestored?.(item);
+      } catch (err) {
+        setError("Failed to restore item");
+        console.error(err);
+        throw err;
+      }
+    },
+    [onRestored, clearError, setError]
+  );
+
+  const deleteItems = useCallback(
+    async (itemIds: string[]) => {
+      try {
+        clearError();
+        await trashService.deletePermanently(itemIds);
+        setItems((prev) => prev.filter((item) => !itemIds.includes(item.id)));
+      } catch (err) {
+        setError("Failed to delete items");
+        console.error(err);
+        throw err;
+      }
+    },
+    [clearError, setError]
+  );
+
+  const emptyTrash = useCallback(async () => {
+    try {
+      clearError();
+      await trashService.emptyTrash();
+      setItems([]);
+    } catch (err) {
+      setError("Failed to empty trash");
+      console.error(err);
+      throw err;
+    }
+  }, [clearError, setError]);
+
+  return {
+    items,
+    loading,
+    error,
+    reloadTrash,
+    restoreItem,
+    deleteItems,
+    emptyTrash,
+  };
+}
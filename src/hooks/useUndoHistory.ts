@@ -0,0 +1,126 @@
+"use client";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { toast } from "@/components/ui/Toast";
+import { HistoryChange, HistoryEntry, HistoryState, historyService } from "@/services/history";
+import { DeleteBlockedError } from "@/services/relations";
+import { RecordEntityType } from "@/services/storage";
+
+/**
+ * Check whether a key press is meant for a text field's own undo
+ */
+function isEditingText(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/**
+ * Undo/redo stack for record changes, persisted across reloads. `onApplied` is called with the
+ * entities an undo or redo touched so their state can be reloaded.
+ */
+export function useUndoHistory(onApplied: (entities: RecordEntityType[]) => void) {
+  // Start empty so the first render matches the server's; the stored history loads after mount
+  const [history, setHistory] = useState<HistoryState>({ past: [], future: [] });
+  const [applying, setApplying] = useState(false);
+  const applyingRef = useRef(false);
+
+  useEffect(() => {
+    setHistory(historyService.getState());
+    return historyService.onChange(setHistory);
+  }, []);
+
+  const run = useCallback(
+    async (action: "undo" | "redo") => {
+      if (applyingRef.current) {
+        return null;
+      }
+
+      applyingRef.current = true;
+      setApplying(true);
+      let entry: HistoryEntry | null = null;
+
+      try {
+        entry = action === "undo" ? await historyService.undo() : await historyService.redo();
+      } catch (err) {
+        console.error(`Failed to ${action}:`, err);
+        toast.error({
+          title: `Could not ${action}`,
+          description:
+            err instanceof DeleteBlockedError ? err.message : "The data changed since. Reload and try again.",
+        });
+      } finally {
+        applyingRef.current = false;
+        setApplying(false);
+      }
+
+      if (entry) {
+        toast.toast({ title: `${action === "undo" ? "Undone" : "Redone"}: ${entry.label}` });
+        onApplied(Array.from(new Set(entry.changes.map((change) => change.entity))));
+      }
+
+      return entry;
+    },
+    [onApplied]
+  );
+
+  const undo = useCallback(() => run("undo"), [run]);
+  const redo = useCallback(() => run("redo"), [run]);
+
+  // Push a command. Destructive ones get a toast with an Undo button.
+  const recordChange = useCallback(
+    (label: string, changes: HistoryChange[], destructive = false) => {
+      const entry = historyService.record(label, changes);
+
+      if (entry && destructive) {
+        toast.toast({
+          title: label,
+          action: {
+            label: "Undo",
+            onClick: () => {
+              // Only undo if this is still the latest command
+              const { past } = historyService.getState();
+              if (past[past.length - 1]?.id === entry.id) {
+                undo();
+              }
+            },
+          },
+        });
+      }
+    },
+    [undo]
+  );
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields to their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z" || isEditingText(e.target)) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const lastDone = history.past[history.past.length - 1];
+  const lastUndone = history.future[history.future.length - 1];
+
+  return {
+    canUndo: !!lastDone && !applying,
+    canRedo: !!lastUndone && !applying,
+    undoLabel: lastDone?.label ?? null,
+    redoLabel: lastUndone?.label ?? null,
+    undo,
+    redo,
+    recordChange,
+  };
+}
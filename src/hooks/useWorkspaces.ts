@@ -0,0 +1,124 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { DEFAULT_WORKSPACE_ID, Workspace } from "@/lib/workspaces";
+import { workspaceService } from "@/services/workspace";
+import { useErrorHandler } from "./useErrorHandler";
+
+/**
+ * List workspaces and create, rename, duplicate, delete and switch between them
+ */
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { error, setError, clearError } = useErrorHandler();
+  const activeWorkspaceId = workspaceService.getActiveWorkspaceId();
+
+  const reloadWorkspaces = useCallback(async () => {
+    try {
+      setLoading(true);
+      clearError();
+      const loaded = await workspaceService.getWorkspaces();
+      setWorkspaces(loaded);
+
+      // The workspace this tab was in has been deleted elsewhere
+      if (!loaded.some((workspace) => workspace.id === workspaceService.getActiveWorkspaceId())) {
+        workspaceService.switchWorkspace(DEFAULT_WORKSPACE_ID);
+      }
+    } catch (err) {
+      setError("Failed to load workspaces");
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  }, [clearError, setError]);
+
+  useEffect(() => {
+    reloadWorkspaces();
+  }, [reloadWorkspaces]);
+
+  const switchWorkspace = useCallback((workspaceId: string) => {
+    if (workspaceId !== workspaceService.getActiveWorkspaceId()) {
+      workspaceService.switchWorkspace(workspaceId);
+    }
+  }, []);
+
+  const createWorkspace = useCallback(
+    async (name: string) => {
+      try {
+        clearError();
+        const workspace = await workspaceService.createWorkspace(name);
+        setWorkspaces((prev) => [...prev, workspace]);
+        return workspace;
+      } catch (err) {
+        setError("Failed to create workspace");
+        console.error(err);
+        throw err;
+      }
+    },
+    [clearError, setError]
+  );
+
+  const duplicateWorkspace = useCallback(
+    async (workspaceId: string, name: string) => {
+      try {
+        clearError();
+        const workspace = await workspaceService.duplicateWorkspace(workspaceId, name);
+        setWorkspaces((prev) => [...prev, workspace]);
+        return workspace;
+      } catch (err) {
+        setError("Failed to duplicate workspace");
+        console.error(err);
+        throw err;
+      }
+    },
+    [clearError, setError]
+  );
+
+  const renameWorkspace = useCallback(
+    async (workspaceId: string, name: string) => {
+      try {
+        clearError();
+        const workspace = await workspaceService.renameWorkspace(workspaceId, name);
+        setWorkspaces((prev) => prev.map((candidate) => (candidate.id === workspaceId ? workspace : candidate)));
+        return workspace;
+      } catch (err) {
+        setError("Failed to rename workspace");
+        console.error(err);
+        throw err;
+      }
+    },
+    [clearError, setError]
+  );
+
+  const deleteWorkspace = useCallback(
+    async (workspaceId: string) => {
+      try {
+        clearError();
+        await workspaceService.deleteWorkspace(workspaceId);
+        setWorkspaces((prev) => prev.filter((workspace) => workspace.id !== workspaceId));
+
+        if (workspaceId === workspaceService.getActiveWorkspaceId()) {
+          workspaceService.switchWorkspace(DEFAULT_WORKSPACE_ID);
+        }
+      } catch (err) {
+        setError("Failed to delete workspace");
+        console.error(err);
+        throw err;
+      }
+    },
+    [clearError, setError]
+  );
+
+  return {
+    workspaces,
+    activeWorkspace: workspaces.find((workspace) => workspace.id === activeWorkspaceId) || null,
+    loading,
+    error,
+    reloadWorkspaces,
+    switchWorkspace,
+    createWorkspace,
+    duplicateWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+  };
+}
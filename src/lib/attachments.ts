@@ -0,0 +1,44 @@
+// Route that stores uploads and serves them back by content hash
+export const ATTACHMENTS_PATH = "/api/attachments";
+
+// Largest upload the attachment route accepts
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+// Attachments are named by the SHA-256 of their bytes
+export const ATTACHMENT_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * A stored upload. Identical bytes are stored once, so two uploads of the same file share one attachment.
+ */
+export interface Attachment {
+  hash: string;
+  url: string;
+  thumbnailUrl?: string;
+  type: string;
+  size: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Get the URL an attachment is served from
+ */
+export function getAttachmentUrl(hash: string): string {
+  return `${ATTACHMENTS_PATH}/${hash}`;
+}
+
+/**
+ * Get the URL of an image attachment's thumbnail
+ */
+export function getThumbnailUrl(hash: string): string {
+  return `${ATTACHMENTS_PATH}/${hash}/thumbnail`;
+}
+
+/**
+ * Find the hashes of every attachment referenced anywhere in a value, such as a note with its content and images
+ */
+export function findAttachmentHashes(value: unknown): Set<string> {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? null);
+  const pattern = new RegExp(`${ATTACHMENTS_PATH}/([a-f0-9]{64})`, "g");
+  return new Set(Array.from(text.matchAll(pattern), (match) => match[1]));
+}
@@ -0,0 +1,105 @@
+/**
+ * Minimal RFC 4180 CSV handling: quoted fields, doubled quotes, embedded newlines and a leading BOM
+ */
+
+export type CsvDelimiter = "," | "\t" | ";";
+
+/**
+ * Guess the delimiter from the first line, preferring tabs, then semicolons, then commas
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] || "";
+  const count = (delimiter: string) => firstLine.split(delimiter).length - 1;
+
+  if (count("\t") > 0 && count("\t") >= count(",")) return "\t";
+  if (count(";") > count(",")) return ";";
+  return ",";
+}
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text with a header row into one object per row, keyed by header
+ */
+export function parseCsvObjects(text: string): { headers: string[]; rows: Record<string, string>[] } {
+  const [headerRow = [], ...dataRows] = parseCsv(text);
+  const headers = headerRow.map((header) => header.trim());
+
+  return {
+    headers,
+    rows: dataRows.map((values) => Object.fromEntries(headers.map((header, index) => [header, values[index] ?? ""]))),
+  };
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a field if it holds the delimiter, a quote or a line break. Text that would be read as a formula is
+ * prefixed with an apostrophe, so a spreadsheet app shows it instead of running it.
+ */
+function formatCsvField(value: CsvValue, delimiter: CsvDelimiter): string {
+  const raw = value === null || value === undefined ? "" : String(value);
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${raw}` : raw;
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows of fields as CSV text with CRLF line endings, which spreadsheet apps expect
+ */
+export function toCsv(rows: CsvValue[][], delimiter: CsvDelimiter = ","): string {
+  return rows.map((row) => row.map((value) => formatCsvField(value, delimiter)).join(delimiter)).join("\r\n");
+}
@@ -0,0 +1,109 @@
+import { finalizePlan, toIsoDate, toTags, toTodoPriority, toTodoStatus } from "./normalize";
+import type { ImportedProject, ImportedTodo, ImportPlan } from "./types";
+
+export const CSV_IMPORT_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "tags",
+  "project",
+  "milestone",
+] as const;
+
+export type CsvImportField = (typeof CSV_IMPORT_FIELDS)[number];
+
+/**
+ * Which CSV column holds each todo field. Unmapped fields are left empty.
+ */
+export type CsvColumnMapping = Partial<Record<CsvImportField, string>>;
+
+// Header names commonly used for each field, lowercased
+const HEADER_ALIASES: Record<CsvImportField, string[]> = {
+  title: ["title", "name", "task", "summary", "content", "subject"],
+  description: ["description", "notes", "note", "details", "body"],
+  status: ["status", "state", "done", "completed"],
+  priority: ["priority", "importance"],
+  dueDate: ["due date", "duedate", "due", "deadline", "date"],
+  tags: ["tags", "labels", "label", "categories", "category"],
+  project: ["project", "list", "board"],
+  milestone: ["milestone", "section", "phase", "stage"],
+};
+
+/**
+ * Guess a column mapping from the header row
+ */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+
+  CSV_IMPORT_FIELDS.forEach((field) => {
+    const header = headers.find((candidate) => HEADER_ALIASES[field].includes(candidate.trim().toLowerCase()));
+    if (header && !Object.values(mapping).includes(header)) {
+      mapping[field] = header;
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Turn CSV rows into an import plan using the given column mapping. Each distinct project name becomes a project
+ * and each distinct milestone name within it becomes a milestone.
+ */
+export function planCsvImport(rows: Record<string, string>[], mapping: CsvColumnMapping): ImportPlan {
+  if (!mapping.title) {
+    throw new Error("Choose which column holds the task title");
+  }
+
+  const value = (row: Record<string, string>, field: CsvImportField) =>
+    mapping[field] ? (row[mapping[field]!] ?? "").trim() : "";
+
+  const projects = new Map<string, ImportedProject>();
+  const todos: ImportedTodo[] = [];
+  let unreadableDates = 0;
+
+  rows.forEach((row) => {
+    const projectName = value(row, "project");
+    const milestoneName = value(row, "milestone");
+    let projectKey: string | undefined;
+    let milestoneKey: string | undefined;
+
+    if (projectName) {
+      projectKey = projectName.toLowerCase();
+      if (!projects.has(projectKey)) {
+        projects.set(projectKey, { key: projectKey, name: projectName, milestones: [] });
+      }
+
+      if (milestoneName) {
+        const project = projects.get(projectKey)!;
+        milestoneKey = milestoneName.toLowerCase();
+        if (!project.milestones.some((milestone) => milestone.key === milestoneKey)) {
+          project.milestones.push({ key: milestoneKey, title: milestoneName });
+        }
+      }
+    }
+
+    const dueText = value(row, "dueDate");
+    const dueDate = toIsoDate(dueText);
+    if (dueText && !dueDate) {
+      unreadableDates++;
+    }
+
+    todos.push({
+      title: value(row, "title"),
+      description: value(row, "description") || undefined,
+      status: toTodoStatus(value(row, "status")),
+      priority: toTodoPriority(value(row, "priority")),
+      dueDate,
+      tags: toTags(value(row, "tags")),
+      projectKey,
+      milestoneKey,
+    });
+  });
+
+  const warnings =
+    unreadableDates > 0 ? [`${unreadableDates} due date(s) could not be read and will be left empty`] : [];
+
+  return finalizePlan({ source: "CSV", projects: Array.from(projects.values()), todos, warnings });
+}
@@ -0,0 +1,467 @@
+import type { Todo } from "@/types";
+import { MAX_DESCRIPTION_LENGTH, MAX_TITLE_LENGTH, truncate } from "./normalize";
+
+/**
+ * iCalendar (RFC 5545) reader for importing events and tasks, with recurring events expanded over a date window
+ */
+
+export interface CalendarItem {
+  // The event UID, plus the original start of the occurrence for recurring events. Used to skip re-imports.
+  uid: string;
+  kind: "event" | "todo";
+  title: string;
+  description?: string;
+  // ISO timestamp; all-day dates are midnight UTC, the way the app stores picked dates
+  date?: string;
+  allDay: boolean;
+  status: Todo["status"];
+  priority: Todo["priority"];
+  tags?: string[];
+  recurring: boolean;
+}
+
+export interface CalendarParseResult {
+  items: CalendarItem[];
+  warnings: string[];
+}
+
+export interface CalendarWindow {
+  from: Date;
+  to: Date;
+}
+
+interface Property {
+  value: string;
+  params: Record<string, string>;
+}
+
+type Component = { type: string; properties: Map<string, Property[]> };
+
+// Wall-clock date and time, before any time zone is applied
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface CalendarDate {
+  local: LocalDateTime;
+  allDay: boolean;
+  toInstant: (local: LocalDateTime) => number;
+}
+
+// Stop expanding runaway rules such as FREQ=DAILY without an end
+const MAX_OCCURRENCES = 1000;
+const MAX_PERIODS = 20000;
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * Split calendar text into components, unfolding continuation lines
+ */
+function parseComponents(text: string): Component[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const components: Component[] = [];
+  let current: Component | null = null;
+  let depth = 0;
+
+  lines.forEach((line) => {
+    const colon = findValueSeparator(line);
+    if (colon < 0) return;
+
+    const [name, ...rawParams] = line.slice(0, colon).split(";");
+    const value = line.slice(colon + 1);
+    const upperName = name.toUpperCase();
+
+    if (upperName === "BEGIN") {
+      if (current) {
+        // Nested components such as VALARM belong to the current item and are ignored
+        depth++;
+      } else if (value === "VEVENT" || value === "VTODO") {
+        current = { type: value, properties: new Map() };
+      }
+      return;
+    }
+    if (upperName === "END") {
+      if (depth > 0) depth--;
+      else if (current && value === current.type) {
+        components.push(current);
+        current = null;
+      }
+      return;
+    }
+    if (!current || depth > 0) return;
+
+    const params: Record<string, string> = {};
+    rawParams.forEach((param) => {
+      const [key, ...rest] = param.split("=");
+      params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+    });
+    current.properties.set(upperName, [...(current.properties.get(upperName) || []), { value, params }]);
+  });
+
+  return components;
+}
+
+/**
+ * Find the colon between a property's name and value, skipping colons in quoted parameters
+ */
+function findValueSeparator(line: string): number {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) return i;
+  }
+  return -1;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function getText(component: Component, name: string): string | undefined {
+  const property = component.properties.get(name)?.[0];
+  return property ? unescapeText(property.value).trim() || undefined : undefined;
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((item) => item.type === type)?.value);
+  return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second")) - instant;
+}
+
+function utcInstant(local: LocalDateTime): number {
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+/**
+ * Read a DATE or DATE-TIME property. Times with a TZID are converted with the browser's time zone data;
+ * zones it does not know, and floating times, are read as local time.
+ */
+function parseDate(property: Property | undefined): CalendarDate | null {
+  const match = property && /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const local: LocalDateTime = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] || 0),
+    minute: Number(match[5] || 0),
+    second: Number(match[6] || 0),
+  };
+
+  if (!match[4]) {
+    return { local, allDay: true, toInstant: utcInstant };
+  }
+  if (match[7]) {
+    return { local, allDay: false, toInstant: utcInstant };
+  }
+
+  const timeZone = property!.params.TZID;
+  if (timeZone) {
+    try {
+      getZoneOffset(Date.now(), timeZone);
+      const toInstant = (value: LocalDateTime) => {
+        const guess = utcInstant(value);
+        const instant = guess - getZoneOffset(guess, timeZone);
+        return guess - getZoneOffset(instant, timeZone);
+      };
+      return { local, allDay: false, toInstant };
+    } catch {
+      // Unknown zone name, fall through to local time
+    }
+  }
+
+  const toLocal = (value: LocalDateTime) =>
+    new Date(value.year, value.month - 1, value.day, value.hour, value.minute, value.second).getTime();
+  return { local, allDay: false, toInstant: toLocal };
+}
+
+function toPriority(value: string | undefined): Todo["priority"] {
+  const priority = parseInt(value || "0", 10);
+  if (priority >= 1 && priority <= 4) return "high";
+  if (priority >= 6) return "low";
+  return "medium";
+}
+
+/**
+ * Add days to a wall-clock date, keeping the time of day
+ */
+function addDays(local: LocalDateTime, days: number): LocalDateTime {
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { ...local, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekday(local: LocalDateTime): number {
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+interface ByDay {
+  ordinal: number; // 0 means every such weekday in the period
+  day: number;
+}
+
+/**
+ * Days of a month matching BYMONTHDAY or BYDAY, or the start's day of the month if neither is given
+ */
+function monthDays(year: number, month: number, start: LocalDateTime, byMonthDay: number[], byDay: ByDay[]): number[] {
+  const length = daysInMonth(year, month);
+
+  if (byMonthDay.length > 0) {
+    return byMonthDay.map((day) => (day < 0 ? length + day + 1 : day)).filter((day) => day >= 1 && day <= length);
+  }
+
+  if (byDay.length > 0) {
+    const days: number[] = [];
+    byDay.forEach(({ ordinal, day }) => {
+      const first = weekday({ ...start, year, month, day: 1 });
+      const matches: number[] = [];
+      for (let date = 1 + ((day - first + 7) % 7); date <= length; date += 7) matches.push(date);
+      if (ordinal === 0) days.push(...matches);
+      else {
+        const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (match) days.push(match);
+      }
+    });
+    return days;
+  }
+
+  return start.day <= length ? [start.day] : [];
+}
+
+/**
+ * Expand a recurrence rule into the wall-clock starts of its occurrences, up to the end of the window. Earlier
+ * occurrences the caller does not want still count towards COUNT but not towards MAX_OCCURRENCES, so a
+ * long-running series is not cut off before the window starts.
+ * Supports DAILY, WEEKLY, MONTHLY and YEARLY rules with INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH.
+ */
+function expandRule(
+  rule: string,
+  start: CalendarDate,
+  windowEnd: number,
+  isWanted: (instant: number) => boolean
+): LocalDateTime[] {
+  const parts = Object.fromEntries(
+    rule.split(";").map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()];
+    })
+  );
+
+  const interval = Math.max(parseInt(parts.INTERVAL || "1", 10) || 1, 1);
+  const count = parts.COUNT ? parseInt(parts.COUNT, 10) : Infinity;
+  const until = parts.UNTIL ? parseDate({ value: parts.UNTIL, params: {} }) : null;
+  const untilInstant = until ? until.toInstant(until.local) + (until.allDay ? 86399999 : 0) : Infinity;
+  const byDay: ByDay[] = (parts.BYDAY ? parts.BYDAY.split(",") : [])
+    .map((value: string) => /^([+-]?\d+)?([A-Z]{2})$/.exec(value))
+    .filter((match: RegExpExecArray | null): match is RegExpExecArray => !!match && WEEKDAYS.includes(match[2]))
+    .map((match: RegExpExecArray) => ({ ordinal: parseInt(match[1] || "0", 10), day: WEEKDAYS.indexOf(match[2]) }));
+  const byMonthDay = (parts.BYMONTHDAY ? parts.BYMONTHDAY.split(",") : []).map(Number).filter(Boolean);
+  const byMonth = (parts.BYMONTH ? parts.BYMONTH.split(",") : []).map(Number).filter(Boolean);
+
+  const startLocal = start.local;
+  const startKey = utcInstant(startLocal);
+  const occurrences: LocalDateTime[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let candidates: LocalDateTime[] = [];
+
+    switch (parts.FREQ) {
+      case "DAILY":
+        candidates = [addDays(startLocal, period * interval)];
+        break;
+      case "WEEKLY": {
+        const weekStart = addDays(startLocal, -((weekday(startLocal) + 6) % 7) + period * interval * 7);
+        const days = byDay.length > 0 ? byDay.map((entry) => entry.day) : [weekday(startLocal)];
+        candidates = days.map((day) => addDays(weekStart, (day + 6) % 7));
+        break;
+      }
+      case "MONTHLY": {
+        const monthIndex = startLocal.month - 1 + period * interval;
+        const year = startLocal.year + Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        candidates = monthDays(year, month, startLocal, byMonthDay, byDay).map((day) => ({
+          ...startLocal,
+          year,
+          month,
+          day,
+        }));
+        break;
+      }
+      case "YEARLY": {
+        const year = startLocal.year + period * interval;
+        const months = byMonth.length > 0 ? byMonth : [startLocal.month];
+        candidates = months.flatMap((month) =>
+          monthDays(year, month, startLocal, byMonthDay, byDay).map((day) => ({ ...startLocal, year, month, day }))
+        );
+        break;
+      }
+      default:
+        return [startLocal];
+    }
+
+    candidates = candidates
+      .filter((candidate) => parts.FREQ === "YEARLY" || byMonth.length === 0 || byMonth.includes(candidate.month))
+      .filter(
+        (candidate) => parts.FREQ !== "DAILY" || byDay.length === 0 || byDay.some((d) => d.day === weekday(candidate))
+      )
+      .filter((candidate) => utcInstant(candidate) >= startKey)
+      .sort((a, b) => utcInstant(a) - utcInstant(b));
+
+    for (const candidate of candidates) {
+      const instant = start.toInstant(candidate);
+      if (emitted >= count || instant > untilInstant || instant > windowEnd || occurrences.length >= MAX_OCCURRENCES) {
+        return occurrences;
+      }
+      emitted++;
+      if (isWanted(instant)) {
+        occurrences.push(candidate);
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+function formatLocal(local: LocalDateTime): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${local.year}${pad(local.month)}${pad(local.day)}T${pad(local.hour)}${pad(local.minute)}${pad(local.second)}`;
+}
+
+/**
+ * Read the events and tasks in an .ics file. Recurring events are expanded to their occurrences inside the
+ * window, with RECURRENCE-ID overrides and EXDATE exclusions applied; single items are kept whatever their date.
+ */
+export function parseCalendar(text: string, window: CalendarWindow): CalendarParseResult {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error("This does not look like an iCalendar (.ics) file");
+  }
+
+  const components = parseComponents(text);
+  const warnings: string[] = [];
+  const items: CalendarItem[] = [];
+  let cancelled = 0;
+  let truncated = 0;
+
+  // Moved or edited occurrences of recurring events, by UID and the occurrence's original start
+  const overrides = new Map<string, Map<number, Component>>();
+  components.forEach((component) => {
+    const uid = getText(component, "UID");
+    const recurrenceId = parseDate(component.properties.get("RECURRENCE-ID")?.[0]);
+    if (uid && recurrenceId) {
+      const byStart = overrides.get(uid) || new Map<number, Component>();
+      byStart.set(recurrenceId.toInstant(recurrenceId.local), component);
+      overrides.set(uid, byStart);
+    }
+  });
+
+  const toItem = (component: Component, uid: string, date: CalendarDate | null, recurring: boolean): CalendarItem => {
+    const isTodo = component.type === "VTODO";
+    const description = getText(component, "DESCRIPTION");
+    const status = (getText(component, "STATUS") || "").toUpperCase();
+    const categories = (component.properties.get("CATEGORIES") || [])
+      .flatMap((property) => property.value.replace(/\\,/g, "\u0000").split(","))
+      .map((tag) => unescapeText(tag.replace(/\u0000/g, "\\,")).trim())
+      .filter(Boolean);
+
+    return {
+      uid,
+      kind: isTodo ? "todo" : "event",
+      title: truncate(getText(component, "SUMMARY") || "Untitled", MAX_TITLE_LENGTH),
+      description: description && truncate(description, MAX_DESCRIPTION_LENGTH),
+      date: date ? new Date(date.toInstant(date.local)).toISOString() : undefined,
+      allDay: date?.allDay ?? false,
+      status:
+        isTodo && (status === "COMPLETED" || component.properties.has("COMPLETED"))
+          ? "completed"
+          : isTodo && status === "IN-PROCESS"
+            ? "in-progress"
+            : "pending",
+      priority: toPriority(getText(component, "PRIORITY")),
+      tags: categories.length > 0 ? categories : undefined,
+      recurring,
+    };
+  };
+
+  components.forEach((component) => {
+    if (component.properties.has("RECURRENCE-ID")) return;
+    if ((getText(component, "STATUS") || "").toUpperCase() === "CANCELLED") {
+      cancelled++;
+      return;
+    }
+
+    const start = parseDate(component.properties.get("DTSTART")?.[0]);
+    const due = parseDate(component.properties.get("DUE")?.[0]);
+    const uid =
+      getText(component, "UID") || `${getText(component, "SUMMARY") || ""}|${start ? formatLocal(start.local) : ""}`;
+    const rule = component.properties.get("RRULE")?.[0]?.value;
+
+    if (!rule || !start) {
+      items.push(toItem(component, uid, component.type === "VTODO" ? due || start : start, false));
+      return;
+    }
+
+    const excluded = new Set(
+      (component.properties.get("EXDATE") || []).flatMap((property) =>
+        property.value.split(",").map((value) => {
+          const date = parseDate({ value, params: property.params });
+          return date ? date.toInstant(date.local) : NaN;
+        })
+      )
+    );
+
+    const windowStart = window.from.getTime();
+    const windowEnd = window.to.getTime();
+    // Occurrences before the window are only wanted when an override moves them into it
+    const occurrences = expandRule(
+      rule,
+      start,
+      windowEnd,
+      (instant) => instant >= windowStart || !!overrides.get(uid)?.has(instant)
+    );
+    if (occurrences.length >= MAX_OCCURRENCES) truncated++;
+
+    occurrences.forEach((local) => {
+      const original = start.toInstant(local);
+      if (excluded.has(original)) return;
+
+      const override = overrides.get(uid)?.get(original);
+      if (override && (getText(override, "STATUS") || "").toUpperCase() === "CANCELLED") return;
+
+      const date = override
+        ? parseDate(override.properties.get("DTSTART")?.[0]) || { ...start, local }
+        : { ...start, local };
+      const instant = date.toInstant(date.local);
+      if (instant < windowStart || instant > windowEnd) return;
+
+      items.push(toItem(override || component, `${uid}/${formatLocal(local)}`, date, true));
+    });
+  });
+
+  if (cancelled > 0) warnings.push(`${cancelled} cancelled item(s) will be skipped`);
+  if (truncated > 0) warnings.push(`${truncated} recurring event(s) were cut off after ${MAX_OCCURRENCES} occurrences`);
+
+  items.sort((a, b) => (a.date || "").localeCompare(b.date || ""));
+  return { items, warnings };
+}
@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./normalize";
+export * from "./todoist";
+export * from "./trello";
+export * from "./genericCsv";
+export * from "./ical";
@@ -0,0 +1,116 @@
+import type { Todo } from "@/types";
+import type { ImportedTodo, ImportPlan } from "./types";
+
+// Longest values the todo and project validators accept
+export const MAX_TITLE_LENGTH = 100;
+export const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Map a status word from another tool onto a todo status
+ */
+export function toTodoStatus(value: unknown): Todo["status"] {
+  const status = String(value ?? "")
+    .trim()
+    .toLowerCase();
+
+  if (["done", "completed", "complete", "closed", "finished", "true", "yes", "x", "1"].includes(status)) {
+    return "completed";
+  }
+  if (["in progress", "in-progress", "doing", "started", "active", "wip"].includes(status)) {
+    return "in-progress";
+  }
+  return "pending";
+}
+
+/**
+ * Map a priority word or number from another tool onto a todo priority. Numbers follow
+ * the p1 (highest) to p4 (lowest) convention.
+ */
+export function toTodoPriority(value: unknown): Todo["priority"] {
+  const priority = String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/^p/, "");
+
+  if (["high", "urgent", "highest", "critical", "1"].includes(priority)) return "high";
+  if (["low", "lowest", "3", "4"].includes(priority)) return "low";
+  return "medium";
+}
+
+/**
+ * Convert a date from another tool to an ISO string, or undefined if it cannot be read
+ */
+export function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+
+  const time = Date.parse(value.trim());
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Split a list of tags written as "a, b; c"
+ */
+export function toTags(value: unknown): string[] | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+
+  const tags = value
+    .split(/[,;]/)
+    .map((tag) => tag.trim().replace(/^[@#]/, ""))
+    .filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Shorten text to fit a length limit
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Fit titles and descriptions within the validators' limits and drop tasks without a title, noting each in the warnings
+ */
+export function finalizePlan(plan: ImportPlan): ImportPlan {
+  const warnings = [...plan.warnings];
+  let untitled = 0;
+  let shortened = 0;
+
+  const todos: ImportedTodo[] = [];
+  plan.todos.forEach((todo) => {
+    const title = todo.title.trim();
+    if (!title) {
+      untitled++;
+      return;
+    }
+
+    const description = todo.description?.trim();
+    if (title.length > MAX_TITLE_LENGTH || (description && description.length > MAX_DESCRIPTION_LENGTH)) {
+      shortened++;
+    }
+
+    todos.push({
+      ...todo,
+      title: truncate(title, MAX_TITLE_LENGTH),
+      description: description ? truncate(description, MAX_DESCRIPTION_LENGTH) : undefined,
+      subtasks: todo.subtasks?.filter((subtask) => subtask.title.trim() !== ""),
+    });
+  });
+
+  if (untitled > 0) warnings.push(`${untitled} task(s) without a title will be skipped`);
+  if (shortened > 0) warnings.push(`${shortened} task(s) have a title or description that will be shortened`);
+
+  return {
+    ...plan,
+    projects: plan.projects.map((project) => ({
+      ...project,
+      name: truncate(project.name.trim() || "Imported project", MAX_TITLE_LENGTH),
+      description: project.description ? truncate(project.description, MAX_DESCRIPTION_LENGTH) : undefined,
+    })),
+    todos,
+    warnings,
+  };
+}
@@ -0,0 +1,177 @@
+import { parseCsvObjects } from "@/lib/csv";
+import { finalizePlan, toIsoDate, toTodoPriority } from "./normalize";
+import type { ImportedProject, ImportedTodo, ImportPlan } from "./types";
+
+interface TodoistTask {
+  id?: string | number;
+  content?: string;
+  description?: string;
+  priority?: number;
+  due?: { date?: string } | null;
+  labels?: string[];
+  parent_id?: string | number | null;
+  project_id?: string | number | null;
+  section_id?: string | number | null;
+  checked?: boolean | number;
+  is_completed?: boolean;
+}
+
+interface TodoistJsonExport {
+  projects?: Array<{ id: string | number; name?: string }>;
+  sections?: Array<{ id: string | number; name?: string; project_id?: string | number }>;
+  items?: TodoistTask[];
+  tasks?: TodoistTask[];
+}
+
+/**
+ * Pull "@label" words out of a Todoist task title
+ */
+function splitLabels(content: string): { title: string; labels: string[] } {
+  const labels: string[] = [];
+  const title = content
+    .replace(/(^|\s)@([\w-]+)/g, (_match, space: string, label: string) => {
+      labels.push(label);
+      return space;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return { title, labels };
+}
+
+/**
+ * Read a Todoist project template or backup CSV. Sections become milestones and indented tasks become subtasks
+ * of the task above them. Todoist writes PRIORITY 1 for its highest priority.
+ */
+export function parseTodoistCsv(text: string, projectName: string): ImportPlan {
+  const { headers, rows } = parseCsvObjects(text);
+  if (!headers.includes("TYPE") || !headers.includes("CONTENT")) {
+    throw new Error("This does not look like a Todoist CSV export (missing TYPE and CONTENT columns)");
+  }
+
+  const project: ImportedProject = { key: "todoist", name: projectName, milestones: [] };
+  const todos: ImportedTodo[] = [];
+  const warnings: string[] = [];
+  let milestoneKey: string | undefined;
+  let unreadableDates = 0;
+
+  rows.forEach((row) => {
+    const type = row.TYPE.trim().toLowerCase();
+    const content = row.CONTENT.trim();
+
+    if (type === "section") {
+      milestoneKey = `section-${project.milestones.length}`;
+      project.milestones.push({ key: milestoneKey, title: content || "Untitled section" });
+      return;
+    }
+    if (type !== "task") {
+      return;
+    }
+
+    const { title, labels } = splitLabels(content);
+    const parent = todos[todos.length - 1];
+    if (parseInt(row.INDENT, 10) > 1 && parent) {
+      parent.subtasks = [...(parent.subtasks || []), { title, completed: false }];
+      return;
+    }
+
+    const dueDate = toIsoDate(row.DATE);
+    if (row.DATE?.trim() && !dueDate) {
+      unreadableDates++;
+    }
+
+    todos.push({
+      title,
+      description: row.DESCRIPTION || undefined,
+      status: "pending",
+      priority: toTodoPriority(row.PRIORITY),
+      dueDate,
+      tags: labels.length > 0 ? labels : undefined,
+      projectKey: project.key,
+      milestoneKey,
+    });
+  });
+
+  if (unreadableDates > 0) {
+    warnings.push(`${unreadableDates} due date(s) such as "every monday" could not be read and will be left empty`);
+  }
+
+  return finalizePlan({ source: "Todoist", projects: [project], todos, warnings });
+}
+
+/**
+ * Read a Todoist JSON export, either a full backup with projects, sections and items or a plain list of tasks.
+ * The Todoist API counts priority up, so 4 is its most urgent.
+ */
+export function parseTodoistJson(data: unknown): ImportPlan {
+  const source: TodoistJsonExport = Array.isArray(data) ? { tasks: data } : ((data || {}) as TodoistJsonExport);
+  const tasks = source.items || source.tasks;
+  if (!Array.isArray(tasks)) {
+    throw new Error("This does not look like a Todoist JSON export (no items or tasks)");
+  }
+
+  const projects = new Map<string, ImportedProject>();
+  (source.projects || []).forEach((project) => {
+    projects.set(String(project.id), { key: String(project.id), name: project.name || "Todoist", milestones: [] });
+  });
+
+  const sectionProjects = new Map<string, string>();
+  (source.sections || []).forEach((section) => {
+    const project = projects.get(String(section.project_id));
+    if (project) {
+      project.milestones.push({ key: String(section.id), title: section.name || "Untitled section" });
+      sectionProjects.set(String(section.id), project.key);
+    }
+  });
+
+  const todosById = new Map<string, ImportedTodo>();
+  const subtasks: TodoistTask[] = [];
+
+  tasks.forEach((task) => {
+    if (task.parent_id) {
+      subtasks.push(task);
+      return;
+    }
+
+    const { title, labels } = splitLabels(task.content || "");
+    const projectKey =
+      task.project_id != null && projects.has(String(task.project_id)) ? String(task.project_id) : undefined;
+    const milestoneKey =
+      task.section_id != null && sectionProjects.get(String(task.section_id)) === projectKey
+        ? String(task.section_id)
+        : undefined;
+    const tags = [...labels, ...(task.labels || [])];
+
+    todosById.set(String(task.id ?? todosById.size), {
+      title,
+      description: task.description || undefined,
+      status: task.checked || task.is_completed ? "completed" : "pending",
+      priority: toTodoPriority(5 - (task.priority || 1)),
+      dueDate: toIsoDate(task.due?.date),
+      tags: tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+      projectKey,
+      milestoneKey,
+    });
+  });
+
+  let orphaned = 0;
+  subtasks.forEach((task) => {
+    const parent = todosById.get(String(task.parent_id));
+    if (!parent) {
+      orphaned++;
+      return;
+    }
+    parent.subtasks = [
+      ...(parent.subtasks || []),
+      { title: splitLabels(task.content || "").title, completed: !!(task.checked || task.is_completed) },
+    ];
+  });
+
+  const warnings = orphaned > 0 ? [`${orphaned} sub-task(s) whose parent task is missing will be skipped`] : [];
+
+  return finalizePlan({
+    source: "Todoist",
+    projects: Array.from(projects.values()),
+    todos: Array.from(todosById.values()),
+    warnings,
+  });
+}
@@ -0,0 +1,94 @@
+import { finalizePlan, toIsoDate, toTodoStatus } from "./normalize";
+import type { ImportedProject, ImportedTodo, ImportPlan } from "./types";
+
+interface TrelloBoard {
+  id?: string;
+  name?: string;
+  desc?: string;
+  closed?: boolean;
+  lists?: Array<{ id: string; name?: string; closed?: boolean }>;
+  cards?: Array<{
+    id: string;
+    name?: string;
+    desc?: string;
+    idList?: string;
+    due?: string | null;
+    dueComplete?: boolean;
+    closed?: boolean;
+    labels?: Array<{ name?: string; color?: string }>;
+  }>;
+  checklists?: Array<{
+    idCard?: string;
+    checkItems?: Array<{ name?: string; state?: string; pos?: number }>;
+  }>;
+}
+
+// List names that describe a status rather than a stage of work
+const STATUS_LIST_NAMES = ["to do", "todo", "backlog", "doing", "in progress", "done", "completed", "finished"];
+
+/**
+ * Read a Trello board JSON export. The board becomes a project, lists named like a status ("To Do", "Doing",
+ * "Done") set each card's status, and any other list becomes a milestone. Archived cards are skipped.
+ */
+export function parseTrelloBoard(data: unknown): ImportPlan {
+  const board = (data || {}) as TrelloBoard;
+  if (!Array.isArray(board.cards) || !Array.isArray(board.lists)) {
+    throw new Error("This does not look like a Trello board export (no lists or cards)");
+  }
+
+  const project: ImportedProject = {
+    key: board.id || "trello",
+    name: board.name || "Trello board",
+    description: board.desc || undefined,
+    status: board.closed ? "archived" : "active",
+    milestones: [],
+  };
+
+  const lists = new Map(board.lists.map((list) => [list.id, list]));
+  board.lists.forEach((list) => {
+    if (!list.closed && !STATUS_LIST_NAMES.includes((list.name || "").trim().toLowerCase())) {
+      project.milestones.push({ key: list.id, title: list.name || "Untitled list" });
+    }
+  });
+
+  const checklistItems = new Map<string, Array<{ title: string; completed: boolean }>>();
+  (board.checklists || []).forEach((checklist) => {
+    if (!checklist.idCard) return;
+    const items = [...(checklist.checkItems || [])]
+      .sort((a, b) => (a.pos || 0) - (b.pos || 0))
+      .map((item) => ({ title: item.name || "", completed: item.state === "complete" }));
+    checklistItems.set(checklist.idCard, [...(checklistItems.get(checklist.idCard) || []), ...items]);
+  });
+
+  const milestoneKeys = new Set(project.milestones.map((milestone) => milestone.key));
+  const todos: ImportedTodo[] = [];
+  let archived = 0;
+
+  board.cards.forEach((card) => {
+    const list = card.idList ? lists.get(card.idList) : undefined;
+    if (card.closed || list?.closed) {
+      archived++;
+      return;
+    }
+
+    const listName = (list?.name || "").trim().toLowerCase();
+    const tags = (card.labels || []).map((label) => label.name || label.color || "").filter(Boolean);
+    const subtasks = checklistItems.get(card.id);
+
+    todos.push({
+      title: card.name || "",
+      description: card.desc || undefined,
+      status: card.dueComplete ? "completed" : toTodoStatus(listName),
+      priority: "medium",
+      dueDate: toIsoDate(card.due),
+      tags: tags.length > 0 ? tags : undefined,
+      subtasks: subtasks && subtasks.length > 0 ? subtasks : undefined,
+      projectKey: project.key,
+      milestoneKey: card.idList && milestoneKeys.has(card.idList) ? card.idList : undefined,
+    });
+  });
+
+  const warnings = archived > 0 ? [`${archived} archived card(s) will be skipped`] : [];
+
+  return finalizePlan({ source: "Trello", projects: [project], todos, warnings });
+}
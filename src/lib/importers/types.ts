@@ -0,0 +1,46 @@
+import type { Todo } from "@/types";
+
+/**
+ * A task read from another tool, before it becomes a Todo
+ */
+export interface ImportedTodo {
+  title: string;
+  description?: string;
+  status: Todo["status"];
+  priority: Todo["priority"];
+  dueDate?: string;
+  tags?: string[];
+  subtasks?: Array<{ title: string; completed: boolean }>;
+  // Keys into ImportPlan.projects and that project's milestones
+  projectKey?: string;
+  milestoneKey?: string;
+}
+
+export interface ImportedMilestone {
+  key: string;
+  title: string;
+  dueDate?: string;
+  completed?: boolean;
+}
+
+/**
+ * A board, list or project read from another tool, before it becomes a Project
+ */
+export interface ImportedProject {
+  key: string;
+  name: string;
+  description?: string;
+  status?: "planning" | "active" | "completed" | "archived";
+  milestones: ImportedMilestone[];
+}
+
+/**
+ * Everything an importer found in a file, ready to be created
+ */
+export interface ImportPlan {
+  source: string;
+  projects: ImportedProject[];
+  todos: ImportedTodo[];
+  // Things that could not be carried over exactly, shown before importing
+  warnings: string[];
+}
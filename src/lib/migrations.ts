@@ -0,0 +1,117 @@
+/**
+ * Stored data schema versions and the migrations between them. Shared by the server's storage and the
+ * client-side localStorage fallback, so every copy of the data upgrades the same way.
+ */
+
+// Version of data written before versioning was introduced
+export const INITIAL_SCHEMA_VERSION = "1.0.0";
+
+export const CURRENT_SCHEMA_VERSION = "1.1.0";
+
+// Entities whose stored shape is covered by migrations
+export const MIGRATED_ENTITIES = ["todos", "projects", "notes", "settings"] as const;
+
+type StoredObject = Record<string, unknown>;
+
+export interface Migration {
+  version: string;
+  description: string;
+  migrate: (entity: string, data: unknown) => unknown;
+}
+
+/**
+ * Apply a function to every object in a record collection, leaving anything else untouched
+ */
+function mapRecords(data: unknown, migrateRecord: (record: StoredObject) => StoredObject): unknown {
+  if (!Array.isArray(data)) {
+    return data;
+  }
+
+  return data.map((record) => (record && typeof record === "object" ? migrateRecord(record as StoredObject) : record));
+}
+
+// Migrations in ascending version order. Each one must be safe to run on data that is already migrated.
+const migrations: Migration[] = [
+  {
+    version: "1.1.0",
+    description: "Fill in fields that newer code expects on todos, projects and notes",
+    migrate: (entity, data) => {
+      switch (entity) {
+        case "todos":
+          return mapRecords(data, (todo) => {
+            const migrated = { ...todo };
+            if (!migrated.status) {
+              migrated.status = todo.completed === true ? "completed" : "pending";
+            }
+            if (!migrated.priority) {
+              migrated.priority = "medium";
+            }
+            delete migrated.completed;
+            return migrated;
+          });
+        case "projects":
+          return mapRecords(data, (project) => {
+            const migrated = { ...project };
+            if (typeof migrated.progress !== "number") {
+              migrated.progress = 0;
+            }
+            if (!Array.isArray(migrated.todoIds)) {
+              migrated.todoIds = [];
+            }
+            if (!Array.isArray(migrated.milestones)) {
+              migrated.milestones = [];
+            }
+            return migrated;
+          });
+        case "notes":
+          return mapRecords(data, (note) => {
+            const migrated = { ...note };
+            if (!migrated.contentType) {
+              migrated.contentType = "markdown";
+            }
+            if (!migrated.lastEditedAt) {
+              migrated.lastEditedAt = note.updatedAt || note.createdAt;
+            }
+            return migrated;
+          });
+        default:
+          return data;
+      }
+    },
+  },
+];
+
+/**
+ * Compare two dotted version strings, returning a negative number if a is older than b
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(".").map((part) => parseInt(part, 10) || 0);
+  const partsB = b.split(".").map((part) => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Check whether data at the given version needs to be migrated
+ */
+export function needsMigration(version: string | null | undefined): boolean {
+  return compareVersions(version || INITIAL_SCHEMA_VERSION, CURRENT_SCHEMA_VERSION) < 0;
+}
+
+/**
+ * Upgrade one entity's stored data from the given version to the current one
+ */
+export function migrateEntityData<T>(entity: string, data: T, fromVersion: string | null | undefined): T {
+  const version = fromVersion || INITIAL_SCHEMA_VERSION;
+
+  return migrations
+    .filter((migration) => compareVersions(migration.version, version) > 0)
+    .reduce((migrated, migration) => migration.migrate(entity, migrated), data as unknown) as T;
+}
@@ -0,0 +1,455 @@
+import { Note, NoteImage } from "@/types";
+import { findAttachmentHashes, getAttachmentUrl } from "./attachments";
+import { createZip, ZipEntry } from "./zip";
+
+// Folder that holds each folder's images, next to its notes
+const ATTACHMENTS_FOLDER = "attachments";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "image/bmp": "bmp",
+};
+
+/**
+ * Make a string safe to use as a single file or folder name on every OS
+ */
+function toFileName(name: string, fallback: string): string {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "")
+    .slice(0, 100)
+    .trim();
+  return cleaned || fallback;
+}
+
+/**
+ * Turn Note.folder ("Work/Meetings") into safe path segments
+ */
+function toFolderPath(folder: string | undefined): string {
+  return (folder || "")
+    .split("/")
+    .map((segment) => toFileName(segment, ""))
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Pick a path that is not taken yet by adding " 2", " 3" and so on before the extension
+ */
+function claimPath(path: string, taken: Set<string>): string {
+  const dot = path.lastIndexOf(".");
+  const base = dot > path.lastIndexOf("/") ? path.slice(0, dot) : path;
+  const extension = dot > path.lastIndexOf("/") ? path.slice(dot) : "";
+
+  let candidate = path;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} ${n}${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Decode a base64 data URL into its MIME type and bytes
+ */
+function decodeDataUrl(url: string): { type: string; bytes: Uint8Array } | null {
+  const match = /^data:([^;,]+)?(;base64)?,([\s\S]*)$/.exec(url);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const type = match[1] || "application/octet-stream";
+    if (!match[2]) {
+      return { type, bytes: new TextEncoder().encode(decodeURIComponent(match[3])) };
+    }
+
+    const binary = atob(match[3]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return { type, bytes };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a YAML front matter block. Strings are written as JSON, which is valid YAML and needs no further escaping.
+ */
+function toFrontMatter(fields: Record<string, string | boolean | string[] | undefined>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) =>
+      Array.isArray(value)
+        ? `${key}:\n${value.map((item) => `  - ${JSON.stringify(item)}`).join("\n")}`
+        : `${key}: ${typeof value === "string" ? JSON.stringify(value) : value}`
+    );
+  return `---\n${lines.join("\n")}\n---\n\n`;
+}
+
+/**
+ * A file from the attachment store, fetched ahead of building a vault
+ */
+export interface VaultAttachment {
+  type: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * Lay out notes as a vault: one Markdown file per note with YAML front matter, in folders that follow
+ * Note.folder. Embedded data-URL images, and stored attachments passed in by URL, are written to an attachments
+ * folder and the links rewritten to match.
+ */
+export function buildNotesVault(notes: Note[], attachments: Map<string, VaultAttachment> = new Map()): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  const taken = new Set<string>();
+
+  notes.forEach((note) => {
+    const folder = toFolderPath(note.folder);
+    const prefix = folder ? `${folder}/` : "";
+    const title = toFileName(note.title, "Untitled");
+    const notePath = claimPath(`${prefix}${title}.md`, taken);
+    let content = note.content;
+
+    // Image URLs from the note's image list plus any pasted straight into the content
+    const imageNames = new Map((note.images || []).map((image) => [image.url, image.name]));
+    const urls = new Set([
+      ...imageNames.keys(),
+      ...Array.from(content.matchAll(/\]\((data:[^)\s]+)\)/g), (match) => match[1]),
+      ...Array.from(findAttachmentHashes(content), getAttachmentUrl),
+    ]);
+
+    let imageIndex = 0;
+    urls.forEach((url) => {
+      const decoded = url.startsWith("data:") ? decodeDataUrl(url) : attachments.get(url);
+      if (!decoded) return;
+
+      imageIndex++;
+      const extension = IMAGE_EXTENSIONS[decoded.type] || "bin";
+      const name = toFileName(imageNames.get(url)?.replace(/\.[^.]+$/, "") || "", `${title} ${imageIndex}`);
+      const imagePath = claimPath(`${prefix}${ATTACHMENTS_FOLDER}/${name}.${extension}`, taken);
+
+      entries.push({ path: imagePath, data: decoded.bytes, modifiedAt: new Date(note.updatedAt) });
+
+      // Link relative to the note, which sits one level above the attachments folder
+      const link = encodeURI(imagePath.slice(prefix.length));
+      content = content.split(url).join(link);
+    });
+
+    const frontMatter = toFrontMatter({
+      id: note.id,
+      title: note.title,
+      tags: note.tags,
+      folder: note.folder || undefined,
+      projectId: note.projectId,
+      todoId: note.todoId,
+      relatedNotes: note.relatedNotes,
+      relatedTodos: note.relatedTodos,
+      contentType: note.contentType,
+      favorite: note.isFavorite || undefined,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      lastEditedAt: note.lastEditedAt,
+    });
+
+    entries.push({
+      path: notePath,
+      data: `${frontMatter}${content.trimEnd()}\n`,
+      modifiedAt: new Date(note.updatedAt),
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Fetch the stored attachments notes refer to. One that cannot be fetched is left out and keeps its link.
+ */
+async function fetchAttachments(notes: Note[]): Promise<Map<string, VaultAttachment>> {
+  const attachments = new Map<string, VaultAttachment>();
+
+  for (const hash of Array.from(findAttachmentHashes(notes))) {
+    const url = getAttachmentUrl(hash);
+    try {
+      const response = await fetch(url);
+      if (response.ok) {
+        const type = response.headers.get("Content-Type") || "application/octet-stream";
+        attachments.set(url, { type, bytes: new Uint8Array(await response.arrayBuffer()) });
+      }
+    } catch (error) {
+      console.warn(`Could not fetch ${url} for the vault:`, error);
+    }
+  }
+
+  return attachments;
+}
+
+/**
+ * Download notes as a zipped Markdown vault
+ */
+export async function downloadNotesVault(notes: Note[]) {
+  const zip = createZip(buildNotesVault(notes, await fetchAttachments(notes)));
+  const blob = new Blob([zip], { type: "application/zip" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `taskflow-notes-${new Date().toISOString().split("T")[0]}.zip`;
+  document.body.appendChild(a);
+  a.click();
+
+  // Clean up
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
+
+/**
+ * A note read from a Markdown folder, before it is created
+ */
+export interface VaultNote {
+  // Path within the vault without the .md extension, used to resolve links between notes
+  path: string;
+  title: string;
+  content: string;
+  folder?: string;
+  tags?: string[];
+  images: Array<Omit<NoteImage, "id" | "createdAt">>;
+  // Paths of the notes this one links to
+  links: string[];
+}
+
+export interface NotesVaultPlan {
+  notes: VaultNote[];
+  warnings: string[];
+}
+
+/**
+ * Read the YAML front matter this app and most note apps write: scalars, quoted strings, inline [a, b] lists
+ * and "- item" lists. Anything more elaborate is ignored.
+ */
+export function parseFrontMatter(text: string): { fields: Record<string, string | string[]>; body: string } {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) {
+    return { fields: {}, body: text };
+  }
+
+  const unquote = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('"')) {
+      try {
+        return JSON.parse(trimmed) as string;
+      } catch {
+        return trimmed.slice(1, -1);
+      }
+    }
+    return trimmed.startsWith("'") ? trimmed.slice(1, -1).replace(/''/g, "'") : trimmed;
+  };
+
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach((line) => {
+    const item = /^\s+-\s+(.*)$/.exec(line) || (listKey ? /^-\s+(.*)$/.exec(line) : null);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]));
+      return;
+    }
+
+    const pair = /^([A-Za-z0-9_-]+):\s*(.*)$/.exec(line);
+    if (!pair) return;
+
+    const [, key, value] = pair;
+    listKey = null;
+    if (value.trim() === "") {
+      fields[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value.trim())) {
+      fields[key] = value.trim().slice(1, -1).split(",").map(unquote).filter(Boolean);
+    } else {
+      fields[key] = unquote(value);
+    }
+  });
+
+  return { fields, body: text.slice(match[0].length) };
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (Array.isArray(value)) return value;
+  return value ? value.split(",").map((item) => item.trim()) : [];
+}
+
+function toDataUrl(bytes: Uint8Array, type: string): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${type};base64,${btoa(binary)}`;
+}
+
+/**
+ * Resolve "../images/a.png" against the folder a note sits in
+ */
+function resolvePath(folder: string, target: string): string {
+  const segments = folder ? folder.split("/") : [];
+  target.split("/").forEach((segment) => {
+    if (segment === "..") segments.pop();
+    else if (segment && segment !== ".") segments.push(segment);
+  });
+  return segments.join("/");
+}
+
+function decodeLink(link: string): string {
+  try {
+    return decodeURI(link);
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * Turn the files of a Markdown folder or zip into notes. Folders become Note.folder, front matter tags become
+ * tags, relative image links become image attachments and [[wikilinks]] become related notes.
+ */
+export function planNotesVaultImport(files: ZipEntry[]): NotesVaultPlan {
+  const decoder = new TextDecoder();
+  const visible = files.filter(
+    (file) => !file.path.split("/").some((segment) => segment.startsWith(".") || segment === "__MACOSX")
+  );
+
+  // Drop a single top-level folder that wraps everything, as folder uploads and zipped folders have
+  const roots = new Set(visible.map((file) => (file.path.includes("/") ? file.path.split("/")[0] : "")));
+  const [root] = Array.from(roots);
+  const strip = roots.size === 1 && root ? root.length + 1 : 0;
+  const entries = visible.map((file) => ({ ...file, path: file.path.slice(strip) }));
+
+  const images = new Map<string, { bytes: Uint8Array; type: string }>();
+  const imagesByName = new Map<string, string>();
+  entries.forEach((file) => {
+    const extension = file.path.split(".").pop()?.toLowerCase() || "";
+    const type =
+      Object.keys(IMAGE_EXTENSIONS).find((mime) => IMAGE_EXTENSIONS[mime] === extension) ||
+      (extension === "jpeg" ? "image/jpeg" : null);
+    if (!type) return;
+
+    const bytes = typeof file.data === "string" ? new TextEncoder().encode(file.data) : file.data;
+    images.set(file.path.toLowerCase(), { bytes, type });
+    imagesByName.set(file.path.split("/").pop()!.toLowerCase(), file.path.toLowerCase());
+  });
+
+  const markdown = entries.filter((file) => /\.(md|markdown)$/i.test(file.path));
+  const notePaths = new Map<string, string>();
+  const notesByName = new Map<string, string>();
+  markdown.forEach((file) => {
+    const path = file.path.replace(/\.(md|markdown)$/i, "");
+    notePaths.set(path.toLowerCase(), path);
+    notesByName.set(path.split("/").pop()!.toLowerCase(), path);
+  });
+
+  const warnings: string[] = [];
+  let missingImages = 0;
+  let unresolvedLinks = 0;
+  const exportedIds = new Map<string, string>();
+  const exportedRelations = new Map<string, string[]>();
+
+  const notes = markdown.map((file) => {
+    const path = file.path.replace(/\.(md|markdown)$/i, "");
+    const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+    const text = typeof file.data === "string" ? file.data : decoder.decode(file.data);
+    const { fields, body } = parseFrontMatter(text);
+
+    const noteImages = new Map<string, Omit<NoteImage, "id" | "createdAt">>();
+    const attach = (key: string) => {
+      const image = images.get(key);
+      if (!image) return null;
+      if (!noteImages.has(key)) {
+        const url = toDataUrl(image.bytes, image.type);
+        noteImages.set(key, {
+          url,
+          thumbnail: url,
+          name: key.split("/").pop()!,
+          type: image.type,
+          size: image.bytes.length,
+        });
+      }
+      return noteImages.get(key)!.url;
+    };
+
+    // Obsidian-style ![[image.png]] embeds, then ordinary ![alt](relative/path.png) links
+    let content = body.replace(/!\[\[([^\]|#]+)(?:\|[^\]]*)?\]\]/g, (embed, target: string) => {
+      const key = imagesByName.get(target.trim().split("/").pop()!.toLowerCase());
+      const url = key ? attach(key) : null;
+      if (!url) {
+        if (!notesByName.has(target.trim().toLowerCase())) missingImages++;
+        return embed;
+      }
+      return `![${target.trim()}](${url})`;
+    });
+    content = content.replace(
+      /(!\[[^\]]*\]\()\s*<?([^)\s>]+)>?([^)]*\))/g,
+      (link, start: string, target: string, end: string) => {
+        if (/^(?:[a-z]+:|#|\/)/i.test(target)) return link;
+        const url = attach(resolvePath(folder, decodeLink(target)).toLowerCase());
+        if (!url) {
+          missingImages++;
+          return link;
+        }
+        return `${start}${url}${end.replace(/^\s*"[^"]*"/, "")}`;
+      }
+    );
+
+    const links = new Set<string>();
+    Array.from(content.matchAll(/\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g)).forEach((match) => {
+      const target = match[1].trim().replace(/\.md$/i, "").toLowerCase();
+      const linked = target.includes("/")
+        ? notePaths.get(target) || notePaths.get(resolvePath(folder, target).toLowerCase())
+        : notesByName.get(target);
+      if (linked && linked !== path) links.add(linked);
+      else if (!linked && !imagesByName.has(target)) unresolvedLinks++;
+    });
+
+    if (typeof fields.id === "string") exportedIds.set(fields.id, path);
+    exportedRelations.set(path, toList(fields.relatedNotes));
+
+    const tags = Array.from(
+      new Set(
+        toList(fields.tags)
+          .map((tag) => tag.replace(/^#/, ""))
+          .filter(Boolean)
+      )
+    );
+    const title = typeof fields.title === "string" && fields.title ? fields.title : path.split("/").pop()!;
+
+    return {
+      path,
+      title,
+      content: content.trim(),
+      folder: folder || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      images: Array.from(noteImages.values()),
+      links: Array.from(links),
+    };
+  });
+
+  // Notes exported from this app list related notes by their old IDs
+  notes.forEach((note) => {
+    exportedRelations.get(note.path)!.forEach((id) => {
+      const linked = exportedIds.get(id);
+      if (linked && linked !== note.path && !note.links.includes(linked)) note.links.push(linked);
+    });
+  });
+
+  if (markdown.length === 0) warnings.push("No Markdown files were found");
+  if (missingImages > 0) warnings.push(`${missingImages} image link(s) point to files that are not included`);
+  if (unresolvedLinks > 0) warnings.push(`${unresolvedLinks} [[link(s)]] do not match any imported note`);
+
+  return { notes, warnings };
+}
@@ -0,0 +1,240 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { Attachment, ATTACHMENT_HASH_PATTERN, getAttachmentUrl, getThumbnailUrl } from "@/lib/attachments";
+import { DATA_DIR } from "./workspaceContext";
+
+// Shared by every workspace: attachments are named by their content, so sharing them leaks nothing
+export const ATTACHMENTS_DIR = path.join(DATA_DIR, "attachments");
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 200;
+
+const FALLBACK_TYPE = "application/octet-stream";
+
+/**
+ * What is stored next to each attachment's bytes
+ */
+interface AttachmentInfo {
+  type: string;
+  size: number;
+  width?: number;
+  height?: number;
+  createdAt: string;
+}
+
+/**
+ * An attachment as kept in the store, with when it was first uploaded
+ */
+export interface StoredAttachment extends Attachment {
+  createdAt: string;
+}
+
+/**
+ * Spread attachments over subdirectories by the first two characters of their hash
+ */
+function getAttachmentPath(hash: string): string {
+  return path.join(ATTACHMENTS_DIR, hash.slice(0, 2), hash);
+}
+
+function getInfoPath(hash: string): string {
+  return `${getAttachmentPath(hash)}.json`;
+}
+
+function getThumbnailPath(hash: string): string {
+  return `${getAttachmentPath(hash)}.thumb.webp`;
+}
+
+/**
+ * Write a file through a temp file so readers never see part of it
+ */
+async function writeFileAtomic(filePath: string, contents: Buffer | string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.promises.writeFile(tempPath, contents);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Keep a client-supplied MIME type only if it looks like one
+ */
+function toContentType(type: string): string {
+  const normalized = type.trim().toLowerCase();
+  return /^[\w.+-]+\/[\w.+-]+$/.test(normalized) ? normalized : FALLBACK_TYPE;
+}
+
+function toAttachment(hash: string, info: AttachmentInfo): Attachment {
+  return {
+    hash,
+    url: getAttachmentUrl(hash),
+    thumbnailUrl: fs.existsSync(getThumbnailPath(hash)) ? getThumbnailUrl(hash) : undefined,
+    type: info.type,
+    size: info.size,
+    width: info.width,
+    height: info.height,
+  };
+}
+
+/**
+ * Check whether a string is a well-formed attachment hash
+ */
+export function isAttachmentHash(hash: string): boolean {
+  return ATTACHMENT_HASH_PATTERN.test(hash);
+}
+
+/**
+ * Hash bytes the way the attachment store names them
+ */
+export function hashAttachment(bytes: Buffer): string {
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+/**
+ * Store an upload, or return the attachment already holding the same bytes. Images get a thumbnail and
+ * their dimensions recorded; an image the thumbnailer cannot read is stored without them.
+ */
+export async function saveAttachment(bytes: Buffer, type: string): Promise<Attachment> {
+  const hash = hashAttachment(bytes);
+  const existing = readAttachmentInfo(hash);
+  if (existing) {
+    return toAttachment(hash, existing);
+  }
+
+  const info: AttachmentInfo = { type: toContentType(type), size: bytes.length, createdAt: new Date().toISOString() };
+  await fs.promises.mkdir(path.dirname(getAttachmentPath(hash)), { recursive: true });
+  await writeFileAtomic(getAttachmentPath(hash), bytes);
+
+  if (info.type.startsWith("image/")) {
+    try {
+      const image = sharp(bytes, { animated: false });
+      const metadata = await image.metadata();
+      info.width = metadata.width;
+      info.height = metadata.height;
+
+      const thumbnail = await image
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 70 })
+        .toBuffer();
+      await writeFileAtomic(getThumbnailPath(hash), thumbnail);
+    } catch (error) {
+      console.warn(`Could not create a thumbnail for attachment ${hash}:`, error);
+    }
+  }
+
+  // The info file is written last, so an attachment only counts as stored once everything else is in place
+  await writeFileAtomic(getInfoPath(hash), JSON.stringify(info, null, 2));
+  return toAttachment(hash, info);
+}
+
+/**
+ * Read what is known about an attachment, or null if there is no such attachment
+ */
+function readAttachmentInfo(hash: string): AttachmentInfo | null {
+  if (!isAttachmentHash(hash)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(getInfoPath(hash), "utf8")) as AttachmentInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Look up an attachment without reading its bytes
+ */
+export function findAttachment(hash: string): Attachment | null {
+  const info = readAttachmentInfo(hash);
+  return info ? toAttachment(hash, info) : null;
+}
+
+/**
+ * List every attachment in the store, shared by all workspaces
+ */
+export function listAttachments(): StoredAttachment[] {
+  let directories: string[];
+  try {
+    directories = fs.readdirSync(ATTACHMENTS_DIR);
+  } catch {
+    return [];
+  }
+
+  return directories.flatMap((directory) => {
+    let files: string[];
+    try {
+      files = fs.readdirSync(path.join(ATTACHMENTS_DIR, directory));
+    } catch {
+      return [];
+    }
+
+    return files.flatMap((file) => {
+      const hash = file.replace(/\.json$/, "");
+      const info = file.endsWith(".json") ? readAttachmentInfo(hash) : null;
+      return info ? [{ ...toAttachment(hash, info), createdAt: info.createdAt }] : [];
+    });
+  });
+}
+
+/**
+ * Read an attachment's bytes, or null if there is no such attachment
+ */
+export function readAttachment(hash: string): { data: Buffer; type: string } | null {
+  const info = readAttachmentInfo(hash);
+  if (!info) {
+    return null;
+  }
+
+  try {
+    return { data: fs.readFileSync(getAttachmentPath(hash)), type: info.type };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an image attachment's thumbnail, or null if it has none
+ */
+export function readThumbnail(hash: string): Buffer | null {
+  if (!isAttachmentHash(hash)) {
+    return null;
+  }
+
+  try {
+    return fs.readFileSync(getThumbnailPath(hash));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete an attachment with its thumbnail, returning false if there is no such attachment.
+ * The info file goes first, so a half-deleted attachment already counts as gone.
+ */
+export function deleteAttachment(hash: string): boolean {
+  if (!readAttachmentInfo(hash)) {
+    return false;
+  }
+
+  [getInfoPath(hash), getAttachmentPath(hash), getThumbnailPath(hash)].forEach((filePath) =>
+    fs.rmSync(filePath, { force: true })
+  );
+  return true;
+}
+
+/**
+ * Response headers for serving attachment bytes. Content never changes under a hash, so it can be cached for good.
+ * Uploads are served sandboxed, and anything but an image is downloaded rather than shown, so an uploaded page
+ * or script cannot run as this site.
+ */
+export function getAttachmentHeaders(hash: string, type: string): HeadersInit {
+  return {
+    "Content-Type": type,
+    "Cache-Control": "public, max-age=31536000, immutable",
+    ETag: `"${hash}"`,
+    "X-Content-Type-Options": "nosniff",
+    "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    ...(type.startsWith("image/") ? {} : { "Content-Disposition": "attachment" }),
+  };
+}
@@ -0,0 +1,181 @@
+import { INITIAL_SCHEMA_VERSION, migrateEntityData } from "@/lib/migrations";
+import { BackupInfo, getDriver } from "./drivers";
+import { JOURNAL_ENTITY, journalCollectionChange } from "./journal";
+import { stampRecordRevisions } from "./repository";
+import {
+  createBackup,
+  deleteBackup,
+  enqueueWrite,
+  listBackups,
+  readBackup,
+  readData,
+  writeDataUnqueued,
+} from "./storage";
+
+/**
+ * How many backups pruning keeps: the newest `keepLast`, plus the newest backup of each of the
+ * last `keepDaily` days and `keepWeekly` weeks that have one
+ */
+export interface BackupRetentionPolicy {
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: BackupRetentionPolicy = {
+  keepLast: 10,
+  keepDaily: 7,
+  keepWeekly: 4,
+};
+
+/**
+ * A backup together with what restoring it would change
+ */
+export interface BackupPreview extends BackupInfo {
+  // Number of records in the backup, or null if the entity is not a record collection
+  recordCount: number | null;
+  currentRecordCount: number | null;
+}
+
+export interface PruneResult {
+  kept: BackupInfo[];
+  deleted: BackupInfo[];
+}
+
+/**
+ * Build a retention policy from request input, using the default for any missing or invalid count
+ */
+export function toRetentionPolicy(input: unknown): BackupRetentionPolicy {
+  const values = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const count = (key: keyof BackupRetentionPolicy): number => {
+    const raw = values[key];
+    const value = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : NaN;
+    return Number.isInteger(value) && value >= 0 ? value : DEFAULT_RETENTION_POLICY[key];
+  };
+
+  return { keepLast: count("keepLast"), keepDaily: count("keepDaily"), keepWeekly: count("keepWeekly") };
+}
+
+function countRecords(data: unknown): number | null {
+  return Array.isArray(data) ? data.length : null;
+}
+
+/**
+ * Day of a backup in UTC, e.g. 2026-10-19
+ */
+function dayKey(createdAt: string): string {
+  return createdAt.slice(0, 10);
+}
+
+/**
+ * Monday of the UTC week a backup falls in
+ */
+function weekKey(createdAt: string): string {
+  const date = new Date(createdAt);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Keep the newest backup of each of the first `count` periods, given backups sorted newest first
+ */
+function newestPerPeriod(backups: BackupInfo[], count: number, getPeriod: (createdAt: string) => string): string[] {
+  const periods = new Map<string, string>();
+
+  for (const backup of backups) {
+    const period = getPeriod(backup.createdAt);
+    if (!periods.has(period)) {
+      if (periods.size >= count) {
+        break;
+      }
+      periods.set(period, backup.id);
+    }
+  }
+
+  return Array.from(periods.values());
+}
+
+/**
+ * Pick the IDs of the backups a retention policy keeps
+ */
+export function selectRetainedBackups(backups: BackupInfo[], policy: BackupRetentionPolicy): Set<string> {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return new Set([
+    ...newestFirst.slice(0, Math.max(0, policy.keepLast)).map((backup) => backup.id),
+    ...newestPerPeriod(newestFirst, policy.keepDaily, dayKey),
+    ...newestPerPeriod(newestFirst, policy.keepWeekly, weekKey),
+  ]);
+}
+
+/**
+ * List the backups of every entity that has data, newest first
+ */
+export function listAllBackups(): BackupInfo[] {
+  return getDriver()
+    .entities()
+    .flatMap((entity) => listBackups(entity))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Describe a backup and compare its record count with the current data, or return null if it does not exist
+ */
+export function previewBackup(entity: string, backupId: string): BackupPreview | null {
+  const info = listBackups(entity).find((backup) => backup.id === backupId);
+  const data = info ? readBackup(entity, backupId) : null;
+
+  if (!info || data === null) {
+    return null;
+  }
+
+  return { ...info, recordCount: countRecords(data), currentRecordCount: countRecords(readData(entity)) };
+}
+
+/**
+ * Restore an entity from one of its backups, first backing up the data being replaced so the restore can be undone.
+ * Returns false if the backup does not exist or the write fails.
+ */
+export function restoreBackup(entity: string, backupId: string, filename?: string): Promise<boolean> {
+  return enqueueWrite(entity, async () => {
+    // Rolling the journal back would rewrite history
+    if (entity === JOURNAL_ENTITY) {
+      return false;
+    }
+
+    const data = readBackup(entity, backupId);
+    if (data === null) {
+      return false;
+    }
+
+    createBackup(entity, `pre-restore_${new Date().toISOString().replace(/:/g, "-")}`, filename);
+
+    // The backup may predate the current schema. Migrations are safe to rerun, so start from the oldest version.
+    const previous = readData(entity, filename);
+    const migrated = migrateEntityData(entity, data, INITIAL_SCHEMA_VERSION);
+    // Revisions only move forward, so a record going back to an older copy still gets a new one
+    const restored = filename ? migrated : stampRecordRevisions(entity, previous, migrated);
+
+    if (!(await writeDataUnqueued(entity, restored, filename))) {
+      return false;
+    }
+
+    if (!filename) {
+      await journalCollectionChange(entity, previous, restored);
+    }
+    return true;
+  });
+}
+
+/**
+ * Delete the backups of an entity that a retention policy does not keep
+ */
+export function pruneBackups(entity: string, policy: BackupRetentionPolicy): Promise<PruneResult> {
+  return enqueueWrite(entity, () => {
+    const backups = listBackups(entity);
+    const retained = selectRetainedBackups(backups, policy);
+    const deleted = backups.filter((backup) => !retained.has(backup.id) && deleteBackup(entity, backup.id));
+
+    return { kept: backups.filter((backup) => retained.has(backup.id)), deleted };
+  });
+}
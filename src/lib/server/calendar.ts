@@ -0,0 +1,196 @@
+import { Project, Todo } from "@/types";
+
+/**
+ * iCalendar (RFC 5545) feed of todo dates and project milestones
+ */
+
+export interface CalendarFeedFilter {
+  projectIds?: string[];
+  tags?: string[];
+  statuses?: Todo["status"][];
+  // Emit todos as VEVENTs, for calendar clients that do not show VTODOs
+  todosAsEvents?: boolean;
+}
+
+const PRODUCT_ID = "-//TaskFlow//Calendar Feed//EN";
+
+const TODO_STATUSES: Record<Todo["status"], string> = {
+  pending: "NEEDS-ACTION",
+  "in-progress": "IN-PROCESS",
+  completed: "COMPLETED",
+};
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const TODO_PRIORITIES: Record<Todo["priority"], number> = { high: 1, medium: 5, low: 9 };
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/[;,]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format a stored date as an iCalendar property. Dates picked without a time are stored as midnight UTC and
+ * become all-day dates; anything else keeps its time.
+ */
+function dateProperty(name: string, value: string): string | null {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) || date.toISOString().endsWith("T00:00:00.000Z")) {
+    return `${name};VALUE=DATE:${date.toISOString().slice(0, 10).replace(/-/g, "")}`;
+  }
+  return `${name}:${formatDateTime(date)}`;
+}
+
+/**
+ * The day after a date, as an all-day DTEND for single-day events
+ */
+function nextDay(value: string): string {
+  const date = new Date(value);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function textProperty(name: string, value: string | undefined): string | null {
+  return value ? `${name}:${escapeText(value)}` : null;
+}
+
+function matchesFilter(todo: Todo, filter: CalendarFeedFilter): boolean {
+  if (filter.projectIds?.length && !(todo.projectId && filter.projectIds.includes(todo.projectId))) return false;
+  if (filter.tags?.length && !todo.tags?.some((tag) => filter.tags!.includes(tag))) return false;
+  if (filter.statuses?.length && !filter.statuses.includes(todo.status)) return false;
+  return true;
+}
+
+function todoComponent(todo: Todo, projectName: string | undefined, filter: CalendarFeedFilter): string[] {
+  const date = todo.dueDate || todo.startDate!;
+  const common = [
+    `UID:todo-${todo.id}@taskflow`,
+    `DTSTAMP:${formatDateTime(new Date(todo.updatedAt || todo.createdAt))}`,
+    textProperty("SUMMARY", todo.title),
+    textProperty(
+      "DESCRIPTION",
+      [todo.description, projectName && `Project: ${projectName}`].filter(Boolean).join("\n\n")
+    ),
+    todo.tags?.length ? `CATEGORIES:${todo.tags.map(escapeText).join(",")}` : null,
+    `PRIORITY:${TODO_PRIORITIES[todo.priority] ?? 5}`,
+    dateProperty("CREATED", todo.createdAt),
+    dateProperty("LAST-MODIFIED", todo.updatedAt),
+  ];
+
+  if (filter.todosAsEvents) {
+    const start = dateProperty("DTSTART", date);
+    return [
+      "BEGIN:VEVENT",
+      ...common,
+      start,
+      start?.includes("VALUE=DATE") ? `DTEND;VALUE=DATE:${nextDay(date)}` : null,
+      todo.status === "completed" ? "STATUS:CONFIRMED" : null,
+      "END:VEVENT",
+    ].filter((line): line is string => !!line);
+  }
+
+  return [
+    "BEGIN:VTODO",
+    ...common,
+    todo.startDate ? dateProperty("DTSTART", todo.startDate) : null,
+    todo.dueDate ? dateProperty("DUE", todo.dueDate) : null,
+    `STATUS:${TODO_STATUSES[todo.status] ?? "NEEDS-ACTION"}`,
+    todo.status === "completed" && todo.completedAt ? `COMPLETED:${formatDateTime(new Date(todo.completedAt))}` : null,
+    typeof todo.progress === "number" ? `PERCENT-COMPLETE:${Math.round(todo.progress)}` : null,
+    "END:VTODO",
+  ].filter((line): line is string => !!line);
+}
+
+/**
+ * Build an iCalendar document with a VTODO (or VEVENT) for every todo with a due or start date and an all-day
+ * VEVENT for every milestone with a due date. Milestones follow the project and tag filters through their project,
+ * and the status filter by whether they are completed.
+ */
+export function buildCalendarFeed(todos: Todo[], projects: Project[], filter: CalendarFeedFilter = {}): string {
+  const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+  const components: string[][] = [];
+
+  todos
+    .filter((todo) => (todo.dueDate || todo.startDate) && matchesFilter(todo, filter))
+    .forEach((todo) => components.push(todoComponent(todo, projectNames.get(todo.projectId || ""), filter)));
+
+  projects
+    .filter((project) => !filter.projectIds?.length || filter.projectIds.includes(project.id))
+    .filter((project) => !filter.tags?.length || project.tags?.some((tag) => filter.tags!.includes(tag)))
+    .forEach((project) => {
+      (project.milestones || [])
+        .filter((milestone) => milestone.dueDate && !isNaN(Date.parse(milestone.dueDate)))
+        .filter((milestone) => {
+          if (!filter.statuses?.length) return true;
+          return filter.statuses.includes(milestone.completed ? "completed" : "pending");
+        })
+        .forEach((milestone) => {
+          const start = dateProperty("DTSTART", milestone.dueDate)!;
+          components.push(
+            [
+              "BEGIN:VEVENT",
+              `UID:milestone-${milestone.id}@taskflow`,
+              `DTSTAMP:${formatDateTime(new Date(milestone.updatedAt || project.updatedAt))}`,
+              textProperty("SUMMARY", `${project.name}: ${milestone.title}`),
+              textProperty("DESCRIPTION", milestone.description),
+              start,
+              start.includes("VALUE=DATE") ? `DTEND;VALUE=DATE:${nextDay(milestone.dueDate)}` : null,
+              "TRANSP:TRANSPARENT",
+              milestone.completed ? "STATUS:CONFIRMED" : null,
+              "END:VEVENT",
+            ].filter((line): line is string => !!line)
+          );
+        });
+    });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:TaskFlow",
+    ...components.flat(),
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,49 @@
+import { currentWorkspaceId } from "./workspaceContext";
+
+/**
+ * A change to stored data, pushed to every open client. Record changes carry the record so clients can merge
+ * it in place; a replaced collection only names the entity, and clients read it again.
+ */
+export type DataChange =
+  | { kind: "upsert"; entity: string; id: string; record: { id: string; updatedAt?: string; revision?: number } }
+  | { kind: "delete"; entity: string; id: string }
+  | { kind: "replace"; entity: string };
+
+type ChangeListener = (change: DataChange, workspaceId: string) => void;
+
+// Route handlers can be bundled separately, so the listeners hang off globalThis to be shared by all of them
+const LISTENERS_KEY = Symbol.for("taskflow.changeListeners");
+
+function getListeners(): Set<ChangeListener> {
+  const holder = globalThis as typeof globalThis & { [LISTENERS_KEY]?: Set<ChangeListener> };
+  if (!holder[LISTENERS_KEY]) {
+    holder[LISTENERS_KEY] = new Set();
+  }
+  return holder[LISTENERS_KEY];
+}
+
+/**
+ * Tell every connected client about a change in the current workspace. A failing listener never fails the write
+ * that caused it.
+ */
+export function publishChange(change: DataChange): void {
+  const workspaceId = currentWorkspaceId();
+  getListeners().forEach((listener) => {
+    try {
+      listener(change, workspaceId);
+    } catch (error) {
+      console.error("Error delivering change:", error);
+    }
+  });
+}
+
+/**
+ * Listen for changes until the returned function is called
+ */
+export function subscribeToChanges(listener: ChangeListener): () => void {
+  const listeners = getListeners();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,93 @@
+import path from "path";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces";
+import { currentWorkspaceId, DATA_DIR, getWorkspaceDataDir } from "../workspaceContext";
+import { JsonFileDriver } from "./jsonFileDriver";
+import { SqliteDriver } from "./sqliteDriver";
+import { StorageDriver, StorageDriverName } from "./types";
+
+// Driver selection, e.g. TASKFLOW_STORAGE_DRIVER=sqlite in .env.local
+const DRIVER_NAME = (process.env.TASKFLOW_STORAGE_DRIVER || "json") as StorageDriverName;
+const SQLITE_PATH = process.env.TASKFLOW_SQLITE_PATH || path.join(DATA_DIR, "taskflow.db");
+
+// One driver per workspace, created on first use
+const drivers = new Map<string, StorageDriver>();
+
+/**
+ * Copy every entity and log from the JSON files into a fresh SQLite database
+ */
+function importJsonData(dataDir: string, target: SqliteDriver): void {
+  const source = new JsonFileDriver(dataDir);
+
+  for (const entity of source.entities()) {
+    const stored = source.read(entity);
+    if (stored) {
+      target.writeSync(entity, stored.data);
+      console.log(`Imported ${entity} from JSON files into SQLite`);
+    }
+  }
+
+  for (const entity of source.logs()) {
+    const entries = source.readLog<{ id: string }>(entity, {}).reverse();
+    target.appendLogSync(entity, entries, entries.length);
+    console.log(`Imported the ${entity} log from JSON files into SQLite`);
+  }
+}
+
+/**
+ * Create the configured storage driver for a workspace
+ */
+function createDriver(workspaceId: string): StorageDriver {
+  const dataDir = getWorkspaceDataDir(workspaceId);
+
+  if (DRIVER_NAME === "sqlite") {
+    const sqliteDriver = new SqliteDriver(
+      workspaceId === DEFAULT_WORKSPACE_ID ? SQLITE_PATH : path.join(dataDir, "taskflow.db")
+    );
+
+    // Carry existing data over the first time the SQLite driver is used
+    if (sqliteDriver.isEmpty()) {
+      try {
+        importJsonData(dataDir, sqliteDriver);
+      } catch (error) {
+        console.error("Error importing JSON data into SQLite:", error);
+      }
+    }
+
+    return sqliteDriver;
+  }
+
+  if (DRIVER_NAME !== "json") {
+    console.warn(`Unknown storage driver "${DRIVER_NAME}", falling back to json`);
+  }
+
+  return new JsonFileDriver(dataDir);
+}
+
+/**
+ * Get the storage driver shared by all server-side storage code, for the current request's workspace
+ * unless another one is named
+ */
+export function getDriver(workspaceId: string = currentWorkspaceId()): StorageDriver {
+  let driver = drivers.get(workspaceId);
+  if (!driver) {
+    driver = createDriver(workspaceId);
+    drivers.set(workspaceId, driver);
+  }
+
+  return driver;
+}
+
+/**
+ * Close and drop a workspace's driver before its data is deleted
+ */
+export function releaseDriver(workspaceId: string): void {
+  const driver = drivers.get(workspaceId);
+  if (driver instanceof SqliteDriver) {
+    driver.close();
+  }
+  drivers.delete(workspaceId);
+}
+
+export * from "./types";
+export { JsonFileDriver } from "./jsonFileDriver";
+export { SqliteDriver } from "./sqliteDriver";
@@ -0,0 +1,499 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { RESERVED_ENTITIES } from "../workspaceContext";
+import { BackupInfo, LogQuery, RecordQuery, StorageDriver, StoredDocument } from "./types";
+
+const DATA_FILENAME = "data.json";
+
+// Backup IDs are bare file names inside the entity's directory, so they can never point anywhere else
+const BACKUP_ID_PATTERN = /^backup_[A-Za-z0-9._-]+\.json$/;
+
+// An entity's log is appended to log.jsonl, one entry per line, which is moved aside to log.<n>.jsonl when full
+const LOG_FILENAME = "log.jsonl";
+const LOG_SEGMENT_PATTERN = /^log\.(\d+)\.jsonl$/;
+
+// Full log files kept besides the one being appended to, each holding an equal share of the log's cap
+const LOG_SEGMENTS = 10;
+
+// Temp files left by writeFileAtomic: <file>.<pid>.<timestamp>.tmp
+const TEMP_FILE_PATTERN = /\.\d+\.\d+\.tmp$/;
+
+type ParsedJsonFile<T> = { status: "ok"; data: T } | { status: "corrupt" };
+
+/**
+ * Compute a revision string from raw file contents
+ */
+function computeRevision(contents: string | Buffer): string {
+  return crypto.createHash("sha1").update(contents).digest("hex");
+}
+
+/**
+ * Parse a JSON file, telling a file that holds null apart from one that is missing, empty or malformed
+ */
+function readJsonFile<T>(filePath: string): ParsedJsonFile<T> {
+  try {
+    const raw = fs.readFileSync(filePath, "utf8");
+    if (raw.trim().length === 0) {
+      return { status: "corrupt" };
+    }
+    return { status: "ok", data: JSON.parse(raw) as T };
+  } catch {
+    return { status: "corrupt" };
+  }
+}
+
+/**
+ * Parse a JSON file, returning null if it is missing, empty or malformed
+ */
+function parseJsonFile<T>(filePath: string): T | null {
+  const parsed = readJsonFile<T>(filePath);
+  return parsed.status === "ok" ? parsed.data : null;
+}
+
+/**
+ * Write a file by writing a temp file next to it, flushing it to disk and renaming it into place.
+ * The rename is atomic, so readers see either the old or the new file, never a partial one.
+ */
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const handle = await fs.promises.open(tempPath, "w");
+
+  try {
+    await handle.writeFile(contents, "utf8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Synchronous writeFileAtomic, for the few writes made where nothing can be awaited
+ */
+function writeFileAtomicSync(filePath: string, contents: string): void {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  const fd = fs.openSync(tempPath, "w");
+
+  try {
+    fs.writeFileSync(fd, contents, "utf8");
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Parse one line of a log file, returning null for a blank line or one cut short by an interrupted append
+ */
+function parseLogLine<T>(line: string): T | null {
+  if (line.trim().length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(line) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a record matches a query
+ */
+export function matchesQuery(record: Record<string, unknown>, query: RecordQuery): boolean {
+  if (query.id !== undefined && record.id !== query.id) {
+    return false;
+  }
+
+  return Object.entries(query.where || {}).every(([field, value]) => record[field] === value);
+}
+
+/**
+ * Stores each entity as pretty-printed JSON files under data/<entity>/, and its log as JSON lines next to them
+ */
+export class JsonFileDriver implements StorageDriver {
+  readonly name = "json" as const;
+  private dataDir: string;
+
+  // Entries in each entity's log.jsonl, counted on the first append
+  private logLengths = new Map<string, number>();
+
+  // Entities whose old data.json has been carried into their log
+  private convertedLogs = new Set<string>();
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+
+    // Ensure data directory exists
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+
+    this.verifyDataFiles();
+  }
+
+  /**
+   * Helper function to get the file path for an entity
+   */
+  private getFilePath(entity: string, filename?: string): string {
+    const entityPath = path.join(this.dataDir, entity);
+
+    // Ensure entity directory exists
+    if (!fs.existsSync(entityPath)) {
+      fs.mkdirSync(entityPath, { recursive: true });
+    }
+
+    return path.join(entityPath, filename || DATA_FILENAME);
+  }
+
+  entities(): string[] {
+    return fs
+      .readdirSync(this.dataDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(this.dataDir, entry.name, DATA_FILENAME)))
+      .map((entry) => entry.name);
+  }
+
+  exists(entity: string, filename?: string): boolean {
+    return fs.existsSync(this.getFilePath(entity, filename));
+  }
+
+  read<T>(entity: string, filename?: string): StoredDocument<T> | null {
+    const filePath = this.getFilePath(entity, filename);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const raw = fs.readFileSync(filePath, "utf8");
+      return { data: JSON.parse(raw) as T, revision: computeRevision(raw) };
+    } catch (error) {
+      console.error(`Error reading ${entity} data:`, error);
+      return null;
+    }
+  }
+
+  revision(entity: string, filename?: string): string | null {
+    const filePath = this.getFilePath(entity, filename);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return computeRevision(fs.readFileSync(filePath));
+  }
+
+  async write<T>(entity: string, data: T, filename?: string): Promise<string> {
+    const contents = JSON.stringify(data, null, 2);
+    await writeFileAtomic(this.getFilePath(entity, filename), contents);
+    return computeRevision(contents);
+  }
+
+  query<T>(entity: string, query: RecordQuery, filename?: string): T[] {
+    const stored = this.read<Record<string, unknown>[]>(entity, filename);
+
+    if (!stored || !Array.isArray(stored.data)) {
+      return [];
+    }
+
+    const matches = stored.data.filter((record) => matchesQuery(record, query));
+    return (query.limit !== undefined ? matches.slice(0, query.limit) : matches) as T[];
+  }
+
+  backup(entity: string, timestamp: string, filename?: string): string | null {
+    const filePath = this.getFilePath(entity, filename);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      // The random suffix keeps two backups taken with the same timestamp apart
+      const suffix = crypto.randomBytes(4).toString("hex");
+      const backupId = `backup_${timestamp.replace(/[^A-Za-z0-9._-]/g, "-")}_${suffix}.json`;
+      fs.copyFileSync(filePath, path.join(this.dataDir, entity, backupId), fs.constants.COPYFILE_EXCL);
+      return backupId;
+    } catch (error) {
+      console.error(`Error creating backup for ${entity}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a backup ID to its file, or null if the ID is malformed or the file is missing
+   */
+  private getBackupPath(entity: string, backupId: string): string | null {
+    if (!BACKUP_ID_PATTERN.test(backupId)) {
+      return null;
+    }
+
+    const backupPath = path.join(this.dataDir, entity, backupId);
+    return fs.existsSync(backupPath) ? backupPath : null;
+  }
+
+  listBackups(entity: string): BackupInfo[] {
+    const entityPath = path.join(this.dataDir, entity);
+
+    if (!fs.existsSync(entityPath)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(entityPath)
+      .filter((file) => BACKUP_ID_PATTERN.test(file))
+      .map((file) => {
+        const stats = fs.statSync(path.join(entityPath, file));
+        return { id: file, entity, createdAt: stats.mtime.toISOString(), size: stats.size };
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  readBackup<T>(entity: string, backupId: string): T | null {
+    const backupPath = this.getBackupPath(entity, backupId);
+    return backupPath ? parseJsonFile<T>(backupPath) : null;
+  }
+
+  deleteBackup(entity: string, backupId: string): boolean {
+    const backupPath = this.getBackupPath(entity, backupId);
+
+    if (!backupPath) {
+      return false;
+    }
+
+    fs.rmSync(backupPath, { force: true });
+    return true;
+  }
+
+  async restore(entity: string, backupId: string, filename?: string): Promise<boolean> {
+    const backupPath = this.getBackupPath(entity, backupId);
+
+    if (!backupPath) {
+      return false;
+    }
+
+    try {
+      await writeFileAtomic(this.getFilePath(entity, filename), fs.readFileSync(backupPath, "utf8"));
+      return true;
+    } catch (error) {
+      console.error(`Error restoring backup for ${entity}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * List an entity's full log files, newest first
+   */
+  private listLogSegments(entity: string): Array<{ path: string; number: number }> {
+    const entityPath = path.join(this.dataDir, entity);
+
+    if (!fs.existsSync(entityPath)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(entityPath)
+      .map((file) => ({ file, match: LOG_SEGMENT_PATTERN.exec(file) }))
+      .filter((segment): segment is { file: string; match: RegExpExecArray } => segment.match !== null)
+      .map(({ file, match }) => ({ path: path.join(entityPath, file), number: parseInt(match[1], 10) }))
+      .sort((a, b) => b.number - a.number);
+  }
+
+  /**
+   * Carry a collection the entity kept in data.json into its log. The log is only ever created from it, so finding
+   * both means an earlier run was stopped before it removed data.json, which then only needs removing.
+   */
+  private convertLegacyLog(entity: string): void {
+    if (this.convertedLogs.has(entity)) {
+      return;
+    }
+
+    const dataPath = path.join(this.dataDir, entity, DATA_FILENAME);
+    const logPath = path.join(this.dataDir, entity, LOG_FILENAME);
+
+    if (fs.existsSync(dataPath)) {
+      if (!fs.existsSync(logPath) && this.listLogSegments(entity).length === 0) {
+        const legacy = parseJsonFile<unknown>(dataPath);
+        const entries = Array.isArray(legacy) ? legacy : [];
+        writeFileAtomicSync(logPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""));
+      }
+
+      fs.rmSync(dataPath, { force: true });
+    }
+
+    this.convertedLogs.add(entity);
+  }
+
+  logs(): string[] {
+    return fs
+      .readdirSync(this.dataDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !RESERVED_ENTITIES.includes(entry.name))
+      .map((entry) => entry.name)
+      .filter((entity) =>
+        fs
+          .readdirSync(path.join(this.dataDir, entity))
+          .some((file) => file === LOG_FILENAME || LOG_SEGMENT_PATTERN.test(file))
+      );
+  }
+
+  async appendLog<T extends { id: string }>(entity: string, entries: T[], maxEntries: number): Promise<void> {
+    this.convertLegacyLog(entity);
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    const logPath = this.getFilePath(entity, LOG_FILENAME);
+
+    try {
+      let length = this.logLengths.get(entity);
+      let separator = "";
+
+      if (length === undefined) {
+        const raw = fs.existsSync(logPath) ? fs.readFileSync(logPath, "utf8") : "";
+        length = raw.split("\n").filter((line) => line.trim().length > 0).length;
+        // An append cut short leaves a partial last line, which must not swallow the next entry
+        separator = raw.length > 0 && !raw.endsWith("\n") ? "\n" : "";
+      }
+
+      const handle = await fs.promises.open(logPath, "a");
+      try {
+        await handle.writeFile(separator + entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""), "utf8");
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      length += entries.length;
+
+      if (length >= Math.ceil(maxEntries / LOG_SEGMENTS)) {
+        const segments = this.listLogSegments(entity);
+        const next = (segments[0]?.number ?? 0) + 1;
+        await fs.promises.rename(logPath, path.join(this.dataDir, entity, `log.${next}.jsonl`));
+        segments.slice(LOG_SEGMENTS - 1).forEach((segment) => fs.rmSync(segment.path, { force: true }));
+        length = 0;
+      }
+
+      this.logLengths.set(entity, length);
+    } catch (error) {
+      this.logLengths.delete(entity);
+      throw error;
+    }
+  }
+
+  readLog<T extends { id: string }>(entity: string, query: LogQuery<T>): T[] {
+    this.convertLegacyLog(entity);
+
+    const files = [path.join(this.dataDir, entity, LOG_FILENAME), ...this.listLogSegments(entity).map((s) => s.path)];
+    const entries: T[] = [];
+    let started = query.before === undefined;
+
+    for (const file of files) {
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+
+      const lines = fs.readFileSync(file, "utf8").split("\n");
+
+      for (let index = lines.length - 1; index >= 0; index--) {
+        if (query.limit !== undefined && entries.length >= query.limit) {
+          return entries;
+        }
+
+        const entry = parseLogLine<T>(lines[index]);
+        if (!entry) {
+          continue;
+        }
+
+        if (!started) {
+          started = entry.id === query.before;
+          continue;
+        }
+
+        if (!query.filter || query.filter(entry)) {
+          entries.push(entry);
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  remove(entity: string): boolean {
+    const entityPath = path.join(this.dataDir, entity);
+
+    this.logLengths.delete(entity);
+    this.convertedLogs.delete(entity);
+
+    if (!fs.existsSync(entityPath)) {
+      return false;
+    }
+
+    fs.rmSync(entityPath, { recursive: true, force: true });
+    return true;
+  }
+
+  /**
+   * Find the newest backup of an entity that still parses as JSON
+   */
+  private findNewestGoodBackup(entity: string): string | null {
+    const backup = this.listBackups(entity).find(
+      (info) => readJsonFile(path.join(this.dataDir, entity, info.id)).status === "ok"
+    );
+    return backup ? path.join(this.dataDir, entity, backup.id) : null;
+  }
+
+  /**
+   * Check every entity's data.json at startup. A corrupt file is moved aside and replaced
+   * with the newest backup that parses; leftover temp files from interrupted writes are removed.
+   * The attachment store and other workspaces' directories are not entities and are left alone.
+   */
+  private verifyDataFiles(): void {
+    const entities = fs
+      .readdirSync(this.dataDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !RESERVED_ENTITIES.includes(entry.name))
+      .map((entry) => entry.name);
+
+    for (const entity of entities) {
+      const entityPath = path.join(this.dataDir, entity);
+
+      try {
+        fs.readdirSync(entityPath)
+          .filter((file) => TEMP_FILE_PATTERN.test(file))
+          .forEach((file) => fs.rmSync(path.join(entityPath, file), { force: true }));
+
+        const filePath = path.join(entityPath, DATA_FILENAME);
+        if (!fs.existsSync(filePath) || readJsonFile(filePath).status === "ok") {
+          continue;
+        }
+
+        const corruptPath = path.join(entityPath, `corrupt_${new Date().toISOString().replace(/:/g, "-")}.json`);
+        fs.renameSync(filePath, corruptPath);
+        console.error(`Corrupt ${entity} data detected, moved to ${corruptPath}`);
+
+        const backupPath = this.findNewestGoodBackup(entity);
+        if (backupPath) {
+          fs.copyFileSync(backupPath, filePath);
+          console.warn(`Restored ${entity} data from ${backupPath}`);
+        } else {
+          console.error(`No usable backup found for ${entity}`);
+        }
+      } catch (error) {
+        console.error(`Error verifying ${entity} data:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,445 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { matchesQuery } from "./jsonFileDriver";
+import { BackupInfo, LogQuery, RecordQuery, StorageDriver, StoredDocument } from "./types";
+
+const DATA_FILENAME = "data.json";
+
+interface DocumentRow {
+  kind: "collection" | "document";
+  data: string | null;
+  revision: string;
+}
+
+/**
+ * Check whether a value is an array of records with unique string IDs, which can be stored row by row
+ */
+function isRecordCollection(data: unknown): data is Array<{ id: string }> {
+  if (!Array.isArray(data)) {
+    return false;
+  }
+
+  const ids = new Set<string>();
+  return data.every((item) => {
+    if (typeof item !== "object" || item === null || typeof item.id !== "string" || ids.has(item.id)) {
+      return false;
+    }
+    ids.add(item.id);
+    return true;
+  });
+}
+
+/**
+ * Stores entities in a single embedded SQLite database. Record collections are kept one row per
+ * record, so changing one todo only rewrites that todo's row instead of the whole collection, and
+ * each log entry is a row of its own.
+ */
+export class SqliteDriver implements StorageDriver {
+  readonly name = "sqlite" as const;
+  private db: Database.Database;
+
+  // Entities whose old collection document has been carried into their log
+  private convertedLogs = new Set<string>();
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        entity TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        data TEXT,
+        revision TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (entity, filename)
+      );
+      CREATE TABLE IF NOT EXISTS records (
+        entity TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (entity, filename, id)
+      );
+      CREATE INDEX IF NOT EXISTS records_position ON records (entity, filename, position);
+      CREATE TABLE IF NOT EXISTS backups (
+        id TEXT PRIMARY KEY,
+        entity TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS log_entries (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS log_entries_entity ON log_entries (entity, seq);
+      CREATE INDEX IF NOT EXISTS log_entries_id ON log_entries (entity, id);
+    `);
+  }
+
+  /**
+   * Check whether the database holds no data yet
+   */
+  isEmpty(): boolean {
+    return (
+      !this.db.prepare("SELECT 1 FROM documents LIMIT 1").get() &&
+      !this.db.prepare("SELECT 1 FROM log_entries LIMIT 1").get()
+    );
+  }
+
+  /**
+   * Close the database. The driver cannot be used afterwards.
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private getDocument(entity: string, filename: string): DocumentRow | undefined {
+    return this.db
+      .prepare("SELECT kind, data, revision FROM documents WHERE entity = ? AND filename = ?")
+      .get(entity, filename) as DocumentRow | undefined;
+  }
+
+  /**
+   * Serialize an entity's data back into the JSON text it would have as a file
+   */
+  private readRaw(entity: string, filename: string, document: DocumentRow): string {
+    if (document.kind === "document") {
+      return document.data ?? "null";
+    }
+
+    const rows = this.db
+      .prepare("SELECT data FROM records WHERE entity = ? AND filename = ? ORDER BY position")
+      .all(entity, filename) as Array<{ data: string }>;
+
+    return `[${rows.map((row) => row.data).join(",")}]`;
+  }
+
+  entities(): string[] {
+    const rows = this.db
+      .prepare("SELECT DISTINCT entity FROM documents WHERE filename = ?")
+      .all(DATA_FILENAME) as Array<{ entity: string }>;
+    return rows.map((row) => row.entity);
+  }
+
+  exists(entity: string, filename?: string): boolean {
+    return !!this.getDocument(entity, filename || DATA_FILENAME);
+  }
+
+  read<T>(entity: string, filename?: string): StoredDocument<T> | null {
+    const file = filename || DATA_FILENAME;
+    const document = this.getDocument(entity, file);
+
+    if (!document) {
+      return null;
+    }
+
+    try {
+      return { data: JSON.parse(this.readRaw(entity, file, document)) as T, revision: document.revision };
+    } catch (error) {
+      console.error(`Error reading ${entity} data:`, error);
+      return null;
+    }
+  }
+
+  revision(entity: string, filename?: string): string | null {
+    return this.getDocument(entity, filename || DATA_FILENAME)?.revision ?? null;
+  }
+
+  async write<T>(entity: string, data: T, filename?: string): Promise<string> {
+    return this.writeSync(entity, data, filename);
+  }
+
+  /**
+   * Replace an entity's data in a single transaction, returning the new revision
+   */
+  writeSync<T>(entity: string, data: T, filename?: string): string {
+    const file = filename || DATA_FILENAME;
+    const revision = crypto.randomBytes(10).toString("hex");
+    const now = new Date().toISOString();
+
+    const writeTransaction = this.db.transaction(() => {
+      if (!isRecordCollection(data)) {
+        this.db.prepare("DELETE FROM records WHERE entity = ? AND filename = ?").run(entity, file);
+        this.db
+          .prepare(
+            `INSERT INTO documents (entity, filename, kind, data, revision, updated_at) VALUES (?, ?, 'document', ?, ?, ?)
+             ON CONFLICT (entity, filename) DO UPDATE SET kind = 'document', data = excluded.data,
+             revision = excluded.revision, updated_at = excluded.updated_at`
+          )
+          .run(entity, file, JSON.stringify(data), revision, now);
+        return;
+      }
+
+      // Only touch rows whose content or position actually changed
+      const existing = new Map<string, { position: number; data: string }>();
+      (
+        this.db
+          .prepare("SELECT id, position, data FROM records WHERE entity = ? AND filename = ?")
+          .all(entity, file) as Array<{ id: string; position: number; data: string }>
+      ).forEach((row) => existing.set(row.id, row));
+
+      const upsert = this.db.prepare(
+        `INSERT INTO records (entity, filename, id, position, data) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (entity, filename, id) DO UPDATE SET position = excluded.position, data = excluded.data`
+      );
+      const remove = this.db.prepare("DELETE FROM records WHERE entity = ? AND filename = ? AND id = ?");
+
+      data.forEach((record, position) => {
+        const json = JSON.stringify(record);
+        const current = existing.get(record.id);
+        if (!current || current.position !== position || current.data !== json) {
+          upsert.run(entity, file, record.id, position, json);
+        }
+        existing.delete(record.id);
+      });
+
+      existing.forEach((_row, id) => remove.run(entity, file, id));
+
+      this.db
+        .prepare(
+          `INSERT INTO documents (entity, filename, kind, data, revision, updated_at) VALUES (?, ?, 'collection', NULL, ?, ?)
+           ON CONFLICT (entity, filename) DO UPDATE SET kind = 'collection', data = NULL,
+           revision = excluded.revision, updated_at = excluded.updated_at`
+        )
+        .run(entity, file, revision, now);
+    });
+
+    writeTransaction();
+    return revision;
+  }
+
+  query<T>(entity: string, query: RecordQuery, filename?: string): T[] {
+    const file = filename || DATA_FILENAME;
+    const document = this.getDocument(entity, file);
+
+    if (!document) {
+      return [];
+    }
+
+    // Plain documents are not indexed by record, so filter them in memory
+    if (document.kind === "document") {
+      const stored = this.read<Record<string, unknown>[]>(entity, file);
+      if (!stored || !Array.isArray(stored.data)) {
+        return [];
+      }
+      const matches = stored.data.filter((record) => matchesQuery(record, query));
+      return (query.limit !== undefined ? matches.slice(0, query.limit) : matches) as T[];
+    }
+
+    const conditions = ["entity = ?", "filename = ?"];
+    const params: Array<string | number> = [entity, file];
+
+    if (query.id !== undefined) {
+      conditions.push("id = ?");
+      params.push(query.id);
+    }
+
+    Object.entries(query.where || {}).forEach(([field, value]) => {
+      if (!/^[A-Za-z0-9_]+$/.test(field)) {
+        throw new Error(`Invalid query field: ${field}`);
+      }
+
+      // json_extract returns booleans as 1/0
+      conditions.push(`json_extract(data, '$.${field}') = ?`);
+      params.push(typeof value === "boolean" ? (value ? 1 : 0) : value);
+    });
+
+    let sql = `SELECT data FROM records WHERE ${conditions.join(" AND ")} ORDER BY position`;
+    if (query.limit !== undefined) {
+      sql += " LIMIT ?";
+      params.push(query.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as T);
+  }
+
+  backup(entity: string, timestamp: string, filename?: string): string | null {
+    const file = filename || DATA_FILENAME;
+    const document = this.getDocument(entity, file);
+
+    if (!document) {
+      return null;
+    }
+
+    try {
+      // The random suffix keeps two backups taken with the same timestamp apart
+      const suffix = crypto.randomBytes(4).toString("hex");
+      const backupId = `${entity}_${file.replace(/\.json$/, "")}_backup_${timestamp}_${suffix}`;
+      this.db
+        .prepare("INSERT INTO backups (id, entity, filename, created_at, data) VALUES (?, ?, ?, ?, ?)")
+        .run(backupId, entity, file, new Date().toISOString(), this.readRaw(entity, file, document));
+      return backupId;
+    } catch (error) {
+      console.error(`Error creating backup for ${entity}:`, error);
+      return null;
+    }
+  }
+
+  listBackups(entity: string): BackupInfo[] {
+    const rows = this.db
+      .prepare(
+        "SELECT id, created_at, length(CAST(data AS BLOB)) AS size FROM backups WHERE entity = ? ORDER BY created_at DESC"
+      )
+      .all(entity) as Array<{ id: string; created_at: string; size: number }>;
+
+    return rows.map((row) => ({ id: row.id, entity, createdAt: row.created_at, size: row.size }));
+  }
+
+  readBackup<T>(entity: string, backupId: string): T | null {
+    const row = this.db.prepare("SELECT data FROM backups WHERE id = ? AND entity = ?").get(backupId, entity) as
+      { data: string } | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(row.data) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  deleteBackup(entity: string, backupId: string): boolean {
+    return this.db.prepare("DELETE FROM backups WHERE id = ? AND entity = ?").run(backupId, entity).changes > 0;
+  }
+
+  async restore(entity: string, backupId: string, filename?: string): Promise<boolean> {
+    const row = this.db.prepare("SELECT data FROM backups WHERE id = ? AND entity = ?").get(backupId, entity) as
+      { data: string } | undefined;
+
+    if (!row) {
+      return false;
+    }
+
+    try {
+      await this.write(entity, JSON.parse(row.data), filename);
+      return true;
+    } catch (error) {
+      console.error(`Error restoring backup for ${entity}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Carry a collection the entity kept as its data into its log, in one transaction
+   */
+  private convertLegacyLog(entity: string): void {
+    if (this.convertedLogs.has(entity)) {
+      return;
+    }
+
+    const document = this.getDocument(entity, DATA_FILENAME);
+
+    if (document) {
+      let legacy: unknown = null;
+      try {
+        legacy = JSON.parse(this.readRaw(entity, DATA_FILENAME, document));
+      } catch (error) {
+        console.error(`Error reading ${entity} data:`, error);
+      }
+
+      const convert = this.db.transaction(() => {
+        this.insertLogEntries(entity, Array.isArray(legacy) ? legacy : []);
+        this.db.prepare("DELETE FROM records WHERE entity = ? AND filename = ?").run(entity, DATA_FILENAME);
+        this.db.prepare("DELETE FROM documents WHERE entity = ? AND filename = ?").run(entity, DATA_FILENAME);
+      });
+      convert();
+    }
+
+    this.convertedLogs.add(entity);
+  }
+
+  private insertLogEntries(entity: string, entries: Array<{ id: string }>): void {
+    const insert = this.db.prepare("INSERT INTO log_entries (entity, id, data) VALUES (?, ?, ?)");
+    entries.forEach((entry) => insert.run(entity, String(entry.id), JSON.stringify(entry)));
+  }
+
+  logs(): string[] {
+    const rows = this.db.prepare("SELECT DISTINCT entity FROM log_entries").all() as Array<{ entity: string }>;
+    return rows.map((row) => row.entity);
+  }
+
+  async appendLog<T extends { id: string }>(entity: string, entries: T[], maxEntries: number): Promise<void> {
+    this.appendLogSync(entity, entries, maxEntries);
+  }
+
+  /**
+   * Append entries to an entity's log and drop the oldest beyond `maxEntries`, in a single transaction
+   */
+  appendLogSync<T extends { id: string }>(entity: string, entries: T[], maxEntries: number): void {
+    this.convertLegacyLog(entity);
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    const appendTransaction = this.db.transaction(() => {
+      this.insertLogEntries(entity, entries);
+      this.db
+        .prepare(
+          `DELETE FROM log_entries WHERE entity = ? AND seq <=
+           (SELECT seq FROM log_entries WHERE entity = ? ORDER BY seq DESC LIMIT 1 OFFSET ?)`
+        )
+        .run(entity, entity, maxEntries);
+    });
+
+    appendTransaction();
+  }
+
+  readLog<T extends { id: string }>(entity: string, query: LogQuery<T>): T[] {
+    this.convertLegacyLog(entity);
+
+    const params: string[] = [entity];
+    let sql = "SELECT data FROM log_entries WHERE entity = ?";
+
+    if (query.before !== undefined) {
+      sql += " AND seq < (SELECT seq FROM log_entries WHERE entity = ? AND id = ?)";
+      params.push(entity, query.before);
+    }
+
+    const entries: T[] = [];
+    if (query.limit === 0) {
+      return entries;
+    }
+
+    // Rows are read one at a time, so a page stops reading once it is full
+    for (const row of this.db.prepare(`${sql} ORDER BY seq DESC`).iterate(...params) as Iterable<{ data: string }>) {
+      const entry = JSON.parse(row.data) as T;
+      if (query.filter && !query.filter(entry)) {
+        continue;
+      }
+
+      entries.push(entry);
+      if (entries.length === query.limit) {
+        break;
+      }
+    }
+
+    return entries;
+  }
+
+  remove(entity: string): boolean {
+    this.convertedLogs.delete(entity);
+
+    const removeAll = this.db.transaction(() => {
+      const documents = this.db.prepare("DELETE FROM documents WHERE entity = ?").run(entity).changes;
+      this.db.prepare("DELETE FROM records WHERE entity = ?").run(entity);
+      const backups = this.db.prepare("DELETE FROM backups WHERE entity = ?").run(entity).changes;
+      const logEntries = this.db.prepare("DELETE FROM log_entries WHERE entity = ?").run(entity).changes;
+      return documents + backups + logEntries > 0;
+    });
+
+    return removeAll();
+  }
+}
@@ -0,0 +1,122 @@
+export type StorageDriverName = "json" | "sqlite";
+
+/**
+ * Data read from a driver together with the revision of that exact copy
+ */
+export interface StoredDocument<T> {
+  data: T;
+  revision: string;
+}
+
+/**
+ * Filter for querying records in a collection. `where` matches top-level fields by equality.
+ */
+export interface RecordQuery {
+  id?: string;
+  where?: Record<string, string | number | boolean>;
+  limit?: number;
+}
+
+/**
+ * Page of an append-only log, read newest entry first. `before` continues after the entry with that ID, as the
+ * last entry of the previous page.
+ */
+export interface LogQuery<T> {
+  filter?: (entry: T) => boolean;
+  before?: string;
+  limit?: number;
+}
+
+/**
+ * A stored snapshot of an entity's data. The ID is opaque to callers and only meaningful to the driver that made it.
+ */
+export interface BackupInfo {
+  id: string;
+  entity: string;
+  createdAt: string;
+  size: number;
+}
+
+/**
+ * A storage backend for entity data. Every entity holds one JSON value per filename
+ * (data.json by default); arrays of records with an `id` are collections that can be queried.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  /**
+   * List the entities that have data stored
+   */
+  entities(): string[];
+
+  /**
+   * Check whether an entity has data stored
+   */
+  exists(entity: string, filename?: string): boolean;
+
+  /**
+   * Read an entity's data, or null if there is none
+   */
+  read<T>(entity: string, filename?: string): StoredDocument<T> | null;
+
+  /**
+   * Get the current revision of an entity's data, or null if there is none
+   */
+  revision(entity: string, filename?: string): string | null;
+
+  /**
+   * Replace an entity's data, returning the new revision. Throws if the write fails.
+   */
+  write<T>(entity: string, data: T, filename?: string): Promise<string>;
+
+  /**
+   * Find records in a collection without loading the rest of it where the backend allows
+   */
+  query<T>(entity: string, query: RecordQuery, filename?: string): T[];
+
+  /**
+   * Snapshot an entity's data, returning the backup ID or null if there is nothing to back up
+   */
+  backup(entity: string, timestamp: string, filename?: string): string | null;
+
+  /**
+   * List an entity's backups, newest first
+   */
+  listBackups(entity: string): BackupInfo[];
+
+  /**
+   * Read the data held in one of an entity's backups, or null if there is no such backup
+   */
+  readBackup<T>(entity: string, backupId: string): T | null;
+
+  /**
+   * Delete one of an entity's backups, returning false if there is no such backup
+   */
+  deleteBackup(entity: string, backupId: string): boolean;
+
+  /**
+   * Replace an entity's data with a snapshot taken by backup(). Returns false if the backup does not exist.
+   */
+  restore(entity: string, backupId: string, filename?: string): Promise<boolean>;
+
+  /**
+   * List the entities that have a log stored
+   */
+  logs(): string[];
+
+  /**
+   * Append entries to an entity's log, flushed to disk before it resolves, then drop the oldest entries beyond
+   * `maxEntries`. Data an entity held as a plain collection before is carried into the log the first time it is used.
+   */
+  appendLog<T extends { id: string }>(entity: string, entries: T[], maxEntries: number): Promise<void>;
+
+  /**
+   * Read a page of an entity's log, newest first, without loading more of it than the page needs
+   */
+  readLog<T extends { id: string }>(entity: string, query: LogQuery<T>): T[];
+
+  /**
+   * Delete an entity altogether, every file, backup and log entry of it. Returns false if nothing was stored for it.
+   */
+  remove(entity: string): boolean;
+}
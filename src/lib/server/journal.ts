@@ -0,0 +1,179 @@
+import { generateId } from "@/lib/utils";
+import { appendLog, readLog } from "./storage";
+
+export const JOURNAL_ENTITY = "journal";
+
+// Entities whose record changes are written to the journal
+export const JOURNALED_ENTITIES = ["todos", "projects", "notes", "notifications"];
+
+// Entries the journal keeps; the oldest are dropped as new ones are appended
+export const MAX_JOURNAL_ENTRIES = 50000;
+
+// Entries a query returns when it sets no limit
+export const DEFAULT_JOURNAL_LIMIT = 100;
+
+export type JournalAction = "create" | "update" | "delete";
+
+/**
+ * A field's value before and after a change. A missing side means the field did not exist.
+ */
+export interface FieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * One create, update or delete of a record, with the fields it changed
+ */
+export interface JournalEntry {
+  id: string;
+  entity: string;
+  recordId: string;
+  action: JournalAction;
+  changes: Record<string, FieldChange>;
+  timestamp: string;
+}
+
+/**
+ * Filter for reading the journal. `from` and `to` are inclusive ISO timestamps; `before` is the ID of the last entry
+ * of the previous page.
+ */
+export interface JournalQuery {
+  entity?: string;
+  recordId?: string;
+  from?: string;
+  to?: string;
+  before?: string;
+  limit?: number;
+}
+
+type JournaledRecord = Record<string, unknown> & { id: string };
+
+// Bumped on every change, so it would make every update look like it touched a field
+const IGNORED_FIELDS = new Set(["updatedAt", "revision"]);
+
+function isJournaledRecord(value: unknown): value is JournaledRecord {
+  return typeof value === "object" && value !== null && typeof (value as JournaledRecord).id === "string";
+}
+
+/**
+ * Field-level diff between two versions of a record. Either side may be null for a create or delete.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field) && before && after) {
+      return;
+    }
+
+    const from = before?.[field];
+    const to = after?.[field];
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = {
+        ...(from !== undefined ? { from } : {}),
+        ...(to !== undefined ? { to } : {}),
+      };
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Build the journal entry for one record change, or null if nothing worth recording changed
+ */
+function toEntry(entity: string, before: JournaledRecord | null, after: JournaledRecord | null): JournalEntry | null {
+  const record = after || before;
+  if (!record) {
+    return null;
+  }
+
+  const changes = diffRecords(before, after);
+  if (Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  return {
+    id: generateId(),
+    entity,
+    recordId: record.id,
+    action: !before ? "create" : !after ? "delete" : "update",
+    changes,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Append entries to the journal. Failures are logged rather than thrown, so a journal
+ * problem never fails the change it describes.
+ */
+async function appendJournal(entries: JournalEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  try {
+    await appendLog(JOURNAL_ENTITY, entries, MAX_JOURNAL_ENTRIES);
+  } catch (error) {
+    console.error("Error appending to journal:", error);
+  }
+}
+
+/**
+ * Record a change to a single record. Pass null as `before` for a create and as `after` for a delete.
+ */
+export function journalRecordChange(entity: string, before: unknown, after: unknown): Promise<void> {
+  const entry = toEntry(entity, isJournaledRecord(before) ? before : null, isJournaledRecord(after) ? after : null);
+  return appendJournal(entry ? [entry] : []);
+}
+
+/**
+ * Record every record change between two versions of a whole collection
+ */
+export function journalCollectionChange(entity: string, before: unknown, after: unknown): Promise<void> {
+  if (!JOURNALED_ENTITIES.includes(entity)) {
+    return Promise.resolve();
+  }
+
+  const beforeById = new Map(
+    (Array.isArray(before) ? before.filter(isJournaledRecord) : []).map((record) => [record.id, record])
+  );
+  const afterRecords = Array.isArray(after) ? after.filter(isJournaledRecord) : [];
+
+  const entries = afterRecords.map((record) => {
+    const previous = beforeById.get(record.id) || null;
+    beforeById.delete(record.id);
+    return toEntry(entity, previous, record);
+  });
+  beforeById.forEach((record) => entries.push(toEntry(entity, record, null)));
+
+  return appendJournal(entries.filter((entry): entry is JournalEntry => entry !== null));
+}
+
+/**
+ * Read a page of journal entries matching a query, newest first
+ */
+export function queryJournal(query: JournalQuery): JournalEntry[] {
+  const from = query.from ? new Date(query.from).getTime() : -Infinity;
+  const to = query.to ? new Date(query.to).getTime() : Infinity;
+
+  return readLog<JournalEntry>(JOURNAL_ENTITY, {
+    filter: (entry) => {
+      const time = new Date(entry.timestamp).getTime();
+      return (
+        (!query.entity || entry.entity === query.entity) &&
+        (!query.recordId || entry.recordId === query.recordId) &&
+        time >= from &&
+        time <= to
+      );
+    },
+    before: query.before,
+    limit: query.limit ?? DEFAULT_JOURNAL_LIMIT,
+  });
+}
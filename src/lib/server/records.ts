@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRecordRevision, RecordEntity, RecordRepository, RecordWriteResult, StoredRecord } from "./repository";
+import { ensureMigrated } from "./schema";
+import { parseIfMatch, toEtag } from "./storage";
+import { withWorkspace } from "./workspaces";
+
+/**
+ * Build the JSON response for a conditional record write
+ */
+function respondToWrite<T extends StoredRecord>(entity: RecordEntity, id: string, result: RecordWriteResult<T>) {
+  if (result.status === "not-found") {
+    return NextResponse.json({ error: `Record ${id} not found in ${entity}` }, { status: 404 });
+  }
+
+  if (result.status === "invalid") {
+    return NextResponse.json({ error: `Invalid ${entity} record`, errors: result.errors }, { status: 422 });
+  }
+
+  if (result.status === "conflict") {
+    return NextResponse.json(
+      { error: `Record ${id} in ${entity} has been modified since it was read`, current: result.current },
+      { status: 409, headers: { ETag: toEtag(getRecordRevision(result.current)) } }
+    );
+  }
+
+  if (!result.record) {
+    return NextResponse.json({ success: true });
+  }
+
+  return NextResponse.json(result.record, { headers: { ETag: toEtag(getRecordRevision(result.record)) } });
+}
+
+/**
+ * Check that a request body is a plain JSON object
+ */
+function isRecordPayload(body: unknown): body is Record<string, unknown> {
+  return typeof body === "object" && body !== null && !Array.isArray(body);
+}
+
+/**
+ * Build the GET/POST handlers for a collection route such as /api/todos
+ */
+export function createCollectionHandlers<T extends StoredRecord>(repository: RecordRepository<T>) {
+  const { entity } = repository;
+
+  return {
+    GET: withWorkspace(async () => {
+      await ensureMigrated();
+      return NextResponse.json(repository.list());
+    }),
+
+    POST: withWorkspace(async (request: NextRequest) => {
+      await ensureMigrated();
+
+      try {
+        const body = await request.json();
+
+        if (!isRecordPayload(body)) {
+          return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+        }
+
+        const result = await repository.insert(body as Partial<T>);
+
+        if (result.status === "conflict") {
+          return NextResponse.json({ error: `Record ${body.id} already exists in ${entity}` }, { status: 409 });
+        }
+
+        if (result.status !== "ok" || !result.record) {
+          return respondToWrite(entity, String(body.id ?? ""), result);
+        }
+
+        return NextResponse.json(result.record, {
+          status: 201,
+          headers: { ETag: toEtag(getRecordRevision(result.record)) },
+        });
+      } catch (error) {
+        console.error(`Error in POST handler for ${entity}:`, error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+      }
+    }),
+  };
+}
+
+/**
+ * Build the GET/PATCH/DELETE handlers for a record route such as /api/todos/[id]
+ */
+export function createRecordHandlers<T extends StoredRecord>(repository: RecordRepository<T>) {
+  const { entity } = repository;
+
+  return {
+    GET: withWorkspace(async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const { id } = await params;
+      await ensureMigrated();
+      const record = repository.find(id);
+
+      if (!record) {
+        return NextResponse.json({ error: `Record ${id} not found in ${entity}` }, { status: 404 });
+      }
+
+      return NextResponse.json(record, { headers: { ETag: toEtag(getRecordRevision(record)) } });
+    }),
+
+    PATCH: withWorkspace(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const { id } = await params;
+      await ensureMigrated();
+
+      try {
+        const body = await request.json();
+
+        if (!isRecordPayload(body)) {
+          return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+        }
+
+        const result = await repository.patch(id, body as Partial<T>, parseIfMatch(request.headers.get("If-Match")));
+        return respondToWrite(entity, id, result);
+      } catch (error) {
+        console.error(`Error in PATCH handler for ${entity}/${id}:`, error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+      }
+    }),
+
+    DELETE: withWorkspace(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const { id } = await params;
+      await ensureMigrated();
+
+      try {
+        const result = await repository.remove(id, parseIfMatch(request.headers.get("If-Match")));
+        return respondToWrite(entity, id, result);
+      } catch (error) {
+        console.error(`Error in DELETE handler for ${entity}/${id}:`, error);
+        return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+      }
+    }),
+  };
+}
@@ -0,0 +1,305 @@
+import { generateId } from "@/lib/utils";
+import { FieldError, validateRecord } from "@/lib/validation";
+import type { AppData, AppSettings, InitialAppData, Note, NotificationData, Project, Todo } from "@/types";
+import { publishChange } from "./changes";
+import { journalRecordChange } from "./journal";
+import { ensureMigrated } from "./schema";
+import { enqueueWrite, queryData, readData, writeDataUnqueued } from "./storage";
+import { runInPageWorkspace } from "./workspaces";
+
+export type RecordEntity = "todos" | "projects" | "notes" | "notifications";
+
+const RECORD_ENTITIES: RecordEntity[] = ["todos", "projects", "notes", "notifications"];
+
+export interface StoredRecord {
+  id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  revision?: number;
+}
+
+export type RecordWriteResult<T> =
+  | { status: "ok"; record: T | null }
+  | { status: "not-found" }
+  | { status: "conflict"; current: T }
+  | { status: "invalid"; errors: FieldError[] };
+
+/**
+ * Reads and writes one collection of records. Writes are validated, journaled and announced to open clients.
+ */
+export interface RecordRepository<T extends StoredRecord> {
+  readonly entity: RecordEntity;
+
+  /**
+   * Read every record, treating a missing collection as an empty one
+   */
+  list(): T[];
+
+  /**
+   * Find a single record by ID
+   */
+  find(id: string): T | null;
+
+  /**
+   * Insert a record, stamped with the server's updatedAt and its first revision. A record with the same ID that
+   * already exists is reported as a conflict.
+   */
+  insert(record: Partial<T>): Promise<RecordWriteResult<T>>;
+
+  /**
+   * Merge a partial update into a record. Fields set to null in the patch are removed from the record, and the
+   * patch's id, createdAt, updatedAt and revision are ignored. When an expected revision is given, the update is
+   * refused if the record has changed since.
+   */
+  patch(id: string, patch: Partial<T>, expectedRevision?: string | null): Promise<RecordWriteResult<T>>;
+
+  /**
+   * Remove a record. When an expected revision is given, the delete is refused if the record has changed since.
+   */
+  remove(id: string, expectedRevision?: string | null): Promise<RecordWriteResult<T>>;
+}
+
+const SETTINGS_ENTITY = "settings";
+
+// What a workspace that never saved its settings starts with, the same as a new client does
+export const DEFAULT_SETTINGS: AppSettings = {
+  theme: "system",
+  notifications: true,
+  completionGoal: 5,
+  workingHours: {
+    start: "09:00",
+    end: "17:00",
+  },
+  useServerStorage: true,
+};
+
+/**
+ * A record's revision is a counter only the server moves, once for every write that changes the record. Records
+ * stored before revisions were kept count as revision 0 until they are next written.
+ */
+export function getRecordRevision(record: StoredRecord): string {
+  return String(record.revision ?? 0);
+}
+
+function nextRevision(record: StoredRecord | undefined): number {
+  return (record?.revision ?? 0) + 1;
+}
+
+/**
+ * Give the records of a collection written whole the revisions the server would have given them one by one:
+ * a record that changed moves one past its stored revision and an unchanged one keeps it, whatever the writer
+ * sent. Anything other than a record collection is returned as it is.
+ */
+export function stampRecordRevisions<T>(entity: string, previous: unknown, data: T): T {
+  if (!RECORD_ENTITIES.includes(entity as RecordEntity) || !Array.isArray(data)) {
+    return data;
+  }
+
+  const stored = new Map<string, StoredRecord>(
+    (Array.isArray(previous) ? previous : [])
+      .filter((record): record is StoredRecord => typeof record?.id === "string")
+      .map((record) => [record.id, record])
+  );
+  const withoutRevision = (record: StoredRecord) => JSON.stringify({ ...record, revision: undefined });
+
+  return data.map((record) => {
+    if (typeof record !== "object" || record === null || typeof record.id !== "string") {
+      return record;
+    }
+
+    const current = stored.get(record.id);
+    const unchanged = current && withoutRevision(current) === withoutRevision(record);
+    return { ...record, revision: unchanged ? (current.revision ?? 0) : nextRevision(current) };
+  }) as T;
+}
+
+/**
+ * Map each record of a collection to its revision, for the clients that wrote it whole. Returns null for anything
+ * other than a record collection.
+ */
+export function getRecordRevisions(entity: string, data: unknown): Record<string, string> | null {
+  if (!RECORD_ENTITIES.includes(entity as RecordEntity) || !Array.isArray(data)) {
+    return null;
+  }
+
+  const revisions: Record<string, string> = {};
+  data.forEach((record) => {
+    if (typeof record?.id === "string") {
+      revisions[record.id] = getRecordRevision(record);
+    }
+  });
+  return revisions;
+}
+
+/**
+ * Persist a full collection, throwing if the write fails
+ */
+async function saveRecords<T extends StoredRecord>(entity: RecordEntity, records: T[]): Promise<void> {
+  if (!(await writeDataUnqueued(entity, records))) {
+    throw new Error(`Failed to write data for ${entity}`);
+  }
+}
+
+/**
+ * Build the repository for a collection of records
+ */
+export function createRecordRepository<T extends StoredRecord>(entity: RecordEntity): RecordRepository<T> {
+  const list = (): T[] => {
+    const records = readData<T[]>(entity);
+    return Array.isArray(records) ? records : [];
+  };
+
+  return {
+    entity,
+
+    list,
+
+    find(id) {
+      return queryData<T>(entity, { id, limit: 1 })[0] || null;
+    },
+
+    insert(record) {
+      return enqueueWrite(entity, async (): Promise<RecordWriteResult<T>> => {
+        const records = list();
+        const now = new Date().toISOString();
+
+        const newRecord = {
+          ...record,
+          id: record.id || generateId(),
+          createdAt: record.createdAt || now,
+          updatedAt: now,
+          revision: 1,
+        } as T;
+
+        const existing = records.find((current) => current.id === newRecord.id);
+        if (existing) {
+          return { status: "conflict", current: existing };
+        }
+
+        const errors = validateRecord(entity, newRecord);
+        if (errors.length > 0) {
+          return { status: "invalid", errors };
+        }
+
+        await saveRecords(entity, [...records, newRecord]);
+        await journalRecordChange(entity, null, newRecord);
+        publishChange({ kind: "upsert", entity, id: newRecord.id, record: newRecord });
+        return { status: "ok", record: newRecord };
+      });
+    },
+
+    patch(id, patch, expectedRevision) {
+      return enqueueWrite(entity, async (): Promise<RecordWriteResult<T>> => {
+        const records = list();
+        const index = records.findIndex((record) => record.id === id);
+
+        if (index === -1) {
+          return { status: "not-found" };
+        }
+
+        if (expectedRevision && getRecordRevision(records[index]) !== expectedRevision) {
+          return { status: "conflict", current: records[index] };
+        }
+
+        const updatedRecord: Record<string, unknown> = { ...records[index], ...patch };
+
+        Object.entries(patch).forEach(([key, value]) => {
+          if (value === null) {
+            delete updatedRecord[key];
+          }
+        });
+
+        // Only the server may move a record's timestamps and revision
+        updatedRecord.id = id;
+        updatedRecord.createdAt = records[index].createdAt;
+        updatedRecord.updatedAt = new Date().toISOString();
+        updatedRecord.revision = nextRevision(records[index]);
+
+        const errors = validateRecord(entity, updatedRecord);
+        if (errors.length > 0) {
+          return { status: "invalid", errors };
+        }
+
+        const previous = records[index];
+        records[index] = updatedRecord as unknown as T;
+        await saveRecords(entity, records);
+        await journalRecordChange(entity, previous, records[index]);
+        publishChange({ kind: "upsert", entity, id, record: records[index] });
+
+        return { status: "ok", record: records[index] };
+      });
+    },
+
+    remove(id, expectedRevision) {
+      return enqueueWrite(entity, async (): Promise<RecordWriteResult<T>> => {
+        const records = list();
+        const existing = records.find((record) => record.id === id);
+
+        if (!existing) {
+          return { status: "not-found" };
+        }
+
+        if (expectedRevision && getRecordRevision(existing) !== expectedRevision) {
+          return { status: "conflict", current: existing };
+        }
+
+        await saveRecords(
+          entity,
+          records.filter((record) => record.id !== id)
+        );
+        await journalRecordChange(entity, existing, null);
+        publishChange({ kind: "delete", entity, id });
+        return { status: "ok", record: null };
+      });
+    },
+  };
+}
+
+export const todoRepository = createRecordRepository<Todo>("todos");
+export const projectRepository = createRecordRepository<Project>("projects");
+export const noteRepository = createRecordRepository<Note>("notes");
+export const notificationRepository = createRecordRepository<NotificationData>("notifications");
+
+/**
+ * Reads the workspace's settings, which are a single document rather than a collection
+ */
+export const settingsRepository = {
+  /**
+   * Read the settings, falling back to the defaults for a workspace that never saved any
+   */
+  get(): AppSettings {
+    const settings = readData<AppSettings>(SETTINGS_ENTITY);
+    return settings && typeof settings === "object" ? settings : DEFAULT_SETTINGS;
+  },
+};
+
+/**
+ * Read everything the app shows on its first render. Data is migrated first, like it is before any route serves it.
+ */
+async function loadAppData(): Promise<AppData> {
+  await ensureMigrated();
+
+  return {
+    todos: todoRepository.list(),
+    projects: projectRepository.list(),
+    notes: noteRepository.list(),
+    settings: settingsRepository.get(),
+  };
+}
+
+/**
+ * Load the first render's data for server components, from the workspace the browser last opened. Returns null
+ * when the browser keeps its data in local storage instead, or when the data cannot be read, and the client
+ * loads it itself.
+ */
+export async function loadInitialAppData(): Promise<InitialAppData | null> {
+  try {
+    return await runInPageWorkspace(async (workspaceId) => {
+      const data = await loadAppData();
+      return data.settings.useServerStorage === false ? null : { ...data, workspaceId };
+    });
+  } catch (error) {
+    console.error("Error loading initial app data:", error);
+    return null;
+  }
+}
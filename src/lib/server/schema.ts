@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import {
+  CURRENT_SCHEMA_VERSION,
+  INITIAL_SCHEMA_VERSION,
+  MIGRATED_ENTITIES,
+  migrateEntityData,
+  needsMigration,
+} from "@/lib/migrations";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces";
+import { createBackup, enqueueWrite, readData, writeDataUnqueued } from "./storage";
+import { currentWorkspaceId } from "./workspaceContext";
+
+export const METADATA_ENTITY = "metadata";
+
+// Where versions before the storage API kept the app's data, as one appData.json with its own metadata.json
+const LEGACY_DATA_DIR = path.join(process.cwd(), "src", "data");
+
+// Migration run per workspace
+const migrations = new Map<string, Promise<void>>();
+
+/**
+ * Thrown while a workspace's stored data cannot be migrated, so nothing reads or writes it in its old shape
+ */
+export class MigrationError extends Error {
+  constructor(cause: unknown) {
+    super(`Stored data could not be upgraded: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "MigrationError";
+  }
+}
+
+/**
+ * Merge fields into the stored metadata, throwing if the write fails
+ */
+async function updateMetadata(changes: Record<string, unknown>): Promise<void> {
+  await enqueueWrite(METADATA_ENTITY, async () => {
+    const latest = readData<Record<string, unknown>>(METADATA_ENTITY) || {};
+    if (!(await writeDataUnqueued(METADATA_ENTITY, { ...latest, ...changes }))) {
+      throw new Error("Failed to write metadata");
+    }
+  });
+}
+
+/**
+ * Upgrade every stored entity to the current schema version, backing each one up first,
+ * then record the version in metadata. Each entity's new version is recorded as soon as it is written, so a
+ * run that failed part way never migrates or backs up an entity twice when it is retried.
+ */
+async function runMigrations(): Promise<void> {
+  const metadata = readData<Record<string, unknown>>(METADATA_ENTITY);
+  const fromVersion = typeof metadata?.version === "string" ? metadata.version : INITIAL_SCHEMA_VERSION;
+
+  if (!needsMigration(fromVersion)) {
+    return;
+  }
+
+  // Versions of the entities an earlier, unfinished run already migrated
+  const entityVersions = { ...((metadata?.entityVersions as Record<string, string> | undefined) || {}) };
+  const timestamp = `pre-${CURRENT_SCHEMA_VERSION}_${new Date().toISOString().replace(/:/g, "-")}`;
+
+  for (const entity of MIGRATED_ENTITIES) {
+    const entityVersion = entityVersions[entity] || fromVersion;
+    if (!needsMigration(entityVersion)) {
+      continue;
+    }
+
+    const migrated = await enqueueWrite(entity, async () => {
+      const data = readData(entity);
+      if (data === null) {
+        return false;
+      }
+
+      if (!createBackup(entity, timestamp)) {
+        throw new Error(`Failed to back up ${entity} before migrating`);
+      }
+
+      if (!(await writeDataUnqueued(entity, migrateEntityData(entity, data, entityVersion)))) {
+        throw new Error(`Failed to write migrated ${entity} data`);
+      }
+
+      return true;
+    });
+
+    if (migrated) {
+      entityVersions[entity] = CURRENT_SCHEMA_VERSION;
+      await updateMetadata({ entityVersions });
+    }
+  }
+
+  await updateMetadata({
+    version: CURRENT_SCHEMA_VERSION,
+    migratedFrom: fromVersion,
+    migratedAt: new Date().toISOString(),
+    entityVersions: undefined,
+  });
+
+  console.log(`Migrated stored data from schema ${fromVersion} to ${CURRENT_SCHEMA_VERSION}`);
+}
+
+/**
+ * Copy the data older versions kept in src/data/appData.json into the default workspace, once, upgraded to the
+ * current schema. Entities the workspace already holds records or settings for are left alone.
+ */
+async function importLegacyData(): Promise<void> {
+  const appDataPath = path.join(LEGACY_DATA_DIR, "appData.json");
+  const metadata = readData<Record<string, unknown>>(METADATA_ENTITY);
+
+  if (currentWorkspaceId() !== DEFAULT_WORKSPACE_ID || metadata?.legacyDataImportedAt || !fs.existsSync(appDataPath)) {
+    return;
+  }
+
+  let appData: Record<string, unknown>;
+  let legacyVersion = INITIAL_SCHEMA_VERSION;
+  try {
+    appData = JSON.parse(fs.readFileSync(appDataPath, "utf8"));
+    const metadataPath = path.join(LEGACY_DATA_DIR, "metadata.json");
+    if (fs.existsSync(metadataPath)) {
+      legacyVersion = JSON.parse(fs.readFileSync(metadataPath, "utf8")).version || INITIAL_SCHEMA_VERSION;
+    }
+  } catch (error) {
+    // Left unmarked, so a repaired file is imported on the next start
+    console.error(`Error reading ${appDataPath}, not importing it:`, error);
+    return;
+  }
+
+  for (const entity of MIGRATED_ENTITIES) {
+    const legacy = appData[entity];
+    if (legacy === undefined || legacy === null || (Array.isArray(legacy) && legacy.length === 0)) {
+      continue;
+    }
+
+    const imported = await enqueueWrite(entity, async () => {
+      const current = readData(entity);
+      if (current !== null && !(Array.isArray(current) && current.length === 0)) {
+        return false;
+      }
+
+      if (!(await writeDataUnqueued(entity, migrateEntityData(entity, legacy, legacyVersion)))) {
+        throw new Error(`Failed to write imported ${entity} data`);
+      }
+
+      return true;
+    });
+
+    if (imported) {
+      console.log(`Imported ${entity} from ${appDataPath}`);
+    }
+  }
+
+  await updateMetadata({ legacyDataImportedAt: new Date().toISOString() });
+}
+
+/**
+ * Make sure stored data has been migrated, and data kept in src/data imported, before it is served. Runs once per
+ * workspace and server process. A failed migration rejects with a MigrationError and is retried on the next request,
+ * picking up with the entities it had not finished.
+ */
+export function ensureMigrated(): Promise<void> {
+  const workspaceId = currentWorkspaceId();
+  let migration = migrations.get(workspaceId);
+
+  if (!migration) {
+    migration = runMigrations()
+      .then(importLegacyData)
+      .catch((error) => {
+        console.error("Error migrating stored data:", error);
+        migrations.delete(workspaceId);
+        throw new MigrationError(error);
+      });
+    migrations.set(workspaceId, migration);
+  }
+
+  return migration;
+}
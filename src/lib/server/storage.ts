@@ -0,0 +1,211 @@
+import { BackupInfo, getDriver, LogQuery, RecordQuery } from "./drivers";
+import { currentWorkspaceId } from "./workspaceContext";
+
+// Pending write chain per workspace and entity, so writes to the same entity never interleave
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export type ConditionalWriteResult<T> =
+  | { status: "written"; revision: string; previous: T | null; data: T }
+  | { status: "conflict"; current: T | null; revision: string | null }
+  | { status: "failed" };
+
+/**
+ * Sanitize an entity name to prevent directory traversal
+ */
+export function sanitizeEntity(entity: string): string {
+  return entity.replace(/[^a-zA-Z0-9_-]/g, "");
+}
+
+/**
+ * Check that a file name inside an entity is a bare name, with no path separators or parent references
+ */
+export function isValidFilename(filename: string): boolean {
+  return /^[a-zA-Z0-9_-]+(\.[a-zA-Z0-9_-]+)*$/.test(filename);
+}
+
+/**
+ * Run a task after every previously queued write for the same entity has finished.
+ * Read-modify-write sequences should run inside a single task so they cannot lose updates.
+ */
+export function enqueueWrite<T>(entity: string, task: () => Promise<T> | T): Promise<T> {
+  const queueKey = `${currentWorkspaceId()}/${entity}`;
+  const previous = writeQueues.get(queueKey) || Promise.resolve();
+  const next = previous.then(task);
+
+  // Keep the chain alive even if this task fails
+  const settled = next.catch(() => undefined);
+  writeQueues.set(queueKey, settled);
+  settled.then(() => {
+    if (writeQueues.get(queueKey) === settled) {
+      writeQueues.delete(queueKey);
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Check whether an entity has data stored
+ */
+export function dataExists(entity: string, filename?: string): boolean {
+  return getDriver().exists(entity, filename);
+}
+
+/**
+ * Helper function to read an entity's data
+ */
+export function readData<T>(entity: string, filename?: string): T | null {
+  return getDriver().read<T>(entity, filename)?.data ?? null;
+}
+
+/**
+ * Find matching records in an entity's collection
+ */
+export function queryData<T>(entity: string, query: RecordQuery, filename?: string): T[] {
+  return getDriver().query<T>(entity, query, filename);
+}
+
+/**
+ * Get the current revision of an entity's data, or null if there is none
+ */
+export function getRevision(entity: string, filename?: string): string | null {
+  return getDriver().revision(entity, filename);
+}
+
+/**
+ * Read data together with the revision of the exact copy that was read
+ */
+export function readDataWithRevision<T>(entity: string, filename?: string): { data: T; revision: string } | null {
+  return getDriver().read<T>(entity, filename);
+}
+
+/**
+ * Format a revision as a strong ETag header value
+ */
+export function toEtag(revision: string): string {
+  return `"${revision}"`;
+}
+
+/**
+ * Extract the expected revision from an If-Match header. Returns null for a missing header or the "*" wildcard.
+ */
+export function parseIfMatch(header: string | null): string | null {
+  if (!header || header.trim() === "*") {
+    return null;
+  }
+
+  return header
+    .trim()
+    .replace(/^W\//, "")
+    .replace(/^"(.*)"$/, "$1");
+}
+
+/**
+ * Helper function to write an entity's data. Must only be called from inside an enqueueWrite task.
+ */
+export async function writeDataUnqueued<T>(entity: string, data: T, filename?: string): Promise<boolean> {
+  try {
+    await getDriver().write(entity, data, filename);
+    return true;
+  } catch (error) {
+    console.error(`Error writing ${entity} data:`, error);
+    return false;
+  }
+}
+
+/**
+ * Helper function to write an entity's data through the entity's write queue
+ */
+export function writeData<T>(entity: string, data: T, filename?: string): Promise<boolean> {
+  return enqueueWrite(entity, () => writeDataUnqueued(entity, data, filename));
+}
+
+/**
+ * Write data only if it is still at the expected revision. A null expected revision writes unconditionally.
+ * `prepare` can adjust the data against what it replaces, in the same queued task.
+ */
+export function writeDataIfMatch<T>(
+  entity: string,
+  data: T,
+  expectedRevision: string | null,
+  filename?: string,
+  prepare: (data: T, previous: T | null) => T = (value) => value
+): Promise<ConditionalWriteResult<T>> {
+  return enqueueWrite(entity, async (): Promise<ConditionalWriteResult<T>> => {
+    const driver = getDriver();
+    const currentRevision = driver.revision(entity, filename);
+
+    if (expectedRevision && currentRevision !== expectedRevision) {
+      return { status: "conflict", current: readData<T>(entity, filename), revision: currentRevision };
+    }
+
+    try {
+      const previous = readData<T>(entity, filename);
+      const written = prepare(data, previous);
+      return { status: "written", revision: await driver.write(entity, written, filename), previous, data: written };
+    } catch (error) {
+      console.error(`Error writing ${entity} data:`, error);
+      return { status: "failed" };
+    }
+  });
+}
+
+/**
+ * Delete an entity's data and backups through the entity's write queue. Resolves to what the entity held,
+ * or removed false if nothing was stored for it.
+ */
+export function removeData<T>(entity: string): Promise<{ removed: boolean; previous: T | null }> {
+  return enqueueWrite(entity, () => {
+    const previous = readData<T>(entity);
+    return { removed: getDriver().remove(entity), previous };
+  });
+}
+
+/**
+ * Append entries to an entity's log through the entity's write queue, keeping at most `maxEntries` of them
+ */
+export function appendLog<T extends { id: string }>(entity: string, entries: T[], maxEntries: number): Promise<void> {
+  return enqueueWrite(entity, () => getDriver().appendLog(entity, entries, maxEntries));
+}
+
+/**
+ * Read a page of an entity's log, newest first
+ */
+export function readLog<T extends { id: string }>(entity: string, query: LogQuery<T>): T[] {
+  return getDriver().readLog(entity, query);
+}
+
+/**
+ * Helper function to create a backup, returning its ID
+ */
+export function createBackup(entity: string, timestamp: string, filename?: string): string | null {
+  return getDriver().backup(entity, timestamp, filename);
+}
+
+/**
+ * List an entity's backups, newest first
+ */
+export function listBackups(entity: string): BackupInfo[] {
+  return getDriver().listBackups(entity);
+}
+
+/**
+ * Read the data held in a backup, or null if the entity has no backup with that ID
+ */
+export function readBackup<T>(entity: string, backupId: string): T | null {
+  return getDriver().readBackup<T>(entity, backupId);
+}
+
+/**
+ * Delete a backup, returning false if the entity has no backup with that ID
+ */
+export function deleteBackup(entity: string, backupId: string): boolean {
+  return getDriver().deleteBackup(entity, backupId);
+}
+
+/**
+ * Helper function to restore from a backup through the entity's write queue
+ */
+export function restoreFromBackup(entity: string, backupId: string, filename?: string): Promise<boolean> {
+  return enqueueWrite(entity, () => getDriver().restore(entity, backupId, filename));
+}
@@ -0,0 +1,362 @@
+import { findAttachmentHashes } from "@/lib/attachments";
+import type { Note, NoteVersion } from "@/types";
+import { deleteAttachment, listAttachments, StoredAttachment } from "./attachments";
+import { publishChange } from "./changes";
+import { getDriver, StorageDriver } from "./drivers";
+import { JOURNAL_ENTITY } from "./journal";
+import { noteRepository } from "./repository";
+import { enqueueWrite, readData, writeDataUnqueued } from "./storage";
+import { listWorkspaces } from "./workspaces";
+import { currentWorkspaceId } from "./workspaceContext";
+
+// Each note's version history is an entity of its own, named after the note
+const NOTE_VERSIONS_PREFIX = "note_versions_";
+
+// Where the client keeps deleted records until they are restored or purged
+const TRASH_ENTITY = "trash";
+
+// Versions kept per note when a history is trimmed, newest first
+export const KEEP_NOTE_VERSIONS = 50;
+
+// An upload this recent may belong to a form that has not been saved yet
+const ATTACHMENT_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Space taken by one entity, with every note's version history counted together as `note_versions`
+ */
+export interface EntityUsage {
+  entity: string;
+  bytes: number;
+  backupCount: number;
+  backupBytes: number;
+}
+
+/**
+ * Space taken by one note: the note itself, its version history and the attachments either refers to
+ */
+export interface NoteUsage {
+  id: string;
+  title: string;
+  trashed: boolean;
+  bytes: number;
+  versionCount: number;
+  versionBytes: number;
+  attachmentCount: number;
+  attachmentBytes: number;
+}
+
+/**
+ * An attachment the workspace refers to, with the entities it is referred to from
+ */
+export interface AttachmentUsage extends StoredAttachment {
+  usedBy: string[];
+}
+
+/**
+ * How much space the current workspace takes, largest first in each list
+ */
+export interface StorageReport {
+  generatedAt: string;
+  dataBytes: number;
+  backupBytes: number;
+  attachmentBytes: number;
+  entities: EntityUsage[];
+  notes: NoteUsage[];
+  attachments: AttachmentUsage[];
+}
+
+/**
+ * A note version history that garbage collection would trim. An orphaned history belongs to a note that is gone
+ * and is removed whole; an oversized one loses its oldest versions.
+ */
+export interface VersionHistoryGarbage {
+  noteId: string;
+  title: string | null;
+  reason: "orphaned" | "oversized";
+  versionCount: number;
+  removeCount: number;
+  bytes: number;
+}
+
+/**
+ * What garbage collection would reclaim
+ */
+export interface GarbageReport {
+  versionHistories: VersionHistoryGarbage[];
+  attachments: StoredAttachment[];
+  bytes: number;
+}
+
+/**
+ * Which garbage to reclaim. `keep` names attachments referred to from data the server cannot see, such as a
+ * browser's local storage.
+ */
+export interface GarbageSelection {
+  keep: string[];
+  versionHistories: string[];
+  attachments: string[];
+}
+
+export interface CollectResult {
+  versionsRemoved: number;
+  attachmentsRemoved: number;
+  bytes: number;
+}
+
+function byteSize(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value ?? null), "utf8");
+}
+
+/**
+ * Build a garbage selection from request input, dropping anything that is not a list of strings
+ */
+export function toGarbageSelection(input: unknown): GarbageSelection {
+  const values = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const list = (key: keyof GarbageSelection): string[] => {
+    const raw = values[key];
+    return Array.isArray(raw) ? raw.filter((item): item is string => typeof item === "string") : [];
+  };
+
+  return { keep: list("keep"), versionHistories: list("versionHistories"), attachments: list("attachments") };
+}
+
+function usageGroup(entity: string): string {
+  return entity.startsWith(NOTE_VERSIONS_PREFIX) ? "note_versions" : entity;
+}
+
+/**
+ * Find where each attachment is referred to from in one workspace: its entities' data and their backups.
+ * The journal only records what fields once held, so it keeps nothing alive.
+ */
+function findReferences(driver: StorageDriver, overrides = new Map<string, unknown>()): Map<string, Set<string>> {
+  const references = new Map<string, Set<string>>();
+  const addReferences = (value: unknown, label: string) => {
+    findAttachmentHashes(value).forEach((hash) => {
+      const labels = references.get(hash) || new Set<string>();
+      labels.add(label);
+      references.set(hash, labels);
+    });
+  };
+
+  driver
+    .entities()
+    .filter((entity) => entity !== JOURNAL_ENTITY)
+    .forEach((entity) => {
+      const group = usageGroup(entity);
+      addReferences(overrides.has(entity) ? overrides.get(entity) : driver.read(entity)?.data, group);
+      driver.listBackups(entity).forEach((backup) => {
+        addReferences(driver.readBackup(entity, backup.id), `${group} backups`);
+      });
+    });
+
+  return references;
+}
+
+/**
+ * Map every note in the current workspace, trashed ones included, to its title and whether it is in the trash
+ */
+function readNoteTitles(): Map<string, { title: string; trashed: boolean }> {
+  const titles = new Map<string, { title: string; trashed: boolean }>();
+  const trash = readData<Array<{ entity: string; record: Note }>>(TRASH_ENTITY);
+
+  (Array.isArray(trash) ? trash : [])
+    .filter((item) => item.entity === "notes" && item.record)
+    .forEach((item) => titles.set(item.record.id, { title: item.record.title, trashed: true }));
+  noteRepository.list().forEach((note) => titles.set(note.id, { title: note.title, trashed: false }));
+
+  return titles;
+}
+
+function readVersions(entity: string): NoteVersion[] {
+  const versions = readData<NoteVersion[]>(entity);
+  return Array.isArray(versions) ? versions : [];
+}
+
+/**
+ * Work out how garbage collection would trim one version history, or return null if it would leave it alone
+ */
+function planVersionTrim(
+  entity: string,
+  titles: Map<string, { title: string; trashed: boolean }>
+): { garbage: VersionHistoryGarbage; remaining: NoteVersion[] } | null {
+  const noteId = entity.slice(NOTE_VERSIONS_PREFIX.length);
+  const versions = readVersions(entity);
+  const note = titles.get(noteId);
+
+  if (versions.length === 0 || (note && versions.length <= KEEP_NOTE_VERSIONS)) {
+    return null;
+  }
+
+  const remaining = note
+    ? [...versions]
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, KEEP_NOTE_VERSIONS)
+        .reverse()
+    : [];
+
+  return {
+    garbage: {
+      noteId,
+      title: note?.title ?? null,
+      reason: note ? "oversized" : "orphaned",
+      versionCount: versions.length,
+      removeCount: versions.length - remaining.length,
+      bytes: Math.max(0, byteSize(versions) - byteSize(remaining)),
+    },
+    remaining,
+  };
+}
+
+function versionHistoryEntities(): string[] {
+  return getDriver()
+    .entities()
+    .filter((entity) => entity.startsWith(NOTE_VERSIONS_PREFIX));
+}
+
+/**
+ * Find the attachments nothing in any workspace refers to any more, leaving out recent uploads.
+ * Overrides stand in for the current workspace's data, to see what trimming would free.
+ */
+function findUnreferencedAttachments(keep: Set<string>, overrides?: Map<string, unknown>): StoredAttachment[] {
+  const referenced = new Set(keep);
+  const currentId = currentWorkspaceId();
+
+  listWorkspaces().forEach((workspace) => {
+    findReferences(getDriver(workspace.id), workspace.id === currentId ? overrides : undefined).forEach(
+      (_labels, hash) => referenced.add(hash)
+    );
+  });
+
+  const cutoff = Date.now() - ATTACHMENT_GRACE_PERIOD_MS;
+  return listAttachments().filter(
+    (attachment) => !referenced.has(attachment.hash) && Date.parse(attachment.createdAt) < cutoff
+  );
+}
+
+/**
+ * Report how much space the current workspace's data, backups and attachments take
+ */
+export function getStorageReport(): StorageReport {
+  const driver = getDriver();
+  const entities = new Map<string, EntityUsage>();
+
+  driver.entities().forEach((entity) => {
+    const group = usageGroup(entity);
+    const usage = entities.get(group) || { entity: group, bytes: 0, backupCount: 0, backupBytes: 0 };
+    const backups = driver.listBackups(entity);
+
+    usage.bytes += byteSize(driver.read(entity)?.data);
+    usage.backupCount += backups.length;
+    usage.backupBytes += backups.reduce((total, backup) => total + backup.size, 0);
+    entities.set(group, usage);
+  });
+
+  const references = findReferences(driver);
+  const stored = new Map(listAttachments().map((attachment) => [attachment.hash, attachment]));
+  const attachments: AttachmentUsage[] = Array.from(references.entries()).flatMap(([hash, labels]) => {
+    const attachment = stored.get(hash);
+    return attachment ? [{ ...attachment, usedBy: Array.from(labels).sort() }] : [];
+  });
+
+  const trash = readData<Array<{ entity: string; record: Note }>>(TRASH_ENTITY);
+  const allNotes = [
+    ...noteRepository.list().map((note) => ({ note, trashed: false })),
+    ...(Array.isArray(trash) ? trash : [])
+      .filter((item) => item.entity === "notes" && item.record)
+      .map((item) => ({ note: item.record, trashed: true })),
+  ];
+
+  const noteUsage: NoteUsage[] = allNotes.map(({ note, trashed }) => {
+    const versions = readVersions(`${NOTE_VERSIONS_PREFIX}${note.id}`);
+    const hashes = new Set([...findAttachmentHashes(note), ...findAttachmentHashes(versions)]);
+    const noteAttachments = Array.from(hashes).flatMap((hash) => stored.get(hash) || []);
+
+    return {
+      id: note.id,
+      title: note.title,
+      trashed,
+      bytes: byteSize(note),
+      versionCount: versions.length,
+      versionBytes: versions.length > 0 ? byteSize(versions) : 0,
+      attachmentCount: noteAttachments.length,
+      attachmentBytes: noteAttachments.reduce((total, attachment) => total + attachment.size, 0),
+    };
+  });
+
+  const entityUsage = Array.from(entities.values());
+  const noteTotal = (note: NoteUsage) => note.bytes + note.versionBytes + note.attachmentBytes;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    dataBytes: entityUsage.reduce((total, usage) => total + usage.bytes, 0),
+    backupBytes: entityUsage.reduce((total, usage) => total + usage.backupBytes, 0),
+    attachmentBytes: attachments.reduce((total, attachment) => total + attachment.size, 0),
+    entities: entityUsage.sort((a, b) => b.bytes + b.backupBytes - (a.bytes + a.backupBytes)),
+    notes: noteUsage.sort((a, b) => noteTotal(b) - noteTotal(a)),
+    attachments: attachments.sort((a, b) => b.size - a.size),
+  };
+}
+
+/**
+ * Find what garbage collection would reclaim: version histories of the current workspace that are orphaned or
+ * longer than KEEP_NOTE_VERSIONS, and attachments no workspace refers to once those are trimmed
+ */
+export function findGarbage(keep: string[] = []): GarbageReport {
+  const titles = readNoteTitles();
+  const overrides = new Map<string, unknown>();
+  const versionHistories: VersionHistoryGarbage[] = [];
+
+  versionHistoryEntities().forEach((entity) => {
+    const trim = planVersionTrim(entity, titles);
+    if (trim) {
+      overrides.set(entity, trim.remaining);
+      versionHistories.push(trim.garbage);
+    }
+  });
+
+  const attachments = findUnreferencedAttachments(new Set(keep), overrides);
+
+  return {
+    versionHistories: versionHistories.sort((a, b) => b.bytes - a.bytes),
+    attachments: attachments.sort((a, b) => b.size - a.size),
+    bytes:
+      versionHistories.reduce((total, history) => total + history.bytes, 0) +
+      attachments.reduce((total, attachment) => total + attachment.size, 0),
+  };
+}
+
+/**
+ * Reclaim the confirmed garbage. Everything is checked again first, so anything that came back into use since it
+ * was confirmed is left alone. Histories are trimmed before attachments, so attachments only they held can go.
+ */
+export async function collectGarbage(selection: GarbageSelection): Promise<CollectResult> {
+  const result: CollectResult = { versionsRemoved: 0, attachmentsRemoved: 0, bytes: 0 };
+  const confirmedHistories = new Set(selection.versionHistories);
+  const confirmedAttachments = new Set(selection.attachments);
+
+  for (const entity of versionHistoryEntities()) {
+    if (!confirmedHistories.has(entity.slice(NOTE_VERSIONS_PREFIX.length))) {
+      continue;
+    }
+
+    await enqueueWrite(entity, async () => {
+      const trim = planVersionTrim(entity, readNoteTitles());
+      if (trim && (await writeDataUnqueued(entity, trim.remaining))) {
+        result.versionsRemoved += trim.garbage.removeCount;
+        result.bytes += trim.garbage.bytes;
+        publishChange({ kind: "replace", entity });
+      }
+    });
+  }
+
+  findUnreferencedAttachments(new Set(selection.keep))
+    .filter((attachment) => confirmedAttachments.has(attachment.hash))
+    .forEach((attachment) => {
+      if (deleteAttachment(attachment.hash)) {
+        result.attachmentsRemoved += 1;
+        result.bytes += attachment.size;
+      }
+    });
+
+  return result;
+}
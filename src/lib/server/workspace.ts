@@ -0,0 +1,282 @@
+import { findAttachmentHashes } from "@/lib/attachments";
+import { CURRENT_SCHEMA_VERSION, compareVersions, migrateEntityData } from "@/lib/migrations";
+import { validateEntityData, validateRecord } from "@/lib/validation";
+import { hashAttachment, isAttachmentHash, readAttachment, saveAttachment } from "./attachments";
+import { getDriver } from "./drivers";
+import { publishChange } from "./changes";
+import { JOURNAL_ENTITY, journalCollectionChange } from "./journal";
+import { stampRecordRevisions } from "./repository";
+import { METADATA_ENTITY } from "./schema";
+import { createBackup, enqueueWrite, readData, sanitizeEntity, writeDataUnqueued } from "./storage";
+import { RESERVED_ENTITIES } from "./workspaceContext";
+
+export const WORKSPACE_ARCHIVE_FORMAT = "taskflow-workspace";
+
+// Bumped when the archive layout itself changes, independently of the data schema
+export const WORKSPACE_ARCHIVE_VERSION = 1;
+
+// Server bookkeeping that belongs to this installation rather than to the workspace
+const EXCLUDED_ENTITIES = [JOURNAL_ENTITY, METADATA_ENTITY];
+
+export type ImportMode = "replace" | "merge";
+
+/**
+ * Every entity's data in one file. Note versions and notification preferences travel as ordinary entities;
+ * the stored attachments the entities refer to travel alongside them, base64 encoded and keyed by hash.
+ */
+export interface WorkspaceArchive {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  version: number;
+  schemaVersion: string;
+  exportedAt: string;
+  entities: Record<string, unknown>;
+  attachments?: Record<string, { type: string; data: string }>;
+}
+
+/**
+ * What importing one entity would do. Documents that are not record collections count as a single record.
+ */
+export interface EntityImportSummary {
+  entity: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  removed: number;
+}
+
+type ArchiveRecord = Record<string, unknown> & { id: string };
+
+interface EntityImportPlan {
+  summary: EntityImportSummary;
+  data: unknown;
+}
+
+function isRecordArray(value: unknown): value is unknown[] {
+  return Array.isArray(value);
+}
+
+function hasId(value: unknown): value is ArchiveRecord {
+  return typeof value === "object" && value !== null && typeof (value as ArchiveRecord).id === "string";
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Collect every entity's current data into an archive
+ */
+export function exportWorkspace(): WorkspaceArchive {
+  const entities: Record<string, unknown> = {};
+
+  getDriver()
+    .entities()
+    .filter((entity) => !EXCLUDED_ENTITIES.includes(entity))
+    .sort()
+    .forEach((entity) => {
+      const data = readData(entity);
+      if (data !== null) {
+        entities[entity] = data;
+      }
+    });
+
+  const attachments: Record<string, { type: string; data: string }> = {};
+  findAttachmentHashes(entities).forEach((hash) => {
+    const attachment = readAttachment(hash);
+    if (attachment) {
+      attachments[hash] = { type: attachment.type, data: attachment.data.toString("base64") };
+    }
+  });
+
+  return {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    version: WORKSPACE_ARCHIVE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entities,
+    attachments,
+  };
+}
+
+/**
+ * Check that a value is an archive this server can import, returning the reason if it is not
+ */
+export function getArchiveError(value: unknown): string | null {
+  const archive = value as Partial<WorkspaceArchive> | null;
+
+  if (!archive || typeof archive !== "object" || archive.format !== WORKSPACE_ARCHIVE_FORMAT) {
+    return "Not a TaskFlow workspace archive";
+  }
+
+  if (typeof archive.version !== "number" || archive.version > WORKSPACE_ARCHIVE_VERSION) {
+    return "The archive was made by a newer version of TaskFlow";
+  }
+
+  if (typeof archive.schemaVersion !== "string" || compareVersions(archive.schemaVersion, CURRENT_SCHEMA_VERSION) > 0) {
+    return "The archive's data is from a newer version of TaskFlow";
+  }
+
+  if (!archive.entities || typeof archive.entities !== "object" || Array.isArray(archive.entities)) {
+    return "The archive has no entities";
+  }
+
+  // Reserved names would overwrite the attachment store, other workspaces or the schema version on import
+  const invalid = Object.keys(archive.entities).find(
+    (entity) => sanitizeEntity(entity) !== entity || RESERVED_ENTITIES.includes(entity) || entity === METADATA_ENTITY
+  );
+  if (invalid) {
+    return `Invalid entity name in archive: ${invalid}`;
+  }
+
+  if (archive.attachments !== undefined) {
+    const attachments = Object.entries(archive.attachments || {});
+    const invalidAttachment =
+      !archive.attachments ||
+      typeof archive.attachments !== "object" ||
+      attachments.some(
+        ([hash, file]) => !isAttachmentHash(hash) || typeof file?.type !== "string" || typeof file?.data !== "string"
+      );
+
+    if (invalidAttachment) {
+      return "The archive's attachments are malformed";
+    }
+
+    // Attachments are stored under the hash of their bytes, so a mismatch means the archive is corrupt or was edited
+    const mismatched = attachments.find(([hash, file]) => hashAttachment(Buffer.from(file.data, "base64")) !== hash);
+    if (mismatched) {
+      return `Attachment ${mismatched[0]} does not match its hash`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out the data an entity would hold after importing and how it differs from the current data.
+ * Records that fail validation or have no ID are skipped rather than failing the whole import.
+ */
+function planEntityImport(entity: string, incoming: unknown, current: unknown, mode: ImportMode): EntityImportPlan {
+  const summary: EntityImportSummary = { entity, added: 0, updated: 0, unchanged: 0, skipped: 0, removed: 0 };
+
+  if (!isRecordArray(incoming)) {
+    const merged =
+      mode === "merge" && current && typeof current === "object" && incoming && typeof incoming === "object"
+        ? { ...current, ...incoming }
+        : incoming;
+
+    if (validateEntityData(entity, merged).length > 0) {
+      summary.skipped = 1;
+      return { summary, data: current };
+    }
+
+    if (current === null) summary.added = 1;
+    else if (sameValue(current, merged)) summary.unchanged = 1;
+    else summary.updated = 1;
+
+    return { summary, data: merged };
+  }
+
+  const currentRecords = isRecordArray(current) ? current.filter(hasId) : [];
+  const currentById = new Map(currentRecords.map((record) => [record.id, record]));
+  const incomingRecords: ArchiveRecord[] = [];
+  const seen = new Set<string>();
+
+  incoming.forEach((record) => {
+    if (!hasId(record) || seen.has(record.id) || validateRecord(entity, record).length > 0) {
+      summary.skipped++;
+      return;
+    }
+
+    seen.add(record.id);
+    incomingRecords.push(record);
+
+    const existing = currentById.get(record.id);
+    if (!existing) summary.added++;
+    else if (sameValue(existing, record)) summary.unchanged++;
+    else summary.updated++;
+  });
+
+  if (mode === "replace") {
+    summary.removed = currentRecords.filter((record) => !seen.has(record.id)).length;
+    return { summary, data: incomingRecords };
+  }
+
+  // Merge keeps current records in place, replacing those the archive also has, and appends new ones
+  const incomingById = new Map(incomingRecords.map((record) => [record.id, record]));
+  const merged = [
+    ...currentRecords.map((record) => incomingById.get(record.id) || record),
+    ...incomingRecords.filter((record) => !currentById.has(record.id)),
+  ];
+
+  return { summary, data: merged };
+}
+
+/**
+ * Plan the import of every entity in an archive against the current data
+ */
+function planImport(archive: WorkspaceArchive, mode: ImportMode): EntityImportPlan[] {
+  return Object.entries(archive.entities)
+    .filter(([entity]) => !EXCLUDED_ENTITIES.includes(entity))
+    .map(([entity, data]) =>
+      planEntityImport(entity, migrateEntityData(entity, data, archive.schemaVersion), readData(entity), mode)
+    );
+}
+
+/**
+ * Describe what importing an archive would add, update, skip and remove, without changing anything
+ */
+export function previewImport(archive: WorkspaceArchive, mode: ImportMode): EntityImportSummary[] {
+  return planImport(archive, mode).map((plan) => plan.summary);
+}
+
+/**
+ * Import an archive. Each entity that changes is backed up first and written through its write queue.
+ */
+export async function importWorkspace(archive: WorkspaceArchive, mode: ImportMode): Promise<EntityImportSummary[]> {
+  const timestamp = `pre-import_${new Date().toISOString().replace(/:/g, "-")}`;
+  const summaries: EntityImportSummary[] = [];
+
+  // Attachments first, so no imported record points at one that is not there yet
+  for (const file of Object.values(archive.attachments || {})) {
+    await saveAttachment(Buffer.from(file.data, "base64"), file.type);
+  }
+
+  for (const entity of Object.keys(archive.entities)) {
+    if (EXCLUDED_ENTITIES.includes(entity)) {
+      continue;
+    }
+
+    const summary = await enqueueWrite(entity, async () => {
+      const current = readData(entity);
+      const plan = planEntityImport(
+        entity,
+        migrateEntityData(entity, archive.entities[entity], archive.schemaVersion),
+        current,
+        mode
+      );
+      const { added, updated, removed } = plan.summary;
+
+      if (added + updated + removed === 0) {
+        return plan.summary;
+      }
+
+      if (current !== null && !createBackup(entity, timestamp)) {
+        throw new Error(`Failed to back up ${entity} before importing`);
+      }
+
+      const imported = stampRecordRevisions(entity, current, plan.data);
+      if (!(await writeDataUnqueued(entity, imported))) {
+        throw new Error(`Failed to write imported ${entity} data`);
+      }
+
+      await journalCollectionChange(entity, current, imported);
+      publishChange({ kind: "replace", entity });
+      return plan.summary;
+    });
+
+    summaries.push(summary);
+  }
+
+  return summaries;
+}
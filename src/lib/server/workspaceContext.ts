@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from "async_hooks";
+import path from "path";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/workspaces";
+
+export const DATA_DIR = path.join(process.cwd(), "data");
+
+// Workspaces other than the default one each get a directory under this one
+export const WORKSPACES_DIR = path.join(DATA_DIR, "workspaces");
+
+// Directory names in the data directory that hold something other than an entity
+export const RESERVED_ENTITIES = ["attachments", "workspaces"];
+
+const workspaceStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Run a task with every storage call inside it reading and writing the given workspace
+ */
+export function runInWorkspace<T>(workspaceId: string, task: () => T): T {
+  return workspaceStorage.run(workspaceId, task);
+}
+
+/**
+ * Get the workspace the current request works on, or the default one outside of a request
+ */
+export function currentWorkspaceId(): string {
+  return workspaceStorage.getStore() || DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Get the directory holding a workspace's data
+ */
+export function getWorkspaceDataDir(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? DATA_DIR : path.join(WORKSPACES_DIR, workspaceId);
+}
@@ -0,0 +1,186 @@
+import fs from "fs";
+import path from "path";
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { generateId } from "@/lib/utils";
+import {
+  DEFAULT_WORKSPACE_ID,
+  MAX_WORKSPACE_NAME_LENGTH,
+  Workspace,
+  WORKSPACE_COOKIE,
+  WORKSPACE_HEADER,
+  WORKSPACE_ID_PATTERN,
+  WORKSPACE_PARAM,
+} from "@/lib/workspaces";
+import { getDriver, releaseDriver } from "./drivers";
+import { MigrationError } from "./schema";
+import { getWorkspaceDataDir, runInWorkspace, WORKSPACES_DIR } from "./workspaceContext";
+
+const REGISTRY_PATH = path.join(WORKSPACES_DIR, "index.json");
+
+const DEFAULT_WORKSPACE_NAME = "Personal";
+
+/**
+ * Read the registry as stored, without the default workspace filled in
+ */
+function readRegistry(): Workspace[] {
+  try {
+    const stored = JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8"));
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the registry. Writes are synchronous, so two requests can never interleave a read-modify-write.
+ */
+function writeRegistry(workspaces: Workspace[]): void {
+  fs.mkdirSync(WORKSPACES_DIR, { recursive: true });
+
+  const tempPath = `${REGISTRY_PATH}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(workspaces, null, 2), "utf8");
+  fs.renameSync(tempPath, REGISTRY_PATH);
+}
+
+/**
+ * List every workspace, the default one first. The default workspace exists even before it is renamed.
+ */
+export function listWorkspaces(): Workspace[] {
+  const stored = readRegistry();
+  const others = stored.filter((workspace) => workspace.id !== DEFAULT_WORKSPACE_ID);
+  const defaultWorkspace = stored.find((workspace) => workspace.id === DEFAULT_WORKSPACE_ID) || {
+    id: DEFAULT_WORKSPACE_ID,
+    name: DEFAULT_WORKSPACE_NAME,
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+  };
+
+  return [defaultWorkspace, ...others];
+}
+
+/**
+ * Find a workspace by ID
+ */
+export function findWorkspace(workspaceId: string): Workspace | null {
+  return listWorkspaces().find((workspace) => workspace.id === workspaceId) || null;
+}
+
+/**
+ * Check that a value can be used as a workspace name, returning the reason if it cannot
+ */
+export function getWorkspaceNameError(name: unknown): string | null {
+  if (typeof name !== "string" || name.trim() === "") {
+    return "name is required";
+  }
+
+  if (name.trim().length > MAX_WORKSPACE_NAME_LENGTH) {
+    return `name must be at most ${MAX_WORKSPACE_NAME_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Create an empty workspace, or a copy of an existing one's current data. Backups are not copied.
+ */
+export async function createWorkspace(name: string, copyFrom?: string): Promise<Workspace> {
+  const now = new Date().toISOString();
+  const workspace: Workspace = { id: generateId(), name: name.trim(), createdAt: now, updatedAt: now };
+
+  if (copyFrom) {
+    const source = getDriver(copyFrom);
+    const target = getDriver(workspace.id);
+
+    for (const entity of source.entities()) {
+      const stored = source.read(entity);
+      if (stored) {
+        await target.write(entity, stored.data);
+      }
+    }
+  }
+
+  writeRegistry([...listWorkspaces(), workspace]);
+  return workspace;
+}
+
+/**
+ * Rename a workspace, returning null if it does not exist
+ */
+export function renameWorkspace(workspaceId: string, name: string): Workspace | null {
+  const workspaces = listWorkspaces();
+  const index = workspaces.findIndex((workspace) => workspace.id === workspaceId);
+
+  if (index === -1) {
+    return null;
+  }
+
+  workspaces[index] = { ...workspaces[index], name: name.trim(), updatedAt: new Date().toISOString() };
+  writeRegistry(workspaces);
+  return workspaces[index];
+}
+
+/**
+ * Delete a workspace and all of its data, including backups. The default workspace cannot be deleted.
+ * Returns false if the workspace does not exist.
+ */
+export function deleteWorkspace(workspaceId: string): boolean {
+  if (workspaceId === DEFAULT_WORKSPACE_ID) {
+    throw new Error("The default workspace cannot be deleted");
+  }
+
+  const workspaces = listWorkspaces();
+  if (!workspaces.some((workspace) => workspace.id === workspaceId)) {
+    return false;
+  }
+
+  writeRegistry(workspaces.filter((workspace) => workspace.id !== workspaceId));
+  releaseDriver(workspaceId);
+  fs.rmSync(getWorkspaceDataDir(workspaceId), { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Get the workspace a request asks for, from its header or query string, falling back to the default one
+ */
+export function getRequestWorkspaceId(request: NextRequest): string {
+  return (
+    request.headers.get(WORKSPACE_HEADER) || request.nextUrl.searchParams.get(WORKSPACE_PARAM) || DEFAULT_WORKSPACE_ID
+  );
+}
+
+/**
+ * Wrap a route handler so the storage calls it makes go to the workspace named by the request.
+ * Requests for a workspace that does not exist are refused rather than served from another one.
+ */
+export function withWorkspace<C = { params: Promise<Record<string, string>> }>(
+  handler: (request: NextRequest, context: C) => Promise<Response>
+) {
+  return (request: NextRequest, context: C): Promise<Response> => {
+    const workspaceId = getRequestWorkspaceId(request);
+
+    if (!WORKSPACE_ID_PATTERN.test(workspaceId) || !findWorkspace(workspaceId)) {
+      return Promise.resolve(NextResponse.json({ error: "Workspace not found" }, { status: 404 }));
+    }
+
+    // Data that could not be migrated is not served at all until a later request migrates it
+    return runInWorkspace(workspaceId, () => handler(request, context)).catch((error) => {
+      if (error instanceof MigrationError) {
+        return NextResponse.json({ error: error.message }, { status: 503, headers: { "Retry-After": "5" } });
+      }
+      throw error;
+    });
+  };
+}
+
+/**
+ * Run a server component's storage calls in the workspace the browser last opened, as named by its cookie.
+ * A missing cookie, or one naming a workspace that no longer exists, means the default workspace.
+ */
+export async function runInPageWorkspace<T>(task: (workspaceId: string) => Promise<T>): Promise<T> {
+  const requested = (await cookies()).get(WORKSPACE_COOKIE)?.value;
+  const workspaceId =
+    requested && WORKSPACE_ID_PATTERN.test(requested) && findWorkspace(requested) ? requested : DEFAULT_WORKSPACE_ID;
+
+  return runInWorkspace(workspaceId, () => task(workspaceId));
+}
@@ -0,0 +1,139 @@
+import { Project, Todo } from "@/types";
+import { CsvValue, toCsv } from "./csv";
+
+/**
+ * Flat, spreadsheet-friendly exports of todos and projects
+ */
+
+export type SpreadsheetFormat = "csv" | "tsv";
+
+export interface SpreadsheetColumn<T> {
+  header: string;
+  value: (record: T) => CsvValue;
+}
+
+/**
+ * Flatten subtasks to "[x] Done one; [ ] Open one"
+ */
+function formatSubtasks(subtasks: Todo["subtasks"]): string {
+  return (subtasks || []).map((subtask) => `[${subtask.completed ? "x" : " "}] ${subtask.title}`).join("; ");
+}
+
+function formatList(values: string[] | undefined): string {
+  return (values || []).join(", ");
+}
+
+/**
+ * One column per Todo field. The project is given by name as well as ID and the images by URL.
+ */
+export function getTodoColumns(projects: Project[]): SpreadsheetColumn<Todo>[] {
+  const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+
+  return [
+    { header: "ID", value: (todo) => todo.id },
+    { header: "Title", value: (todo) => todo.title },
+    { header: "Description", value: (todo) => todo.description },
+    { header: "Status", value: (todo) => todo.status },
+    { header: "Priority", value: (todo) => todo.priority },
+    { header: "Due Date", value: (todo) => todo.dueDate },
+    { header: "Start Date", value: (todo) => todo.startDate },
+    { header: "Completed At", value: (todo) => todo.completedAt },
+    { header: "Project", value: (todo) => (todo.projectId ? (projectNames.get(todo.projectId) ?? "") : "") },
+    { header: "Project ID", value: (todo) => todo.projectId },
+    { header: "Category", value: (todo) => todo.category },
+    { header: "Tags", value: (todo) => formatList(todo.tags) },
+    { header: "Progress", value: (todo) => todo.progress },
+    { header: "Subtasks", value: (todo) => formatSubtasks(todo.subtasks) },
+    {
+      header: "Subtasks Completed",
+      value: (todo) =>
+        todo.subtasks?.length
+          ? `${todo.subtasks.filter((subtask) => subtask.completed).length}/${todo.subtasks.length}`
+          : "",
+    },
+    { header: "Depends On", value: (todo) => formatList(todo.dependsOn) },
+    { header: "Images", value: (todo) => formatList(todo.images?.map((image) => image.url)) },
+    { header: "External ID", value: (todo) => todo.externalId },
+    { header: "Created At", value: (todo) => todo.createdAt },
+    { header: "Updated At", value: (todo) => todo.updatedAt },
+  ];
+}
+
+/**
+ * One column per Project field, with milestones, resources and risks flattened to text
+ */
+export function getProjectColumns(): SpreadsheetColumn<Project>[] {
+  return [
+    { header: "ID", value: (project) => project.id },
+    { header: "Name", value: (project) => project.name },
+    { header: "Description", value: (project) => project.description },
+    { header: "Status", value: (project) => project.status },
+    { header: "Progress", value: (project) => project.progress },
+    { header: "Start Date", value: (project) => project.startDate },
+    { header: "Due Date", value: (project) => project.dueDate },
+    { header: "Completed At", value: (project) => project.completedAt },
+    { header: "Owner", value: (project) => project.owner },
+    { header: "Color", value: (project) => project.color },
+    { header: "Tags", value: (project) => formatList(project.tags) },
+    { header: "Task Count", value: (project) => project.todoIds.length },
+    {
+      header: "Milestones",
+      value: (project) =>
+        project.milestones
+          .map(
+            (milestone) =>
+              `[${milestone.completed ? "x" : " "}] ${milestone.title}${milestone.dueDate ? ` (${milestone.dueDate})` : ""}`
+          )
+          .join("; "),
+    },
+    {
+      header: "Resources",
+      value: (project) => (project.resources || []).map((resource) => `${resource.name} <${resource.url}>`).join("; "),
+    },
+    {
+      header: "Risks",
+      value: (project) =>
+        (project.risks || []).map((risk) => `${risk.title} (${risk.impact} impact, ${risk.status})`).join("; "),
+    },
+    { header: "Velocity", value: (project) => project.velocity },
+    { header: "Time Spent (min)", value: (project) => project.timeSpent },
+    { header: "Created At", value: (project) => project.createdAt },
+    { header: "Updated At", value: (project) => project.updatedAt },
+  ];
+}
+
+/**
+ * Render records as CSV or TSV text with a header row
+ */
+export function toSpreadsheet<T>(records: T[], columns: SpreadsheetColumn<T>[], format: SpreadsheetFormat): string {
+  const rows = [
+    columns.map((column) => column.header),
+    ...records.map((record) => columns.map((column) => column.value(record))),
+  ];
+  return toCsv(rows, format === "tsv" ? "\t" : ",");
+}
+
+/**
+ * Download records as a CSV or TSV file. A BOM is added so Excel reads the file as UTF-8.
+ */
+export function downloadSpreadsheet<T>(
+  records: T[],
+  columns: SpreadsheetColumn<T>[],
+  format: SpreadsheetFormat,
+  name: string
+) {
+  const type = format === "tsv" ? "text/tab-separated-values" : "text/csv";
+  const blob = new Blob(["\uFEFF", toSpreadsheet(records, columns, format)], { type: `${type};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${name}-${new Date().toISOString().split("T")[0]}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+
+  // Clean up
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
@@ -18,6 +18,12 @@ export function formatDate(date: Date | string): string {
   }).format(dateObj);
 }
 
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function isOverdue(dueDate: string): boolean {
   return new Date(dueDate) < new Date();
 }
@@ -0,0 +1,442 @@
+import type { AppSettings, DeletePolicy, Note, NotificationData, NotificationPreference, Project, Todo } from "@/types";
+
+/**
+ * Validation rules for stored data, shared by the client services and the storage routes
+ * so both sides accept and reject exactly the same data.
+ */
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export interface ValidationOptions {
+  // Validate a complete stored record, requiring id, timestamps and every non-optional field
+  stored?: boolean;
+}
+
+const TODO_STATUSES: Todo["status"][] = ["pending", "in-progress", "completed"];
+const PROJECT_STATUSES: Project["status"][] = ["planning", "active", "on-hold", "completed", "archived"];
+const PRIORITIES: Todo["priority"][] = ["low", "medium", "high"];
+const CONTENT_TYPES: Note["contentType"][] = ["markdown", "richtext"];
+const THEMES: AppSettings["theme"][] = ["light", "dark", "system"];
+const DELETE_POLICIES: DeletePolicy[] = ["cascade", "unlink", "block"];
+const NOTIFICATION_TYPES: NotificationData["type"][] = ["info", "warning", "success", "error"];
+const NOTIFICATION_CATEGORIES: NonNullable<NotificationData["category"]>[] = ["todo", "project", "note", "system"];
+const NOTIFICATION_CHANNELS: NotificationPreference["channels"] = ["browser", "email", "system"];
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Collects errors for one value, prefixing field names with the value's path
+ */
+class ErrorCollector {
+  private errors: FieldError[];
+  private prefix: string;
+
+  constructor(errors: FieldError[], prefix: string) {
+    this.errors = errors;
+    this.prefix = prefix;
+  }
+
+  add(field: string, message: string): void {
+    this.errors.push({ path: this.path(field), message });
+  }
+
+  path(field: string): string {
+    if (!field) return this.prefix;
+    if (!this.prefix) return field;
+    return field.startsWith("[") ? `${this.prefix}${field}` : `${this.prefix}.${field}`;
+  }
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === "string" && !isNaN(new Date(value).getTime());
+}
+
+function checkString(fields: Fields, field: string, errors: ErrorCollector, required = false): void {
+  const value = fields[field];
+  if (value === undefined || value === null) {
+    if (required) errors.add(field, `${field} is required`);
+  } else if (typeof value !== "string") {
+    errors.add(field, `${field} must be a string`);
+  }
+}
+
+function checkBoolean(fields: Fields, field: string, errors: ErrorCollector, required = false): void {
+  const value = fields[field];
+  if (value === undefined) {
+    if (required) errors.add(field, `${field} is required`);
+  } else if (typeof value !== "boolean") {
+    errors.add(field, `${field} must be true or false`);
+  }
+}
+
+function checkNumber(fields: Fields, field: string, errors: ErrorCollector, required = false): void {
+  const value = fields[field];
+  if (value === undefined) {
+    if (required) errors.add(field, `${field} is required`);
+  } else if (typeof value !== "number" || isNaN(value)) {
+    errors.add(field, `${field} must be a number`);
+  }
+}
+
+function checkOneOf<T>(
+  fields: Fields,
+  field: string,
+  allowed: readonly T[],
+  errors: ErrorCollector,
+  message: string,
+  required = false
+): void {
+  const value = fields[field];
+  if (value === undefined || value === "") {
+    if (required) errors.add(field, `${field} is required`);
+  } else if (!allowed.includes(value as T)) {
+    errors.add(field, message);
+  }
+}
+
+function checkDate(fields: Fields, field: string, errors: ErrorCollector, message: string, required = false): void {
+  const value = fields[field];
+  if (value === undefined || value === null || value === "") {
+    if (required) errors.add(field, `${field} is required`);
+  } else if (!isValidDate(value)) {
+    errors.add(field, message);
+  }
+}
+
+function checkStringArray(fields: Fields, field: string, errors: ErrorCollector, message: string): void {
+  const value = fields[field];
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors.add(field, message);
+  } else if (value.some((item) => typeof item !== "string")) {
+    errors.add(field, `${field} must only contain strings`);
+  }
+}
+
+function checkArray(fields: Fields, field: string, errors: ErrorCollector, message: string, required = false): void {
+  const value = fields[field];
+  if (value === undefined) {
+    if (required) errors.add(field, `${field} is required`);
+  } else if (!Array.isArray(value)) {
+    errors.add(field, message);
+  }
+}
+
+function checkStoredRecord(fields: Fields, errors: ErrorCollector): void {
+  checkString(fields, "id", errors, true);
+  checkDate(fields, "createdAt", errors, "Invalid created date", true);
+  checkDate(fields, "updatedAt", errors, "Invalid updated date", true);
+}
+
+/**
+ * Validate a todo. Without the stored option only the fields present are checked, apart from the title.
+ */
+export function getTodoErrors(todo: unknown, options: ValidationOptions = {}, prefix = ""): FieldError[] {
+  const result: FieldError[] = [];
+  const errors = new ErrorCollector(result, prefix);
+
+  if (!isObject(todo)) {
+    errors.add("", "Todo must be an object");
+    return result;
+  }
+
+  // Title is required and at most 100 characters
+  if (typeof todo.title !== "string" || todo.title.trim().length === 0) {
+    errors.add("title", "Todo title is required");
+  } else if (todo.title.length > 100) {
+    errors.add("title", "Todo title must be 100 characters or less");
+  }
+
+  // Description max length
+  checkString(todo, "description", errors);
+  if (typeof todo.description === "string" && todo.description.length > 500) {
+    errors.add("description", "Todo description must be 500 characters or less");
+  }
+
+  checkDate(todo, "dueDate", errors, "Invalid due date");
+  checkArray(todo, "subtasks", errors, "Subtasks must be an array");
+  checkStringArray(todo, "tags", errors, "Tags must be an array");
+  checkArray(todo, "images", errors, "Images must be an array");
+  checkStringArray(todo, "dependsOn", errors, "Dependencies must be an array");
+  checkOneOf(todo, "status", TODO_STATUSES, errors, "Invalid status", options.stored);
+  checkOneOf(todo, "priority", PRIORITIES, errors, "Invalid priority", options.stored);
+  checkString(todo, "projectId", errors);
+  checkString(todo, "externalId", errors);
+  checkNumber(todo, "progress", errors);
+
+  if (Array.isArray(todo.subtasks)) {
+    todo.subtasks.forEach((subtask, index) => {
+      const subtaskErrors = new ErrorCollector(result, errors.path(`subtasks[${index}]`));
+      if (!isObject(subtask)) {
+        subtaskErrors.add("", "Subtask must be an object");
+        return;
+      }
+      checkString(subtask, "id", subtaskErrors, true);
+      checkString(subtask, "title", subtaskErrors, true);
+      checkBoolean(subtask, "completed", subtaskErrors, true);
+    });
+  }
+
+  if (options.stored) {
+    checkStoredRecord(todo, errors);
+  }
+
+  return result;
+}
+
+/**
+ * Validate a project. Without the stored option only the fields present are checked, apart from the name.
+ */
+export function getProjectErrors(project: unknown, options: ValidationOptions = {}, prefix = ""): FieldError[] {
+  const result: FieldError[] = [];
+  const errors = new ErrorCollector(result, prefix);
+
+  if (!isObject(project)) {
+    errors.add("", "Project must be an object");
+    return result;
+  }
+
+  // Name is required and at most 100 characters
+  if (typeof project.name !== "string" || project.name.trim().length === 0) {
+    errors.add("name", "Project name is required");
+  } else if (project.name.length > 100) {
+    errors.add("name", "Project name must be 100 characters or less");
+  }
+
+  // Description max length
+  checkString(project, "description", errors);
+  if (typeof project.description === "string" && project.description.length > 500) {
+    errors.add("description", "Project description must be 500 characters or less");
+  }
+
+  checkDate(project, "dueDate", errors, "Invalid due date");
+  checkDate(project, "startDate", errors, "Invalid start date");
+
+  // Start date must be before due date
+  if (isValidDate(project.startDate) && isValidDate(project.dueDate)) {
+    if (new Date(project.startDate as string) > new Date(project.dueDate as string)) {
+      errors.add("startDate", "Start date must be before due date");
+    }
+  }
+
+  checkOneOf(project, "status", PROJECT_STATUSES, errors, "Invalid project status", options.stored);
+  checkNumber(project, "progress", errors, options.stored);
+  checkStringArray(project, "todoIds", errors, "Todo IDs must be an array");
+  checkArray(project, "milestones", errors, "Milestones must be an array", options.stored);
+  checkArray(project, "resources", errors, "Resources must be an array");
+  checkArray(project, "risks", errors, "Risks must be an array");
+  checkStringArray(project, "tags", errors, "Tags must be an array");
+
+  if (options.stored) {
+    if (project.todoIds === undefined) {
+      errors.add("todoIds", "todoIds is required");
+    }
+    checkStoredRecord(project, errors);
+  }
+
+  return result;
+}
+
+/**
+ * Validate a note
+ */
+export function getNoteErrors(note: unknown, options: ValidationOptions = {}, prefix = ""): FieldError[] {
+  const result: FieldError[] = [];
+  const errors = new ErrorCollector(result, prefix);
+
+  if (!isObject(note)) {
+    errors.add("", "Note must be an object");
+    return result;
+  }
+
+  checkString(note, "title", errors, options.stored);
+  checkString(note, "content", errors, options.stored);
+  checkOneOf(note, "contentType", CONTENT_TYPES, errors, "Invalid content type", options.stored);
+  checkArray(note, "images", errors, "Images must be an array");
+  checkStringArray(note, "tags", errors, "Tags must be an array");
+  checkStringArray(note, "relatedNotes", errors, "Related notes must be an array");
+  checkStringArray(note, "relatedTodos", errors, "Related todos must be an array");
+  checkBoolean(note, "isFavorite", errors);
+
+  if (options.stored) {
+    checkDate(note, "lastEditedAt", errors, "Invalid last edited date", true);
+    checkStoredRecord(note, errors);
+  }
+
+  return result;
+}
+
+/**
+ * Validate application settings
+ */
+export function getSettingsErrors(settings: unknown, prefix = ""): FieldError[] {
+  const result: FieldError[] = [];
+  const errors = new ErrorCollector(result, prefix);
+
+  if (!isObject(settings)) {
+    errors.add("", "Settings must be an object");
+    return result;
+  }
+
+  checkOneOf(settings, "theme", THEMES, errors, "Invalid theme", true);
+  checkBoolean(settings, "notifications", errors, true);
+  checkNumber(settings, "completionGoal", errors, true);
+  checkBoolean(settings, "useServerStorage", errors);
+  checkNumber(settings, "trashRetentionDays", errors);
+
+  if (settings.deleteRules !== undefined) {
+    if (!isObject(settings.deleteRules)) {
+      errors.add("deleteRules", "deleteRules must be an object");
+    } else {
+      const rulesErrors = new ErrorCollector(result, errors.path("deleteRules"));
+      Object.keys(settings.deleteRules).forEach((relation) => {
+        checkOneOf(settings.deleteRules as Fields, relation, DELETE_POLICIES, rulesErrors, "Invalid delete policy");
+      });
+    }
+  }
+
+  if (!isObject(settings.workingHours)) {
+    errors.add("workingHours", "workingHours is required");
+  } else {
+    const hoursErrors = new ErrorCollector(result, errors.path("workingHours"));
+    ["start", "end"].forEach((field) => {
+      const value = (settings.workingHours as Fields)[field];
+      if (typeof value !== "string" || !/^\d{2}:\d{2}$/.test(value)) {
+        hoursErrors.add(field, `${field} must be a time in HH:MM format`);
+      }
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Validate a stored notification
+ */
+export function getNotificationErrors(notification: unknown, prefix = ""): FieldError[] {
+  const result: FieldError[] = [];
+  const errors = new ErrorCollector(result, prefix);
+
+  if (!isObject(notification)) {
+    errors.add("", "Notification must be an object");
+    return result;
+  }
+
+  checkString(notification, "id", errors, true);
+  checkString(notification, "title", errors, true);
+  checkString(notification, "message", errors, true);
+  checkOneOf(notification, "type", NOTIFICATION_TYPES, errors, "Invalid notification type", true);
+  checkDate(notification, "timestamp", errors, "Invalid timestamp", true);
+  checkBoolean(notification, "read", errors, true);
+  checkOneOf(notification, "priority", PRIORITIES, errors, "Invalid priority", true);
+  checkOneOf(notification, "category", NOTIFICATION_CATEGORIES, errors, "Invalid category");
+  checkArray(notification, "actions", errors, "Actions must be an array");
+
+  return result;
+}
+
+/**
+ * Validate notification preferences
+ */
+export function getNotificationPreferenceErrors(preferences: unknown, prefix = ""): FieldError[] {
+  const result: FieldError[] = [];
+  const errors = new ErrorCollector(result, prefix);
+
+  if (!isObject(preferences)) {
+    errors.add("", "Notification preferences must be an object");
+    return result;
+  }
+
+  checkBoolean(preferences, "enabled", errors, true);
+  checkString(preferences, "quietHoursStart", errors);
+  checkString(preferences, "quietHoursEnd", errors);
+
+  if (!Array.isArray(preferences.channels)) {
+    errors.add("channels", "Channels must be an array");
+  } else if (preferences.channels.some((channel) => !NOTIFICATION_CHANNELS.includes(channel))) {
+    errors.add("channels", "Invalid notification channel");
+  }
+
+  const toggleGroups: Record<string, string[]> = {
+    categories: ["todo", "project", "note", "system"],
+    priorities: ["low", "medium", "high"],
+  };
+
+  Object.entries(toggleGroups).forEach(([group, keys]) => {
+    const toggles = preferences[group];
+    if (!isObject(toggles)) {
+      errors.add(group, `${group} is required`);
+      return;
+    }
+    const groupErrors = new ErrorCollector(result, errors.path(group));
+    keys.forEach((key) => checkBoolean(toggles, key, groupErrors, true));
+  });
+
+  return result;
+}
+
+/**
+ * Validate every item of a collection, reporting each error with its index
+ */
+function getCollectionErrors(
+  data: unknown,
+  validateItem: (item: unknown, prefix: string) => FieldError[]
+): FieldError[] {
+  if (!Array.isArray(data)) {
+    return [{ path: "", message: "Data must be an array" }];
+  }
+
+  const errors = data.flatMap((item, index) => validateItem(item, `[${index}]`));
+
+  const seen = new Set<unknown>();
+  data.forEach((item, index) => {
+    const id = isObject(item) ? item.id : undefined;
+    if (id !== undefined && seen.has(id)) {
+      errors.push({ path: `[${index}].id`, message: `Duplicate id ${id}` });
+    }
+    seen.add(id);
+  });
+
+  return errors;
+}
+
+// Validators for each stored entity's full data
+const entityValidators: Record<string, (data: unknown) => FieldError[]> = {
+  todos: (data) => getCollectionErrors(data, (item, prefix) => getTodoErrors(item, { stored: true }, prefix)),
+  projects: (data) => getCollectionErrors(data, (item, prefix) => getProjectErrors(item, { stored: true }, prefix)),
+  notes: (data) => getCollectionErrors(data, (item, prefix) => getNoteErrors(item, { stored: true }, prefix)),
+  settings: (data) => getSettingsErrors(data),
+  notifications: (data) => getCollectionErrors(data, getNotificationErrors),
+  notification_preferences: (data) => getNotificationPreferenceErrors(data),
+};
+
+// Validators for a single record of each record entity
+const recordValidators: Record<string, (record: unknown) => FieldError[]> = {
+  todos: (record) => getTodoErrors(record, { stored: true }),
+  projects: (record) => getProjectErrors(record, { stored: true }),
+  notes: (record) => getNoteErrors(record, { stored: true }),
+  notifications: (record) => getNotificationErrors(record),
+};
+
+/**
+ * Validate the full data of an entity. Entities without a schema are accepted as they are.
+ */
+export function validateEntityData(entity: string, data: unknown): FieldError[] {
+  const validate = entityValidators[entity];
+  return validate ? validate(data) : [];
+}
+
+/**
+ * Validate a single stored record of a record entity
+ */
+export function validateRecord(entity: string, record: unknown): FieldError[] {
+  const validate = recordValidators[entity];
+  return validate ? validate(record) : [];
+}
@@ -0,0 +1,32 @@
+// The workspace that existed before workspaces were added. Its data stays where it always was.
+export const DEFAULT_WORKSPACE_ID = "default";
+
+// Requests name their workspace in this header, or in this query parameter where headers cannot be set
+export const WORKSPACE_HEADER = "x-taskflow-workspace";
+export const WORKSPACE_PARAM = "workspace";
+
+// The workspace a browser last opened, so server-rendered pages can start with its data
+export const WORKSPACE_COOKIE = "taskflow_workspace";
+
+// Workspace IDs become directory names, so they are kept to lowercase letters, digits and dashes
+export const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export const MAX_WORKSPACE_NAME_LENGTH = 50;
+
+/**
+ * A named set of data with its own storage directory, local key prefix and settings
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Scope a storage key, channel name or similar to a workspace. The default workspace keeps the unscoped key,
+ * so data saved before workspaces existed is still found.
+ */
+export function scopeToWorkspace(key: string, workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `${key}@${workspaceId}`;
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { Attachment, ATTACHMENTS_PATH, MAX_ATTACHMENT_SIZE } from "@/lib/attachments";
+
+/**
+ * AttachmentService uploads files to the server's attachment store, which keeps them out of the JSON data
+ */
+export class AttachmentService {
+  private basePath: string;
+
+  constructor(basePath = ATTACHMENTS_PATH) {
+    this.basePath = basePath;
+  }
+
+  /**
+   * Upload a file, getting back the URLs to reference it by. Uploading the same bytes twice returns the same
+   * attachment.
+   */
+  async upload(file: Blob, name = "upload"): Promise<Attachment> {
+    try {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error(`Files can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+      }
+
+      const form = new FormData();
+      form.append("file", file, name);
+
+      const response = await fetch(this.basePath, { method: "POST", body: form });
+      const body = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(body?.error || `Upload failed with status ${response.status}`);
+      }
+
+      return body as Attachment;
+    } catch (error) {
+      console.error(`Error uploading ${name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload the image held in a data URL, as left behind by imports
+   */
+  async uploadDataUrl(dataUrl: string, name?: string): Promise<Attachment> {
+    const blob = await (await fetch(dataUrl)).blob();
+    return this.upload(blob, name);
+  }
+}
@@ -0,0 +1,7 @@
+import { AttachmentService } from "./attachmentService";
+
+// Create a singleton instance of the attachment service
+export const attachmentService = new AttachmentService();
+
+// Re-export the service
+export * from "./attachmentService";
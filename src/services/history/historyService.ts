@@ -0,0 +1,245 @@
+import { generateId } from "@/lib/utils";
+import { DeleteBlockedError, relationService } from "../relations";
+import { RecordEntityType, storageService } from "../storage";
+import { TrashRecordTypes, trashService } from "../trash";
+import { workspaceService } from "../workspace";
+
+// Each workspace keeps its own undo history under this key
+const HISTORY_KEY = "taskflow_history";
+
+// Oldest commands are dropped beyond this, per stack
+const MAX_HISTORY = 50;
+
+// Fields that belong to the stored copy rather than the user's edit
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+export type HistoryRecord = { id: string } & Record<string, unknown>;
+
+/**
+ * A record's state before and after a command. A null side means the record did not exist.
+ */
+export interface HistoryChange {
+  entity: RecordEntityType;
+  id: string;
+  before: HistoryRecord | null;
+  after: HistoryRecord | null;
+}
+
+/**
+ * One user action that can be undone and redone as a unit
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  changes: HistoryChange[];
+  // What undoing a create did to other records by deleting it, such as links dropped and cascades to the trash
+  deleteChanges?: HistoryChange[];
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+/**
+ * Copy a record into a history snapshot, so later edits to the original cannot change it
+ */
+export function toHistoryRecord<T extends { id: string }>(record: T | null | undefined): HistoryRecord | null {
+  return record ? (JSON.parse(JSON.stringify(record)) as HistoryRecord) : null;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * HistoryService keeps the undo and redo stacks and replays record snapshots to move between them
+ */
+export class HistoryService {
+  private state: HistoryState | null = null;
+  private listeners = new Set<(state: HistoryState) => void>();
+
+  /**
+   * Get the undo and redo stacks, oldest entry first
+   */
+  getState(): HistoryState {
+    if (!this.state) {
+      this.state = { past: [], future: [] };
+
+      if (typeof window !== "undefined") {
+        try {
+          const stored = JSON.parse(localStorage.getItem(workspaceService.scopeKey(HISTORY_KEY)) || "null");
+          if (stored && Array.isArray(stored.past) && Array.isArray(stored.future)) {
+            this.state = { past: stored.past, future: stored.future };
+          }
+        } catch (error) {
+          console.warn("Failed to load undo history:", error);
+        }
+      }
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Subscribe to changes of the stacks. Returns an unsubscribe function.
+   */
+  onChange(listener: (state: HistoryState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Push a completed command onto the undo stack, clearing the redo stack. Returns null if nothing changed.
+   */
+  record(label: string, changes: HistoryChange[]): HistoryEntry | null {
+    const effective = changes.filter((change) => !sameValue(change.before, change.after));
+    if (effective.length === 0) {
+      return null;
+    }
+
+    const entry: HistoryEntry = {
+      id: generateId(),
+      label,
+      timestamp: new Date().toISOString(),
+      changes: effective,
+    };
+
+    const { past } = this.getState();
+    this.save({ past: [...past, entry].slice(-MAX_HISTORY), future: [] });
+    return entry;
+  }
+
+  /**
+   * Revert the most recent command. Returns the entry that was undone, or null if there was nothing to undo.
+   */
+  async undo(): Promise<HistoryEntry | null> {
+    const { past, future } = this.getState();
+    const entry = past[past.length - 1];
+
+    if (!entry) {
+      return null;
+    }
+
+    // Undoing a create deletes the record under the delete rules, so make sure none blocks before reverting anything
+    for (const change of entry.changes) {
+      if (!change.before && (await storageService.readRecord(change.entity, change.id))) {
+        const plan = await relationService.planDelete(change.entity, change.id);
+        if (plan.blocked) {
+          throw new DeleteBlockedError(plan);
+        }
+      }
+    }
+
+    const isEntryRecord = (record: { entity: RecordEntityType; id: string }) =>
+      entry.changes.some((change) => change.entity === record.entity && change.id === record.id);
+    const deleteChanges: HistoryChange[] = [];
+
+    // Revert in reverse order so dependent changes unwind cleanly
+    for (const change of [...entry.changes].reverse()) {
+      if (change.before) {
+        await this.applySnapshot(change.entity, change.id, change.after, change.before);
+      } else if (await storageService.readRecord(change.entity, change.id)) {
+        // The same delete the UI makes, so links to the record are dropped and cascades go to the trash with it
+        const changes = await relationService.deleteRecord(change.entity, change.id);
+        changes
+          .filter((deleted) => !isEntryRecord(deleted))
+          .forEach((deleted) =>
+            deleteChanges.push({
+              entity: deleted.entity,
+              id: deleted.id,
+              before: toHistoryRecord(deleted.before),
+              after: toHistoryRecord(deleted.after),
+            })
+          );
+      }
+    }
+
+    const undone: HistoryEntry = { ...entry, deleteChanges: deleteChanges.length > 0 ? deleteChanges : undefined };
+    this.save({ past: past.slice(0, -1), future: [...future, undone].slice(-MAX_HISTORY) });
+    return undone;
+  }
+
+  /**
+   * Re-apply the most recently undone command. Returns the entry, or null if there was nothing to redo.
+   */
+  async redo(): Promise<HistoryEntry | null> {
+    const { past, future } = this.getState();
+    const entry = future[future.length - 1];
+
+    if (!entry) {
+      return null;
+    }
+
+    for (const change of entry.changes) {
+      await this.applySnapshot(change.entity, change.id, change.before, change.after);
+    }
+
+    // Undo the delete that undoing a create made, bringing back cascaded records and the links it dropped
+    for (const change of [...(entry.deleteChanges || [])].reverse()) {
+      await this.applySnapshot(change.entity, change.id, change.after, change.before);
+    }
+
+    const redone: HistoryEntry = { ...entry, deleteChanges: undefined };
+    this.save({ past: [...past, redone].slice(-MAX_HISTORY), future: future.slice(0, -1) });
+    return redone;
+  }
+
+  /**
+   * Move a record from one snapshot to another. Updates only touch the fields that differ between
+   * the two, so edits made to other fields since the command was recorded are kept.
+   */
+  private async applySnapshot(
+    entity: RecordEntityType,
+    id: string,
+    from: HistoryRecord | null,
+    to: HistoryRecord | null
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    // Redoing a delete moves the record to the trash again; the links the delete removed are changes of their own.
+    // Records come back out of the trash when a delete is undone.
+    if (!to) {
+      const record = await storageService.readRecord<TrashRecordTypes[RecordEntityType]>(entity, id);
+      if (record) {
+        await trashService.moveToTrash(entity, record);
+      }
+      return;
+    }
+
+    if (!from) {
+      await storageService.createRecord(entity, { ...to, updatedAt: now });
+      await trashService.discardRecord(entity, id);
+      return;
+    }
+
+    const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+    const patch: Record<string, unknown> = { updatedAt: now };
+
+    fields.forEach((field) => {
+      if (!IGNORED_FIELDS.has(field) && !sameValue(from[field], to[field])) {
+        patch[field] = to[field];
+      }
+    });
+
+    await storageService.updateRecord(entity, id, patch);
+  }
+
+  /**
+   * Store the stacks and notify listeners. History that no longer fits in localStorage is kept in memory only.
+   */
+  private save(state: HistoryState): void {
+    this.state = state;
+
+    try {
+      localStorage.setItem(workspaceService.scopeKey(HISTORY_KEY), JSON.stringify(state));
+    } catch (error) {
+      console.warn("Failed to persist undo history:", error);
+    }
+
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
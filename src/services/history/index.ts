@@ -0,0 +1,7 @@
+import { HistoryService } from "./historyService";
+
+// Create a singleton instance of the history service
+export const historyService = new HistoryService();
+
+// Re-export the service
+export * from "./historyService";
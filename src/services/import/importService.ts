@@ -0,0 +1,222 @@
+import { v4 as uuidv4 } from "uuid";
+import { Note, Project, Todo } from "@/types";
+import { generateId } from "@/lib/utils";
+import type { CalendarItem, ImportPlan } from "@/lib/importers";
+import type { NotesVaultPlan, VaultNote } from "@/lib/notesVault";
+import { attachmentService } from "../attachments";
+import { todoService } from "../todo";
+import { projectService } from "../project";
+import { notesService } from "../notes";
+
+export interface ImportResult {
+  projects: Project[];
+  todos: Todo[];
+}
+
+/**
+ * ImportService creates the records described by importer plans
+ */
+export class ImportService {
+  /**
+   * Create everything in an import plan through the todo and project services
+   */
+  async applyImport(plan: ImportPlan): Promise<ImportResult> {
+    try {
+      const now = new Date().toISOString();
+      const projects = new Map<string, Project>();
+      // Milestone IDs by project key, then by milestone key
+      const milestoneIds = new Map<string, Map<string, string>>();
+
+      for (const imported of plan.projects) {
+        const project = await projectService.createProject({
+          name: imported.name,
+          description: imported.description,
+          status: imported.status || "active",
+          initialMilestones: imported.milestones.map((milestone) => ({
+            title: milestone.title,
+            dueDate: milestone.dueDate,
+          })),
+        });
+
+        projects.set(imported.key, project);
+        milestoneIds.set(
+          imported.key,
+          new Map(imported.milestones.map((milestone, index) => [milestone.key, project.milestones[index]?.id]))
+        );
+      }
+
+      const todos: Todo[] = [];
+      const projectTodoIds = new Map<string, string[]>();
+      const milestoneTodoIds = new Map<string, string[]>();
+
+      for (const imported of plan.todos) {
+        const project = imported.projectKey ? projects.get(imported.projectKey) : undefined;
+
+        const todo = await todoService.createTodo({
+          title: imported.title,
+          description: imported.description,
+          status: imported.status,
+          priority: imported.priority,
+          dueDate: imported.dueDate,
+          tags: imported.tags,
+          subtasks: imported.subtasks?.map((subtask) => ({
+            id: generateId(),
+            title: subtask.title,
+            completed: subtask.completed,
+            createdAt: now,
+            completedAt: subtask.completed ? now : undefined,
+          })),
+          completedAt: imported.status === "completed" ? now : undefined,
+          projectId: project?.id,
+        });
+        todos.push(todo);
+
+        if (project) {
+          projectTodoIds.set(project.id, [...(projectTodoIds.get(project.id) || []), todo.id]);
+
+          const milestoneId = imported.milestoneKey
+            ? milestoneIds.get(imported.projectKey!)?.get(imported.milestoneKey)
+            : undefined;
+          if (milestoneId) {
+            milestoneTodoIds.set(milestoneId, [...(milestoneTodoIds.get(milestoneId) || []), todo.id]);
+          }
+        }
+      }
+
+      // Link the new todos to their projects and milestones in one update per project
+      const updatedProjects: Project[] = [];
+      for (const project of projects.values()) {
+        const todoIds = projectTodoIds.get(project.id) || [];
+        const updated = await projectService.updateProject(project.id, {
+          todoIds,
+          milestones: project.milestones.map((milestone) => ({
+            ...milestone,
+            todoIds: milestoneTodoIds.get(milestone.id) || [],
+          })),
+        });
+
+        if (todoIds.length > 0) {
+          await projectService.updateProjectProgress(project.id);
+        }
+        updatedProjects.push(updated);
+      }
+
+      return { projects: updatedProjects, todos };
+    } catch (error) {
+      console.error("Error applying import:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create notes read from a Markdown folder, then link the ones that refer to each other
+   */
+  async importNotes(plan: NotesVaultPlan): Promise<Note[]> {
+    try {
+      const now = new Date().toISOString();
+      const created: Note[] = [];
+      const idsByPath = new Map<string, string>();
+
+      for (const vaultNote of plan.notes) {
+        const imported = await this.uploadVaultImages(vaultNote);
+        const note = await notesService.createNote({
+          title: imported.title,
+          content: imported.content,
+          contentType: "markdown",
+          folder: imported.folder,
+          tags: imported.tags,
+          images: imported.images.map((image) => ({ ...image, id: uuidv4(), createdAt: now })),
+        });
+        created.push(note);
+        idsByPath.set(imported.path, note.id);
+      }
+
+      // Links can point forward, so they are only resolved once every note has an ID
+      for (const [index, imported] of plan.notes.entries()) {
+        const relatedNotes = imported.links.map((path) => idsByPath.get(path)).filter((id): id is string => !!id);
+
+        if (relatedNotes.length > 0) {
+          created[index] = await notesService.updateNote(created[index].id, { relatedNotes });
+        }
+      }
+
+      return created;
+    } catch (error) {
+      console.error("Error importing notes:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a vault note's images into the attachment store, pointing the note's content at the stored copies
+   */
+  private async uploadVaultImages(note: VaultNote): Promise<VaultNote> {
+    let content = note.content;
+    const images: VaultNote["images"] = [];
+
+    for (const image of note.images) {
+      const attachment = await attachmentService.uploadDataUrl(image.url, image.name);
+      content = content.split(image.url).join(attachment.url);
+      images.push({ ...image, url: attachment.url, thumbnail: attachment.thumbnailUrl });
+    }
+
+    return { ...note, content, images };
+  }
+
+  /**
+   * Find which calendar items were imported before, as todos or as milestones of the given project
+   */
+  async findImportedCalendarItems(items: CalendarItem[], projectId?: string): Promise<Set<string>> {
+    try {
+      const existing = projectId
+        ? ((await projectService.getProjectById(projectId))?.milestones || []).map((milestone) => milestone.externalId)
+        : (await todoService.getTodos()).map((todo) => todo.externalId);
+      const imported = new Set(existing.filter((id): id is string => !!id));
+
+      return new Set(items.filter((item) => imported.has(item.uid)).map((item) => item.uid));
+    } catch (error) {
+      console.error("Error checking imported calendar items:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create calendar items as todos, or as milestones of a project when one is given. Items are keyed by their
+   * UID, so anything imported before is skipped.
+   */
+  async importCalendar(items: CalendarItem[], projectId?: string): Promise<number> {
+    try {
+      const imported = await this.findImportedCalendarItems(items, projectId);
+      const pending = items.filter((item) => !imported.has(item.uid) && (!projectId || item.date));
+
+      for (const item of pending) {
+        if (projectId) {
+          await projectService.addMilestone(projectId, {
+            title: item.title,
+            description: item.description,
+            dueDate: item.date!,
+            completed: item.status === "completed",
+            todoIds: [],
+            externalId: item.uid,
+          });
+        } else {
+          await todoService.createTodo({
+            title: item.title,
+            description: item.description,
+            status: item.status,
+            priority: item.priority,
+            dueDate: item.date,
+            tags: item.tags,
+            completedAt: item.status === "completed" ? new Date().toISOString() : undefined,
+            externalId: item.uid,
+          });
+        }
+      }
+
+      return pending.length;
+    } catch (error) {
+      console.error("Error importing calendar:", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { ImportService } from "./importService";
+
+// Create a singleton instance of the import service
+export const importService = new ImportService();
+
+// Re-export the service
+export * from "./importService";
@@ -1,5 +1,6 @@
 import { Note, NoteImage, NoteVersion } from "@/types";
-import { storageService } from "../storage";
+import { StorageConflictError, storageService } from "../storage";
+import { DeleteBlockedError, RecordChange, relationService } from "../relations";
 import { v4 as uuidv4 } from "uuid";
 
 export class NotesService {
@@ -15,12 +16,23 @@ export class NotesService {
     }
   }
 
+  /**
+   * Retrieves a single note by ID
+   */
+  async getNoteById(id: string): Promise<Note | null> {
+    try {
+      return await storageService.readRecord<Note>("notes", id);
+    } catch (error) {
+      console.error(`Failed to get note ${id}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Creates a new note
    */
   async createNote(note: Omit<Note, "id" | "createdAt" | "updatedAt" | "lastEditedAt" | "version">): Promise<Note> {
     try {
-      const notes = await this.getNotes();
       const timestamp = new Date().toISOString();
 
       const newNote: Note = {
@@ -33,8 +45,7 @@ export class NotesService {
         contentType: note.contentType || "markdown",
       };
 
-      await storageService.write("notes", [...notes, newNote]);
-      return newNote;
+      return await storageService.createRecord("notes", newNote);
     } catch (error) {
       console.error("Failed to create note:", error);
       throw new Error("Failed to create note");
@@ -46,18 +57,16 @@ export class NotesService {
    */
   async updateNote(id: string, note: Partial<Omit<Note, "id" | "createdAt">>): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === id);
+      const existingNote = await this.getNoteById(id);
 
-      if (noteIndex === -1) {
+      if (!existingNote) {
         throw new Error(`Note with id ${id} not found`);
       }
 
       const timestamp = new Date().toISOString();
-      const currentVersion = notes[noteIndex].version || 1;
+      const currentVersion = existingNote.version || 1;
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
+      const changes: Partial<Note> = {
         ...note,
         updatedAt: timestamp,
         lastEditedAt: timestamp,
@@ -67,15 +76,16 @@ export class NotesService {
       // Store version history
       await this.createNoteVersion({
         noteId: id,
-        content: notes[noteIndex].content,
-        timestamp: notes[noteIndex].lastEditedAt || notes[noteIndex].updatedAt,
+        content: existingNote.content,
+        timestamp: existingNote.lastEditedAt || existingNote.updatedAt,
       });
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", id, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to update note:", error);
       throw new Error("Failed to update note");
     }
@@ -84,20 +94,21 @@ export class NotesService {
   /**
    * Deletes a note
    */
-  async deleteNote(id: string): Promise<void> {
+  async deleteNote(id: string): Promise<RecordChange[]> {
     try {
-      const notes = await this.getNotes();
-      const filteredNotes = notes.filter((note) => note.id !== id);
+      const note = await this.getNoteById(id);
 
-      if (notes.length === filteredNotes.length) {
+      if (!note) {
         throw new Error(`Note with id ${id} not found`);
       }
 
-      // Also delete all versions of this note
-      await this.deleteAllNoteVersions(id);
-
-      await storageService.write("notes", filteredNotes);
+      // Versions stay in place so a restored note keeps its history; they go when the trash is emptied
+      return await relationService.deleteRecord("notes", id);
     } catch (error) {
+      if (error instanceof StorageConflictError || error instanceof DeleteBlockedError) {
+        throw error;
+      }
+
       console.error("Failed to delete note:", error);
       throw new Error("Failed to delete note");
     }
@@ -136,10 +147,9 @@ export class NotesService {
    */
   async addImageToNote(noteId: string, image: Omit<NoteImage, "id" | "createdAt">): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === noteId);
+      const note = await this.getNoteById(noteId);
 
-      if (noteIndex === -1) {
+      if (!note) {
         throw new Error(`Note with id ${noteId} not found`);
       }
 
@@ -169,17 +179,17 @@ export class NotesService {
         dimensions: newImage.width && newImage.height ? `${newImage.width}x${newImage.height}` : "unknown",
       });
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
-        images: [...(notes[noteIndex].images || []), newImage],
+      const changes: Partial<Note> = {
+        images: [...(note.images || []), newImage],
         updatedAt: new Date().toISOString(),
       };
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", noteId, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to add image to note:", error);
       throw new Error("Failed to add image to note");
     }
@@ -190,24 +200,23 @@ export class NotesService {
    */
   async removeImageFromNote(noteId: string, imageId: string): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === noteId);
+      const note = await this.getNoteById(noteId);
 
-      if (noteIndex === -1) {
+      if (!note) {
         throw new Error(`Note with id ${noteId} not found`);
       }
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
-        images: (notes[noteIndex].images || []).filter((img) => img.id !== imageId),
+      const changes: Partial<Note> = {
+        images: (note.images || []).filter((img) => img.id !== imageId),
         updatedAt: new Date().toISOString(),
       };
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", noteId, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to remove image from note:", error);
       throw new Error("Failed to remove image from note");
     }
@@ -218,30 +227,29 @@ export class NotesService {
    */
   async addTagToNote(noteId: string, tag: string): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === noteId);
+      const note = await this.getNoteById(noteId);
 
-      if (noteIndex === -1) {
+      if (!note) {
         throw new Error(`Note with id ${noteId} not found`);
       }
 
       // Only add the tag if it doesn't already exist
-      const currentTags = notes[noteIndex].tags || [];
+      const currentTags = note.tags || [];
       if (currentTags.includes(tag)) {
-        return notes[noteIndex];
+        return note;
       }
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
+      const changes: Partial<Note> = {
         tags: [...currentTags, tag],
         updatedAt: new Date().toISOString(),
       };
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", noteId, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to add tag to note:", error);
       throw new Error("Failed to add tag to note");
     }
@@ -252,24 +260,23 @@ export class NotesService {
    */
   async removeTagFromNote(noteId: string, tag: string): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === noteId);
+      const note = await this.getNoteById(noteId);
 
-      if (noteIndex === -1) {
+      if (!note) {
         throw new Error(`Note with id ${noteId} not found`);
       }
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
-        tags: (notes[noteIndex].tags || []).filter((t) => t !== tag),
+      const changes: Partial<Note> = {
+        tags: (note.tags || []).filter((t) => t !== tag),
         updatedAt: new Date().toISOString(),
       };
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", noteId, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to remove tag from note:", error);
       throw new Error("Failed to remove tag from note");
     }
@@ -280,35 +287,34 @@ export class NotesService {
    */
   async linkNotes(noteId: string, relatedNoteId: string): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === noteId);
+      const note = await this.getNoteById(noteId);
 
-      if (noteIndex === -1) {
+      if (!note) {
         throw new Error(`Note with id ${noteId} not found`);
       }
 
       // Check if related note exists
-      if (!notes.some((n) => n.id === relatedNoteId)) {
+      if (!(await this.getNoteById(relatedNoteId))) {
         throw new Error(`Related note with id ${relatedNoteId} not found`);
       }
 
       // Only add the relation if it doesn't already exist
-      const relatedNotes = notes[noteIndex].relatedNotes || [];
+      const relatedNotes = note.relatedNotes || [];
       if (relatedNotes.includes(relatedNoteId)) {
-        return notes[noteIndex];
+        return note;
       }
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
+      const changes: Partial<Note> = {
         relatedNotes: [...relatedNotes, relatedNoteId],
         updatedAt: new Date().toISOString(),
       };
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", noteId, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to link notes:", error);
       throw new Error("Failed to link notes");
     }
@@ -319,24 +325,23 @@ export class NotesService {
    */
   async unlinkNotes(noteId: string, relatedNoteId: string): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === noteId);
+      const note = await this.getNoteById(noteId);
 
-      if (noteIndex === -1) {
+      if (!note) {
         throw new Error(`Note with id ${noteId} not found`);
       }
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
-        relatedNotes: (notes[noteIndex].relatedNotes || []).filter((id) => id !== relatedNoteId),
+      const changes: Partial<Note> = {
+        relatedNotes: (note.relatedNotes || []).filter((id) => id !== relatedNoteId),
         updatedAt: new Date().toISOString(),
       };
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", noteId, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to unlink notes:", error);
       throw new Error("Failed to unlink notes");
     }
@@ -387,18 +392,6 @@ export class NotesService {
     }
   }
 
-  /**
-   * Delete all versions of a note
-   */
-  private async deleteAllNoteVersions(noteId: string): Promise<void> {
-    try {
-      await storageService.write(`note_versions_${noteId}`, []);
-    } catch (error) {
-      console.error("Failed to delete note versions:", error);
-      throw new Error("Failed to delete note versions");
-    }
-  }
-
   /**
    * Search notes by content
    */
@@ -437,24 +430,23 @@ export class NotesService {
    */
   async toggleFavorite(noteId: string): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      const noteIndex = notes.findIndex((n) => n.id === noteId);
+      const note = await this.getNoteById(noteId);
 
-      if (noteIndex === -1) {
+      if (!note) {
         throw new Error(`Note with id ${noteId} not found`);
       }
 
-      const updatedNote: Note = {
-        ...notes[noteIndex],
-        isFavorite: !notes[noteIndex].isFavorite,
+      const changes: Partial<Note> = {
+        isFavorite: !note.isFavorite,
         updatedAt: new Date().toISOString(),
       };
 
-      notes[noteIndex] = updatedNote;
-      await storageService.write("notes", notes);
-
-      return updatedNote;
+      return await storageService.updateRecord<Note>("notes", noteId, changes);
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        throw error;
+      }
+
       console.error("Failed to toggle favorite:", error);
       throw new Error("Failed to toggle favorite status");
     }
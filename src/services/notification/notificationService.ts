@@ -241,7 +241,7 @@ export class NotificationService {
         return this.getDefaultPreferences();
       }
 
-      const data = localStorage.getItem(`taskflow_data_notification_preferences`);
+      const data = localStorage.getItem(`${storageService.getLocalKeyPrefix()}_notification_preferences`);
       if (!data) {
         return this.getDefaultPreferences();
       }
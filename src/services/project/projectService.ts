@@ -1,7 +1,9 @@
 import { Milestone, Project, ProjectResource, ProjectRisk, Todo } from "@/types";
 import { storageService } from "../storage";
 import { todoService } from "../todo";
+import { RecordChange, relationService } from "../relations";
 import { generateId } from "@/lib/utils";
+import { getProjectErrors } from "@/lib/validation";
 
 /**
  * ProjectService handles all project-related operations
@@ -24,8 +26,7 @@ export class ProjectService {
    */
   async getProjectById(id: string): Promise<Project | null> {
     try {
-      const projects = await this.getProjects();
-      return projects.find((project) => project.id === id) || null;
+      return await storageService.readRecord<Project>("projects", id);
     } catch (error) {
       console.error(`Error getting project ${id}:`, error);
       return null;
@@ -86,20 +87,11 @@ export class ProjectService {
         });
       }
 
-      // Get existing projects
-      const projects = await this.getProjects();
-      console.log("Current projects count before adding:", projects.length);
-
-      // Add new project
-      projects.push(newProject);
-
       // Save to storage
-      await storageService.write("projects", projects);
+      await storageService.createRecord("projects", newProject);
 
       // Verify the project was saved
-      const updatedProjects = await this.getProjects();
-      console.log("Projects count after adding:", updatedProjects.length);
-      const savedProject = updatedProjects.find((p) => p.id === newProject.id);
+      const savedProject = await this.getProjectById(newProject.id);
       if (!savedProject) {
         console.error("Project was not found after saving!");
       } else {
@@ -118,32 +110,22 @@ export class ProjectService {
    */
   async updateProject(id: string, projectData: Partial<Project>): Promise<Project> {
     try {
-      const projects = await this.getProjects();
-      const index = projects.findIndex((project) => project.id === id);
+      const project = await this.getProjectById(id);
 
-      if (index === -1) {
+      if (!project) {
         throw new Error(`Project with id ${id} not found`);
       }
 
-      // Create the updated project
-      const updatedProject: Project = {
-        ...projects[index],
+      const changes = {
         ...projectData,
-        id,
-        createdAt: projects[index].createdAt,
         updatedAt: new Date().toISOString(),
       };
 
       // Validate the updated project
-      this.validateProject(updatedProject);
-
-      // Update the project in the array
-      projects[index] = updatedProject;
-
-      // Save to storage
-      await storageService.write("projects", projects);
+      this.validateProject({ ...project, ...changes });
 
-      return updatedProject;
+      // Save only the changed fields to storage
+      return await storageService.updateRecord<Project>("projects", id, changes);
     } catch (error) {
       console.error(`Error updating project ${id}:`, error);
       throw error;
@@ -153,19 +135,16 @@ export class ProjectService {
   /**
    * Delete a project
    */
-  async deleteProject(id: string): Promise<boolean> {
+  async deleteProject(id: string): Promise<RecordChange[]> {
     try {
-      const projects = await this.getProjects();
-      const filteredProjects = projects.filter((project) => project.id !== id);
+      const project = await this.getProjectById(id);
 
-      if (filteredProjects.length === projects.length) {
+      if (!project) {
         throw new Error(`Project with id ${id} not found`);
       }
 
-      // Save to storage
-      await storageService.write("projects", filteredProjects);
-
-      return true;
+      // Its tasks and notes follow the delete rules
+      return await relationService.deleteRecord("projects", id);
     } catch (error) {
       console.error(`Error deleting project ${id}:`, error);
       throw error;
@@ -513,49 +492,10 @@ export class ProjectService {
    * Validate a project
    */
   private validateProject(project: Partial<Project>): void {
-    // Name is required
-    if (!project.name || project.name.trim().length === 0) {
-      throw new Error("Project name is required");
-    }
-
-    // Name max length
-    if (project.name.length > 100) {
-      throw new Error("Project name must be 100 characters or less");
-    }
-
-    // Description max length
-    if (project.description && project.description.length > 500) {
-      throw new Error("Project description must be 500 characters or less");
-    }
-
-    // Due date must be valid
-    if (project.dueDate) {
-      const dueDate = new Date(project.dueDate);
-      if (isNaN(dueDate.getTime())) {
-        throw new Error("Invalid due date");
-      }
-    }
-
-    // Start date must be valid
-    if (project.startDate) {
-      const startDate = new Date(project.startDate);
-      if (isNaN(startDate.getTime())) {
-        throw new Error("Invalid start date");
-      }
-    }
-
-    // Start date must be before due date
-    if (project.startDate && project.dueDate) {
-      const startDate = new Date(project.startDate);
-      const dueDate = new Date(project.dueDate);
-      if (startDate > dueDate) {
-        throw new Error("Start date must be before due date");
-      }
-    }
-
-    // Validate status
-    if (project.status && !["planning", "active", "on-hold", "completed", "archived"].includes(project.status)) {
-      throw new Error("Invalid project status");
+    // Same rules the storage routes apply, so the client and server cannot disagree
+    const errors = getProjectErrors(project);
+    if (errors.length > 0) {
+      throw new Error(errors[0].message);
     }
   }
 }
@@ -0,0 +1,7 @@
+import { RelationService } from "./relationService";
+
+// Create a singleton instance of the relation service
+export const relationService = new RelationService();
+
+// Re-export the service
+export * from "./relationService";
@@ -0,0 +1,424 @@
+import { AppSettings, DeletePolicy, Note, Project, RelationName, Todo } from "@/types";
+import { RecordEntityType, storageService } from "../storage";
+import { TrashItem, TrashLink, TrashRecordTypes, trashService } from "../trash";
+
+type StoredRecord = TrashRecordTypes[RecordEntityType];
+
+type Collections = { [E in RecordEntityType]: TrashRecordTypes[E][] };
+
+/**
+ * A way records of one entity point at records of another, and how to drop that link
+ */
+export interface Relation<
+  P extends RecordEntityType = RecordEntityType,
+  C extends RecordEntityType = RecordEntityType,
+> {
+  parent: P;
+  child: C;
+  label: string;
+  policies: DeletePolicy[];
+  defaultPolicy: DeletePolicy;
+  references(record: TrashRecordTypes[C], parentId: string): boolean;
+  unlink(record: TrashRecordTypes[C], parentId: string): Partial<TrashRecordTypes[C]>;
+  // Put back a link unlink() removed, given the record as it was before; links that are already there are kept
+  link(record: TrashRecordTypes[C], parentId: string, before: TrashRecordTypes[C]): Partial<TrashRecordTypes[C]>;
+}
+
+/**
+ * Add an ID to a list of IDs unless it is there already
+ */
+function withId(ids: string[] | undefined, id: string): string[] {
+  return ids?.includes(id) ? ids : [...(ids || []), id];
+}
+
+function defineRelation<P extends RecordEntityType, C extends RecordEntityType>(relation: Relation<P, C>): Relation {
+  return relation as unknown as Relation;
+}
+
+export const RELATIONS: Record<RelationName, Relation> = {
+  projectTodos: defineRelation({
+    parent: "projects",
+    child: "todos",
+    label: "Tasks in a deleted project",
+    policies: ["unlink", "cascade", "block"],
+    defaultPolicy: "unlink",
+    references: (todo: Todo, projectId) => todo.projectId === projectId,
+    unlink: () => ({ projectId: undefined }),
+    link: (todo: Todo, projectId) => (todo.projectId ? {} : { projectId }),
+  }),
+  projectNotes: defineRelation({
+    parent: "projects",
+    child: "notes",
+    label: "Notes in a deleted project",
+    policies: ["unlink", "cascade", "block"],
+    defaultPolicy: "unlink",
+    references: (note: Note, projectId) => note.projectId === projectId,
+    unlink: () => ({ projectId: undefined }),
+    link: (note: Note, projectId) => (note.projectId ? {} : { projectId }),
+  }),
+  todoDependents: defineRelation({
+    parent: "todos",
+    child: "todos",
+    label: "Tasks that depend on a deleted task",
+    policies: ["unlink", "block"],
+    defaultPolicy: "unlink",
+    references: (todo: Todo, todoId) => !!todo.dependsOn?.includes(todoId),
+    unlink: (todo: Todo, todoId) => ({ dependsOn: todo.dependsOn?.filter((id) => id !== todoId) }),
+    link: (todo: Todo, todoId) => ({ dependsOn: withId(todo.dependsOn, todoId) }),
+  }),
+  todoNotes: defineRelation({
+    parent: "todos",
+    child: "notes",
+    label: "Notes about a deleted task",
+    policies: ["unlink", "cascade", "block"],
+    defaultPolicy: "unlink",
+    references: (note: Note, todoId) => note.todoId === todoId || !!note.relatedTodos?.includes(todoId),
+    unlink: (note: Note, todoId) => ({
+      todoId: note.todoId === todoId ? undefined : note.todoId,
+      relatedTodos: note.relatedTodos?.filter((id) => id !== todoId),
+    }),
+    link: (note: Note, todoId, before: Note) => ({
+      ...(before.todoId === todoId && !note.todoId ? { todoId } : {}),
+      ...(before.relatedTodos?.includes(todoId) ? { relatedTodos: withId(note.relatedTodos, todoId) } : {}),
+    }),
+  }),
+  noteLinks: defineRelation({
+    parent: "notes",
+    child: "notes",
+    label: "Notes linking to a deleted note",
+    policies: ["unlink", "block"],
+    defaultPolicy: "unlink",
+    references: (note: Note, noteId) => !!note.relatedNotes?.includes(noteId),
+    unlink: (note: Note, noteId) => ({ relatedNotes: note.relatedNotes?.filter((id) => id !== noteId) }),
+    link: (note: Note, noteId) => ({ relatedNotes: withId(note.relatedNotes, noteId) }),
+  }),
+};
+
+// A project's own task lists always drop a deleted task, so this is not a rule users choose
+const PROJECT_MEMBERSHIP = defineRelation({
+  parent: "todos",
+  child: "projects",
+  label: "Projects and milestones listing a deleted task",
+  policies: ["unlink"],
+  defaultPolicy: "unlink",
+  references: (project: Project, todoId) =>
+    project.todoIds.includes(todoId) || project.milestones.some((milestone) => milestone.todoIds.includes(todoId)),
+  unlink: (project: Project, todoId) => ({
+    todoIds: project.todoIds.filter((id) => id !== todoId),
+    milestones: project.milestones.map((milestone) =>
+      milestone.todoIds.includes(todoId)
+        ? { ...milestone, todoIds: milestone.todoIds.filter((id) => id !== todoId) }
+        : milestone
+    ),
+  }),
+  link: (project: Project, todoId, before: Project) => ({
+    todoIds: before.todoIds.includes(todoId) ? withId(project.todoIds, todoId) : project.todoIds,
+    milestones: project.milestones.map((milestone) =>
+      before.milestones.some((previous) => previous.id === milestone.id && previous.todoIds.includes(todoId))
+        ? { ...milestone, todoIds: withId(milestone.todoIds, todoId) }
+        : milestone
+    ),
+  }),
+});
+
+// Every relation by the name trash links refer to it by
+const ALL_RELATIONS: Record<string, Relation> = { ...RELATIONS, projectMembership: PROJECT_MEMBERSHIP };
+
+const ENTITY_NOUNS: Record<RecordEntityType, [string, string]> = {
+  todos: ["task", "tasks"],
+  projects: ["project", "projects"],
+  notes: ["note", "notes"],
+};
+
+export interface RecordRef {
+  entity: RecordEntityType;
+  id: string;
+  title: string;
+}
+
+/**
+ * The records one relation touches when a delete goes ahead
+ */
+export interface RelationImpact {
+  relation: RelationName;
+  policy: DeletePolicy;
+  records: RecordRef[];
+}
+
+/**
+ * Everything a delete would do, worked out before anything is changed
+ */
+export interface DeletePlan {
+  target: RecordRef;
+  // Records deleted along with the target through cascade rules
+  cascaded: RecordRef[];
+  impacts: RelationImpact[];
+  blocked: boolean;
+}
+
+/**
+ * A record as it was before and after a delete, so the whole delete can be undone
+ */
+export interface RecordChange {
+  entity: RecordEntityType;
+  id: string;
+  before: StoredRecord;
+  after: StoredRecord | null;
+}
+
+/**
+ * Thrown when a block rule stops a delete
+ */
+export class DeleteBlockedError extends Error {
+  plan: DeletePlan;
+
+  constructor(plan: DeletePlan) {
+    super(describeDeletePlan(plan).join(" "));
+    this.name = "DeleteBlockedError";
+    this.plan = plan;
+  }
+}
+
+function toRef(entity: RecordEntityType, record: StoredRecord): RecordRef {
+  return { entity, id: record.id, title: "name" in record ? record.name : record.title };
+}
+
+/**
+ * Count records by kind, as in "3 tasks and 2 notes"
+ */
+function countRecords(records: RecordRef[]): string {
+  const parts = (Object.keys(ENTITY_NOUNS) as RecordEntityType[])
+    .map((entity) => {
+      const count = new Set(records.filter((record) => record.entity === entity).map((record) => record.id)).size;
+      return count > 0 ? `${count} ${ENTITY_NOUNS[entity][count === 1 ? 0 : 1]}` : "";
+    })
+    .filter(Boolean);
+
+  return parts.length > 1 ? `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}` : parts[0] || "";
+}
+
+/**
+ * Explain a delete plan in a sentence or two for the confirmation dialog
+ */
+export function describeDeletePlan(plan: DeletePlan): string[] {
+  const byPolicy = (policy: DeletePolicy) =>
+    plan.impacts.filter((impact) => impact.policy === policy).flatMap((impact) => impact.records);
+
+  if (plan.blocked) {
+    const blockers = byPolicy("block");
+    const verb = blockers.length === 1 ? "is" : "are";
+    return [`It can't be deleted while ${countRecords(blockers)} ${verb} linked to it.`];
+  }
+
+  const lines: string[] = [];
+  if (plan.cascaded.length > 0) {
+    lines.push(`${countRecords(plan.cascaded)} will also be moved to the trash.`);
+  }
+
+  const unlinked = byPolicy("unlink");
+  if (unlinked.length > 0) {
+    lines.push(`${countRecords(unlinked)} will be unlinked.`);
+  }
+
+  return lines;
+}
+
+/**
+ * RelationService keeps links between todos, projects, milestones and notes intact when records are deleted
+ */
+export class RelationService {
+  /**
+   * Get the policy in force for every relation, with the user's settings over the defaults
+   */
+  async getDeleteRules(): Promise<Record<RelationName, DeletePolicy>> {
+    let overrides: AppSettings["deleteRules"] = {};
+    try {
+      const settings = await storageService.read<AppSettings>("settings");
+      overrides = settings?.deleteRules || {};
+    } catch (error) {
+      console.error("Error reading delete rules:", error);
+    }
+
+    return Object.fromEntries(
+      (Object.keys(RELATIONS) as RelationName[]).map((name) => {
+        const override = overrides[name];
+        const relation = RELATIONS[name];
+        return [name, override && relation.policies.includes(override) ? override : relation.defaultPolicy];
+      })
+    ) as Record<RelationName, DeletePolicy>;
+  }
+
+  /**
+   * Work out what deleting a record would cascade to, unlink or be blocked by
+   */
+  async planDelete(entity: RecordEntityType, id: string): Promise<DeletePlan> {
+    const [collections, rules] = await Promise.all([this.readCollections(), this.getDeleteRules()]);
+    return this.buildPlan(collections, rules, entity, id);
+  }
+
+  /**
+   * Delete a record following the delete rules. Cascaded records go to the trash with it and links to any of them
+   * are removed from the records that remain. Returns every record changed, for undo.
+   */
+  async deleteRecord(entity: RecordEntityType, id: string): Promise<RecordChange[]> {
+    const [collections, rules] = await Promise.all([this.readCollections(), this.getDeleteRules()]);
+    const plan = this.buildPlan(collections, rules, entity, id);
+
+    if (plan.blocked) {
+      throw new DeleteBlockedError(plan);
+    }
+
+    const deleted = [plan.target, ...plan.cascaded];
+    const isDeleted = (ref: { entity: RecordEntityType; id: string }) =>
+      deleted.some((candidate) => candidate.entity === ref.entity && candidate.id === ref.id);
+    const changes: RecordChange[] = [];
+    // Links removed from the records that stay, by the deleted record they pointed at
+    const removedLinks = new Map<string, TrashLink[]>();
+
+    // Drop links from the records that stay before anything they point at disappears
+    for (const childEntity of Object.keys(collections) as RecordEntityType[]) {
+      for (const record of collections[childEntity]) {
+        if (isDeleted({ entity: childEntity, id: record.id })) continue;
+
+        let patch: Partial<StoredRecord> = {};
+        let current = record;
+        Object.entries(ALL_RELATIONS)
+          .filter(([, relation]) => relation.child === childEntity)
+          .forEach(([name, relation]) => {
+            deleted
+              .filter((ref) => ref.entity === relation.parent && relation.references(current, ref.id))
+              .forEach((ref) => {
+                const unlinked = relation.unlink(current, ref.id);
+                patch = { ...patch, ...unlinked };
+                current = { ...current, ...unlinked } as StoredRecord;
+
+                const key = `${ref.entity}/${ref.id}`;
+                const link: TrashLink = { relation: name, entity: childEntity, id: record.id, before: record };
+                removedLinks.set(key, [...(removedLinks.get(key) || []), link]);
+              });
+          });
+
+        if (Object.keys(patch).length > 0) {
+          const after = await storageService.updateRecord<StoredRecord>(childEntity, record.id, patch);
+          changes.push({ entity: childEntity, id: record.id, before: record, after });
+        }
+      }
+    }
+
+    for (const ref of deleted) {
+      const record = collections[ref.entity].find((candidate) => candidate.id === ref.id)!;
+      await trashService.moveToTrash(ref.entity, record, removedLinks.get(`${ref.entity}/${ref.id}`));
+      changes.push({ entity: ref.entity, id: ref.id, before: record, after: null });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Restore a record from the trash and put back the links other records had to it when it was deleted. A link is
+   * left out when the record that had it is gone or now points somewhere else.
+   */
+  async restoreRecord(itemId: string): Promise<TrashItem> {
+    const item = await trashService.restore(itemId);
+
+    for (const link of item.links || []) {
+      const relation = ALL_RELATIONS[link.relation];
+
+      try {
+        const current = relation && (await storageService.readRecord<StoredRecord>(link.entity, link.id));
+        if (!current) continue;
+
+        const patch = Object.fromEntries(
+          Object.entries(relation.link(current, item.record.id, link.before)).filter(
+            ([key, value]) => JSON.stringify(value) !== JSON.stringify(current[key as keyof StoredRecord])
+          )
+        );
+
+        if (Object.keys(patch).length > 0) {
+          await storageService.updateRecord<StoredRecord>(link.entity, link.id, patch);
+        }
+      } catch (error) {
+        console.error(`Error relinking ${link.entity} record ${link.id} to restored ${item.entity} record:`, error);
+      }
+    }
+
+    return item;
+  }
+
+  private async readCollections(): Promise<Collections> {
+    const [todos, projects, notes] = await Promise.all([
+      storageService.read<Todo[]>("todos"),
+      storageService.read<Project[]>("projects"),
+      storageService.read<Note[]>("notes"),
+    ]);
+
+    return {
+      todos: Array.isArray(todos) ? todos : [],
+      projects: Array.isArray(projects) ? projects : [],
+      notes: Array.isArray(notes) ? notes : [],
+    };
+  }
+
+  private buildPlan(
+    collections: Collections,
+    rules: Record<RelationName, DeletePolicy>,
+    entity: RecordEntityType,
+    id: string
+  ): DeletePlan {
+    const record = collections[entity].find((candidate) => candidate.id === id);
+    if (!record) {
+      throw new Error(`${entity} record ${id} not found`);
+    }
+
+    const target = toRef(entity, record);
+    const deleted = new Map<string, RecordRef>([[`${entity}/${id}`, target]]);
+    const touched = new Map<RelationName, RelationImpact>();
+    const queue = [target];
+
+    // Follow cascades breadth first, so records reached several ways are only counted once
+    while (queue.length > 0) {
+      const parent = queue.shift()!;
+
+      (Object.keys(RELATIONS) as RelationName[])
+        .filter((name) => RELATIONS[name].parent === parent.entity)
+        .forEach((name) => {
+          const relation = RELATIONS[name];
+          const policy = rules[name];
+
+          collections[relation.child]
+            .filter((child) => relation.references(child, parent.id))
+            .forEach((child) => {
+              const ref = toRef(relation.child, child);
+              const key = `${ref.entity}/${ref.id}`;
+              if (deleted.has(key)) return;
+
+              if (!touched.has(name)) {
+                touched.set(name, { relation: name, policy, records: [] });
+              }
+              touched.get(name)!.records.push(ref);
+
+              if (policy === "cascade") {
+                deleted.set(key, ref);
+                queue.push(ref);
+              }
+            });
+        });
+    }
+
+    // A record that is deleted anyway needs no unlinking and cannot block
+    const impacts = Array.from(touched.values())
+      .map((impact) =>
+        impact.policy === "cascade"
+          ? impact
+          : { ...impact, records: impact.records.filter((ref) => !deleted.has(`${ref.entity}/${ref.id}`)) }
+      )
+      .filter((impact) => impact.records.length > 0);
+
+    return {
+      target,
+      cascaded: Array.from(deleted.values()).slice(1),
+      impacts,
+      blocked: impacts.some((impact) => impact.policy === "block"),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import type { DataChange } from "@/lib/server/changes";
+import { scopeToWorkspace, WORKSPACE_PARAM } from "@/lib/workspaces";
+
+const CHANNEL_NAME = "taskflow_changes";
+
+/**
+ * Apply a record change made elsewhere to a list held in state. The same list comes back when nothing changes,
+ * as with a change older than the copy already held, such as the echo of this tab's own write.
+ */
+export function applyRemoteChange<T extends { id: string; updatedAt?: string; revision?: number }>(
+  records: T[],
+  change: DataChange
+): T[] {
+  if (change.kind === "delete") {
+    const remaining = records.filter((record) => record.id !== change.id);
+    return remaining.length === records.length ? records : remaining;
+  }
+
+  if (change.kind !== "upsert") {
+    return records;
+  }
+
+  const incoming = change.record as T;
+  const index = records.findIndex((record) => record.id === change.id);
+
+  if (index === -1) {
+    return [...records, incoming];
+  }
+
+  // Revisions tell the order apart even for writes in the same millisecond; older copies only have timestamps
+  const current = records[index];
+  const isStale =
+    current.revision !== undefined && incoming.revision !== undefined
+      ? current.revision >= incoming.revision
+      : !!current.updatedAt && !!incoming.updatedAt && current.updatedAt >= incoming.updatedAt;
+  if (isStale) {
+    return records;
+  }
+
+  return records.map((record, i) => (i === index ? incoming : record));
+}
+
+/**
+ * Delivers changes made in other tabs, over a BroadcastChannel, and changes made by other clients, over the
+ * server's event stream. The event stream is only open while server storage is on and someone is listening.
+ * Only changes to the given workspace are delivered.
+ */
+export class ChangeFeed {
+  private eventsPath: string;
+  private channelName: string;
+  private channel: BroadcastChannel | null = null;
+  private source: EventSource | null = null;
+  private serverEnabled = false;
+  private listeners = new Set<(change: DataChange) => void>();
+
+  constructor(eventsPath: string, workspaceId: string) {
+    this.eventsPath = `${eventsPath}?${WORKSPACE_PARAM}=${encodeURIComponent(workspaceId)}`;
+    this.channelName = scopeToWorkspace(CHANNEL_NAME, workspaceId);
+  }
+
+  /**
+   * Tell the other tabs about a change made in this one
+   */
+  broadcast(change: DataChange): void {
+    this.openChannel()?.postMessage(change);
+  }
+
+  /**
+   * Listen for changes made elsewhere until the returned function is called
+   */
+  subscribe(listener: (change: DataChange) => void): () => void {
+    this.listeners.add(listener);
+    this.openChannel();
+    this.updateSource();
+
+    return () => {
+      this.listeners.delete(listener);
+      this.updateSource();
+    };
+  }
+
+  /**
+   * Follow the server's event stream or stop following it, as storage switches between server and local
+   */
+  setServerEnabled(enabled: boolean): void {
+    this.serverEnabled = enabled;
+    this.updateSource();
+  }
+
+  private emit(change: DataChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  private openChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = (event: MessageEvent<DataChange>) => this.emit(event.data);
+    }
+    return this.channel;
+  }
+
+  private updateSource(): void {
+    const wanted = this.serverEnabled && this.listeners.size > 0 && typeof EventSource !== "undefined";
+
+    if (wanted && !this.source) {
+      this.source = new EventSource(this.eventsPath);
+      this.source.onmessage = (event) => {
+        try {
+          this.emit(JSON.parse(event.data) as DataChange);
+        } catch (error) {
+          console.error("Error reading change event:", error);
+        }
+      };
+    } else if (!wanted && this.source) {
+      this.source.close();
+      this.source = null;
+    }
+  }
+}
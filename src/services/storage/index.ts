@@ -5,3 +5,5 @@ export const storageService = new StorageService();
 
 // Re-export the service
 export * from "./storageService";
+export * from "./merge";
+export * from "./changeFeed";
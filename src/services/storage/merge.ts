@@ -0,0 +1,124 @@
+export interface MergeableRecord {
+  id: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * A record that was changed both locally and on the server since the last sync.
+ * A null side means the record was deleted there.
+ */
+export interface RecordConflict<T extends MergeableRecord = MergeableRecord> {
+  entity: string;
+  id: string;
+  local: T | null;
+  server: T | null;
+}
+
+export interface RecordMergeResult<T extends MergeableRecord> {
+  // Server copy with every non-conflicting local change applied. Conflicting records keep the server version.
+  merged: T[];
+  conflicts: RecordConflict<T>[];
+  // Whether the merged collection holds local changes the server does not have yet
+  hasLocalChanges: boolean;
+}
+
+function toTime(timestamp?: string): number {
+  const time = timestamp ? new Date(timestamp).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+}
+
+function changedSince(record: MergeableRecord, since: number): boolean {
+  return toTime(record.updatedAt || record.createdAt) > since;
+}
+
+function createdSince(record: MergeableRecord, since: number): boolean {
+  return toTime(record.createdAt || record.updatedAt) > since;
+}
+
+function sameRecord(a: MergeableRecord, b: MergeableRecord): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of a local and a server copy of a record collection, using the time both copies
+ * were last in sync as the common base. A record changed on one side only takes that side's version;
+ * a record changed on both sides is a conflict. Without a known sync time nothing is treated as
+ * deleted and the newer version of each record wins.
+ */
+export function mergeRecordCollections<T extends MergeableRecord>(
+  entity: string,
+  local: T[],
+  server: T[],
+  lastSync: string | null
+): RecordMergeResult<T> {
+  const since = lastSync ? toTime(lastSync) : null;
+  const localById = new Map(local.map((record) => [record.id, record]));
+  const serverIds = new Set(server.map((record) => record.id));
+
+  const merged: T[] = [];
+  const conflicts: RecordConflict<T>[] = [];
+  let hasLocalChanges = false;
+
+  for (const serverRecord of server) {
+    const localRecord = localById.get(serverRecord.id);
+
+    if (!localRecord) {
+      if (since === null || createdSince(serverRecord, since)) {
+        // Created on the server after the last sync
+        merged.push(serverRecord);
+      } else if (changedSince(serverRecord, since)) {
+        // Deleted locally but edited on the server
+        conflicts.push({ entity, id: serverRecord.id, local: null, server: serverRecord });
+        merged.push(serverRecord);
+      } else {
+        // Deleted locally
+        hasLocalChanges = true;
+      }
+      continue;
+    }
+
+    if (sameRecord(localRecord, serverRecord)) {
+      merged.push(serverRecord);
+      continue;
+    }
+
+    if (since === null) {
+      const localIsNewer = toTime(localRecord.updatedAt) > toTime(serverRecord.updatedAt);
+      merged.push(localIsNewer ? localRecord : serverRecord);
+      hasLocalChanges = hasLocalChanges || localIsNewer;
+      continue;
+    }
+
+    const localChanged = changedSince(localRecord, since);
+    const serverChanged = changedSince(serverRecord, since);
+
+    if (localChanged && serverChanged) {
+      conflicts.push({ entity, id: serverRecord.id, local: localRecord, server: serverRecord });
+      merged.push(serverRecord);
+    } else if (localChanged) {
+      merged.push(localRecord);
+      hasLocalChanges = true;
+    } else {
+      merged.push(serverRecord);
+    }
+  }
+
+  for (const localRecord of local) {
+    if (serverIds.has(localRecord.id)) {
+      continue;
+    }
+
+    if (since === null || createdSince(localRecord, since)) {
+      // Created locally after the last sync
+      merged.push(localRecord);
+      hasLocalChanges = true;
+    } else if (changedSince(localRecord, since)) {
+      // Edited locally but deleted on the server
+      conflicts.push({ entity, id: localRecord.id, local: localRecord, server: null });
+    }
+    // Otherwise it was deleted on the server
+  }
+
+  return { merged, conflicts, hasLocalChanges };
+}
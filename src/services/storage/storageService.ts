@@ -1,32 +1,209 @@
 "use client";
 
 import { toast } from "@/components/ui/Toast";
+import { generateId } from "@/lib/utils";
+import type { BackupInfo } from "@/lib/server/drivers";
+import type { DataChange } from "@/lib/server/changes";
+import type { BackupPreview, BackupRetentionPolicy, PruneResult } from "@/lib/server/backups";
+import type { JournalEntry, JournalQuery } from "@/lib/server/journal";
+import type { CollectResult, GarbageReport, StorageReport } from "@/lib/server/usage";
+import type { EntityImportSummary, ImportMode, WorkspaceArchive } from "@/lib/server/workspace";
+import { FieldError } from "@/lib/validation";
+import { findAttachmentHashes } from "@/lib/attachments";
+import {
+  CURRENT_SCHEMA_VERSION,
+  INITIAL_SCHEMA_VERSION,
+  MIGRATED_ENTITIES,
+  migrateEntityData,
+  needsMigration,
+} from "@/lib/migrations";
+import { DEFAULT_WORKSPACE_ID, WORKSPACE_HEADER } from "@/lib/workspaces";
+import { workspaceService } from "../workspace";
+import { mergeRecordCollections, RecordConflict } from "./merge";
+import { ChangeFeed } from "./changeFeed";
 
 type EntityType = "todos" | "projects" | "notes" | "settings" | "metadata" | string;
 
+export type RecordEntityType = "todos" | "projects" | "notes";
+
+const RECORD_ENTITIES: EntityType[] = ["todos", "projects", "notes"];
+
+interface StoredRecord {
+  id: string;
+  updatedAt?: string;
+  revision?: number;
+}
+
+/**
+ * A server mutation that could not be delivered and is waiting in the outbox to be replayed
+ */
+export interface PendingChange {
+  id: string;
+  kind: "write" | "remove" | "create" | "update" | "delete";
+  entity: EntityType;
+  filename?: string;
+  recordId?: string;
+  body?: string;
+  // Server revision the change was made against, kept so a replay after a reload still sends If-Match
+  revision?: string;
+  queuedAt: string;
+}
+
+/**
+ * A queued change the server refused and that could not be turned into a record conflict. It is kept until the
+ * user discards it or sends it again.
+ */
+export interface RejectedChange extends PendingChange {
+  status: number;
+  reason: string;
+  rejectedAt: string;
+}
+
 interface StorageConfig {
   useServerStorage: boolean;
   apiBasePath: string;
+  recordsBasePath: string;
+  backupsBasePath: string;
+  journalPath: string;
+  workspacePath: string;
+  usagePath: string;
+  eventsPath: string;
   fallbackToLocalStorage: boolean;
 }
 
+/**
+ * Thrown when a write is rejected because the server copy changed since this client last read it
+ */
+export class StorageConflictError<T = unknown> extends Error {
+  entity: string;
+  current: T | null;
+
+  constructor(entity: string, current: T | null) {
+    super(`${entity} has been modified elsewhere since it was last read`);
+    this.name = "StorageConflictError";
+    this.entity = entity;
+    this.current = current;
+  }
+}
+
+/**
+ * Thrown when the server refuses data that does not match the entity's schema
+ */
+export class StorageValidationError extends Error {
+  entity: string;
+  errors: FieldError[];
+
+  constructor(entity: string, errors: FieldError[]) {
+    super(
+      errors.length > 0 ? `Invalid ${entity} data: ${errors[0].path} ${errors[0].message}` : `Invalid ${entity} data`
+    );
+    this.name = "StorageValidationError";
+    this.entity = entity;
+    this.errors = errors;
+  }
+}
+
 /**
  * Service for handling JSON storage operations (browser and server compatible)
  */
 export class StorageService {
   private basePath: string;
+  private workspaceId: string;
   private isClient: boolean;
   private config: StorageConfig;
+  // Last server revision this client has seen, keyed by storage key or entity/id
+  private revisions = new Map<string, string>();
+  // Failed server mutations in the order they were made, mirrored to localStorage
+  private outbox: PendingChange[] | null = null;
+  private outboxListeners = new Set<(count: number) => void>();
+  private syncInProgress: Promise<boolean> | null = null;
+  // Queued changes the server refused, mirrored to localStorage
+  private rejectedChanges: RejectedChange[] | null = null;
+  private rejectedListeners = new Set<(changes: RejectedChange[]) => void>();
+  // Records changed both locally and on the server, waiting for the user to pick a version
+  private conflicts: RecordConflict[] | null = null;
+  private conflictListeners = new Set<(conflicts: RecordConflict[]) => void>();
+  // Changes made in other tabs and by other clients
+  private changeFeed: ChangeFeed;
 
   constructor(config?: Partial<StorageConfig>) {
     this.isClient = typeof window !== "undefined";
-    this.basePath = this.isClient ? "taskflow_data" : "";
+    this.workspaceId = this.isClient ? workspaceService.getActiveWorkspaceId() : DEFAULT_WORKSPACE_ID;
+    this.basePath = this.isClient ? workspaceService.scopeKey("taskflow_data") : "";
     this.config = {
       useServerStorage: true, // Default to server storage
       apiBasePath: "/api/storage",
+      recordsBasePath: "/api",
+      backupsBasePath: "/api/backups",
+      journalPath: "/api/journal",
+      workspacePath: "/api/workspace",
+      usagePath: "/api/usage",
+      eventsPath: "/api/changes",
       fallbackToLocalStorage: true,
       ...config,
     };
+
+    this.changeFeed = new ChangeFeed(this.config.eventsPath, this.workspaceId);
+    this.changeFeed.setServerEnabled(this.config.useServerStorage);
+
+    if (this.isClient) {
+      this.migrateLocalData();
+    }
+  }
+
+  /**
+   * Upgrade data an older version of the app left in localStorage, keeping a backup of each entity
+   */
+  private migrateLocalData(): void {
+    const metadata = this.readLocalMetadata();
+    const fromVersion = typeof metadata.version === "string" ? metadata.version : INITIAL_SCHEMA_VERSION;
+
+    if (!needsMigration(fromVersion)) {
+      return;
+    }
+
+    try {
+      const timestamp = new Date().toISOString().replace(/:/g, "-");
+
+      MIGRATED_ENTITIES.forEach((entity) => {
+        const storageKey = this.getStorageKey(entity);
+        const rawData = localStorage.getItem(storageKey);
+
+        if (rawData) {
+          localStorage.setItem(`${storageKey}_${timestamp}_backup`, rawData);
+          localStorage.setItem(storageKey, JSON.stringify(migrateEntityData(entity, JSON.parse(rawData), fromVersion)));
+        }
+      });
+
+      this.mirrorLocal(
+        this.getStorageKey("metadata"),
+        JSON.stringify({
+          ...this.readLocalMetadata(),
+          version: CURRENT_SCHEMA_VERSION,
+          migratedFrom: fromVersion,
+          migratedAt: new Date().toISOString(),
+        })
+      );
+      console.log(`Migrated local data from schema ${fromVersion} to ${CURRENT_SCHEMA_VERSION}`);
+    } catch (error) {
+      console.error("Error migrating local data:", error);
+    }
+  }
+
+  /**
+   * Get the prefix shared by every localStorage key this service uses for the active workspace
+   */
+  getLocalKeyPrefix(): string {
+    return this.basePath;
+  }
+
+  /**
+   * Fetch from the server on behalf of the active workspace
+   */
+  private request(url: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    headers.set(WORKSPACE_HEADER, this.workspaceId);
+    return fetch(url, { ...init, headers });
   }
 
   /**
@@ -51,14 +228,36 @@ export class StorageService {
         return this.getEmptyDataByEntityType(entity) as T;
       }
 
-      // Try server storage first if enabled
-      if (this.config.useServerStorage) {
+      // Try server storage first if enabled, but only once it has caught up with changes made offline
+      if (this.config.useServerStorage && (await this.syncPendingChanges())) {
         try {
-          const response = await fetch(`${this.config.apiBasePath}/${entity}${filename ? `/${filename}` : ""}`);
+          const response = await this.request(`${this.config.apiBasePath}/${entity}${filename ? `/${filename}` : ""}`);
 
           if (response.ok) {
             const data = await response.json();
+            const storageKey = this.getStorageKey(entity, filename);
             console.log(`Read data for ${entity} from server, found data`);
+            this.rememberRevision(storageKey, response);
+
+            // A full read refreshes this client's view of every record in the collection
+            if (Array.isArray(data)) {
+              data.forEach((record: StoredRecord) => {
+                if (record && record.id) {
+                  // Records stored before the server kept revisions count as revision 0, as they do on the server
+                  this.revisions.set(`${entity}/${record.id}`, String(record.revision ?? 0));
+                }
+              });
+            }
+
+            // Bring in changes made to the local copy while the server was out of reach
+            if (!filename && Array.isArray(data) && RECORD_ENTITIES.includes(entity)) {
+              return (await this.reconcileWithLocal(entity as RecordEntityType, data)) as T;
+            }
+
+            if (entity !== "metadata" && this.mirrorLocal(storageKey, JSON.stringify(data))) {
+              this.markSynced(storageKey);
+            }
+
             return data as T;
           } else if (response.status === 404) {
             console.log(`No data found for ${entity} on server, initializing with empty data`);
@@ -107,22 +306,34 @@ export class StorageService {
       }
 
       const jsonData = JSON.stringify(data);
+      const storageKey = this.getStorageKey(entity, filename);
       let serverWriteSuccessful = false;
+      let rejection: StorageConflictError | StorageValidationError | null = null;
 
-      // Try server storage first if enabled
-      if (this.config.useServerStorage) {
+      // Try server storage first if enabled. Changes queued earlier must reach the server first.
+      if (this.config.useServerStorage && (await this.syncPendingChanges())) {
         try {
-          const response = await fetch(`${this.config.apiBasePath}/${entity}${filename ? `/${filename}` : ""}`, {
+          const response = await this.request(`${this.config.apiBasePath}/${entity}${filename ? `/${filename}` : ""}`, {
             method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
+            headers: this.withIfMatch({ "Content-Type": "application/json" }, storageKey),
             body: jsonData,
           });
 
           if (response.ok) {
             console.log(`Successfully wrote data for ${entity} to server`);
+            this.rememberRevision(storageKey, response);
+            await this.rememberWrittenRevisions(entity, response);
             serverWriteSuccessful = true;
+
+            if (entity !== "metadata" && this.mirrorLocal(storageKey, jsonData)) {
+              this.markSynced(storageKey);
+            }
+          } else if (response.status === 409) {
+            const body = await response.json();
+            rejection = new StorageConflictError(entity, body.current ?? null);
+          } else if (response.status === 422) {
+            const body = await response.json();
+            rejection = new StorageValidationError(entity, body.errors || []);
           } else {
             throw new Error(`Server returned status ${response.status}`);
           }
@@ -132,7 +343,7 @@ export class StorageService {
           // Show toast notification about server storage failure
           toast.toast({
             title: "Storage Warning",
-            description: "Could not save to server. Data saved locally only.",
+            description: "Could not save to server. Changes saved locally and will sync when it is back.",
             variant: "warning",
           });
 
@@ -145,195 +356,1340 @@ export class StorageService {
         }
       }
 
-      // Use localStorage as fallback or if server storage is disabled
-      if (!serverWriteSuccessful && (this.config.fallbackToLocalStorage || !this.config.useServerStorage)) {
-        const storageKey = this.getStorageKey(entity, filename);
-        console.log(`Writing data to localStorage:${storageKey}, data size: ${jsonData.length} characters`);
-
-        // Create a backup before writing
-        const existingData = localStorage.getItem(storageKey);
-        if (existingData) {
-          localStorage.setItem(`${storageKey}_backup`, existingData);
-          console.log(`Created backup of existing ${entity} data in localStorage`);
-        }
+      // Never paper over a conflict or invalid data by writing locally
+      if (rejection) {
+        throw rejection;
+      }
 
-        // Write the data
-        localStorage.setItem(storageKey, jsonData);
-
-        // Verify the data was written
-        const verificationData = localStorage.getItem(storageKey);
-        if (!verificationData) {
-          console.error(`Failed to verify data was written to localStorage:${storageKey}`);
-        } else if (verificationData.length !== jsonData.length) {
-          console.error(
-            `Data verification failed: expected ${jsonData.length} characters but got ${verificationData.length}`
-          );
-        } else {
-          console.log(`Successfully wrote and verified data for ${entity} in localStorage`);
+      // Use localStorage as fallback or if server storage is disabled. The local metadata holds this
+      // browser's sync state, so a server metadata copy must not replace it.
+      const keepLocalMetadata = entity === "metadata" && this.config.useServerStorage;
+      if (
+        !serverWriteSuccessful &&
+        !keepLocalMetadata &&
+        (this.config.fallbackToLocalStorage || !this.config.useServerStorage)
+      ) {
+        this.writeLocal(entity, jsonData, filename);
+
+        if (this.config.useServerStorage) {
+          this.queueChange({ kind: "write", entity, filename, body: jsonData });
         }
       }
 
-      // Update metadata
-      if (entity !== "metadata") {
+      // Update metadata once the data has reached the server
+      if (entity !== "metadata" && serverWriteSuccessful) {
         this.updateMetadata();
       }
+
+      if (entity !== "metadata" && !filename) {
+        this.changeFeed.broadcast({ kind: "replace", entity });
+      }
     } catch (error) {
+      if (error instanceof StorageConflictError || error instanceof StorageValidationError) {
+        throw error;
+      }
+
       console.error(`Error writing ${entity} data:`, error);
       throw new Error(`Failed to save ${entity} data`);
     }
   }
 
   /**
-   * Update metadata with last sync time
+   * Delete an entity altogether, on the server and in this browser, such as the version history of a note that
+   * was deleted for good
    */
-  private async updateMetadata(): Promise<void> {
-    try {
-      let metadata: Record<string, unknown>;
+  async remove(entity: EntityType): Promise<void> {
+    if (!this.isClient) {
+      throw new Error("StorageService: remove() called on server side.");
+    }
+
+    const storageKey = this.getStorageKey(entity);
+    let serverRemoveSuccessful = false;
+
+    // Changes queued earlier must reach the server first, or a queued write could bring the entity back
+    if (this.config.useServerStorage && (await this.syncPendingChanges())) {
       try {
-        metadata = await this.read<Record<string, unknown>>("metadata");
-      } catch {
-        metadata = { lastSync: null };
+        const response = await this.request(`${this.config.apiBasePath}/${entity}`, { method: "DELETE" });
+
+        // Nothing stored on the server is as good as deleted
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`Server returned status ${response.status}`);
+        }
+
+        serverRemoveSuccessful = true;
+      } catch (error) {
+        console.warn(`Failed to delete ${entity} on server:`, error);
+
+        if (!this.config.fallbackToLocalStorage) {
+          throw error;
+        }
       }
+    }
 
-      metadata.lastSync = new Date().toISOString();
-      await this.write("metadata", metadata);
-    } catch (error) {
-      console.error("Error updating metadata:", error);
+    localStorage.removeItem(storageKey);
+    localStorage.removeItem(`${storageKey}_backup`);
+    this.revisions.delete(storageKey);
+
+    if (!serverRemoveSuccessful && this.config.useServerStorage) {
+      this.queueChange({ kind: "remove", entity });
     }
+
+    this.changeFeed.broadcast({ kind: "replace", entity });
   }
 
   /**
-   * Check if data exists
+   * Read a single record by ID (server or local)
    */
-  async exists(entity: EntityType, filename?: string): Promise<boolean> {
+  async readRecord<T extends StoredRecord>(entity: RecordEntityType, id: string): Promise<T | null> {
     if (!this.isClient) {
-      return false;
+      console.warn("StorageService: readRecord() called on server side. Returning null.");
+      return null;
     }
 
-    // Try server storage first if enabled
-    if (this.config.useServerStorage) {
-      try {
-        const response = await fetch(`${this.config.apiBasePath}/${entity}${filename ? `/${filename}` : ""}/exists`);
-        if (response.ok) {
-          const data = await response.json();
-          return data.exists;
-        }
-      } catch (error) {
-        console.warn(`Failed to check if ${entity} exists on server:`, error);
+    const response = await this.fetchRecordRoute(entity, id);
 
-        // Fall back to localStorage if enabled
-        if (!this.config.fallbackToLocalStorage) {
-          return false;
-        }
+    if (response) {
+      if (response.status === 404) {
+        return null;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      // Only seed the revision; a single-record read must not hide changes made since the last full read
+      const recordKey = `${entity}/${id}`;
+      if (!this.revisions.has(recordKey)) {
+        this.rememberRevision(recordKey, response);
       }
+
+      return (await response.json()) as T;
     }
 
-    // Use localStorage as fallback or if server storage is disabled
-    const storageKey = this.getStorageKey(entity, filename);
-    return localStorage.getItem(storageKey) !== null;
+    return this.readLocalRecords<T>(entity).find((record) => record.id === id) || null;
   }
 
   /**
-   * Create a backup of the data
+   * Create a single record without rewriting the rest of the collection
    */
-  async createBackup(entity: EntityType, filename?: string): Promise<string> {
+  async createRecord<T extends StoredRecord>(entity: RecordEntityType, record: T): Promise<T> {
     if (!this.isClient) {
-      throw new Error("StorageService: createBackup() called on server side.");
+      throw new Error("StorageService: createRecord() called on server side.");
     }
 
-    const timestamp = new Date().toISOString().replace(/:/g, "-");
+    const response = await this.fetchRecordRoute(entity, undefined, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(record),
+    });
 
-    // Try server storage first if enabled
-    if (this.config.useServerStorage) {
-      try {
-        const response = await fetch(`${this.config.apiBasePath}/${entity}${filename ? `/${filename}` : ""}/backup`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ timestamp }),
-        });
+    let created: T;
 
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`Successfully created backup for ${entity} on server`);
-          return data.backupId;
-        } else {
-          throw new Error(`Server returned status ${response.status}`);
-        }
-      } catch (error) {
-        console.warn(`Failed to create backup for ${entity} on server:`, error);
+    if (response) {
+      if (response.status === 422) {
+        const body = await response.json();
+        throw new StorageValidationError(entity, body.errors || []);
+      }
 
-        // Fall back to localStorage if enabled
-        if (!this.config.fallbackToLocalStorage) {
-          throw error;
-        }
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
       }
-    }
 
-    // Use localStorage as fallback or if server storage is disabled
-    const storageKey = this.getStorageKey(entity, filename);
-    const backupKey = `${storageKey}_${timestamp}_backup`;
+      created = (await response.json()) as T;
+      this.rememberRevision(`${entity}/${created.id}`, response);
+      this.mirrorRecord(entity, created.id, created);
+      this.updateMetadata();
+      console.log(`Successfully created ${entity} record ${created.id} on server`);
+    } else {
+      const records = this.readLocalRecords<T>(entity);
 
-    const data = localStorage.getItem(storageKey);
-    if (!data) {
-      throw new Error(`${entity} data does not exist in localStorage`);
+      if (records.some((existing) => existing.id === record.id)) {
+        throw new Error(`${entity} record ${record.id} already exists`);
+      }
+
+      this.writeLocal(entity, JSON.stringify([...records, record]));
+      created = record;
+
+      if (this.config.useServerStorage) {
+        this.queueChange({ kind: "create", entity, recordId: record.id, body: JSON.stringify(record) });
+      }
     }
 
-    localStorage.setItem(backupKey, data);
-    return backupKey;
+    this.changeFeed.broadcast({ kind: "upsert", entity, id: created.id, record: created });
+    return created;
   }
 
   /**
-   * Restore from a backup
+   * Merge changes into a single record. Fields set to undefined are removed from the stored record.
    */
-  async restoreFromBackup(entity: EntityType, backupId: string): Promise<void> {
+  async updateRecord<T extends StoredRecord>(entity: RecordEntityType, id: string, changes: Partial<T>): Promise<T> {
     if (!this.isClient) {
-      throw new Error("StorageService: restoreFromBackup() called on server side.");
+      throw new Error("StorageService: updateRecord() called on server side.");
     }
 
-    // Try server storage first if enabled
-    if (this.config.useServerStorage) {
-      try {
-        const response = await fetch(`${this.config.apiBasePath}/${entity}/restore`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ backupId }),
-        });
+    // Send undefined as null so the server knows to drop the field
+    const patch = Object.fromEntries(Object.entries(changes).map(([key, value]) => [key, value ?? null]));
 
-        if (response.ok) {
-          console.log(`Successfully restored ${entity} from backup on server`);
-          return;
-        } else {
-          throw new Error(`Server returned status ${response.status}`);
-        }
-      } catch (error) {
-        console.warn(`Failed to restore ${entity} from backup on server:`, error);
+    const recordKey = `${entity}/${id}`;
+    const response = await this.fetchRecordRoute(entity, id, {
+      method: "PATCH",
+      headers: this.withIfMatch({ "Content-Type": "application/json" }, recordKey),
+      body: JSON.stringify(patch),
+    });
 
-        // Fall back to localStorage if enabled
-        if (!this.config.fallbackToLocalStorage) {
-          throw error;
+    let updated: T;
+
+    if (response) {
+      if (response.status === 404) {
+        throw new Error(`${entity} record ${id} not found`);
+      }
+
+      if (response.status === 409) {
+        const body = await response.json();
+        throw new StorageConflictError<T>(entity, body.current ?? null);
+      }
+
+      if (response.status === 422) {
+        const body = await response.json();
+        throw new StorageValidationError(entity, body.errors || []);
+      }
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      updated = (await response.json()) as T;
+      this.rememberRevision(recordKey, response);
+      this.mirrorRecord(entity, id, updated);
+      this.updateMetadata();
+    } else {
+      const records = this.readLocalRecords<T>(entity);
+      const index = records.findIndex((record) => record.id === id);
+
+      if (index === -1) {
+        throw new Error(`${entity} record ${id} not found`);
+      }
+
+      const merged: Record<string, unknown> = { ...(records[index] as StoredRecord), ...patch, id };
+      Object.keys(patch).forEach((key) => {
+        if (patch[key] === null) {
+          delete merged[key];
         }
+      });
+
+      updated = merged as unknown as T;
+      records[index] = updated;
+      this.writeLocal(entity, JSON.stringify(records));
+
+      if (this.config.useServerStorage) {
+        this.queueChange({ kind: "update", entity, recordId: id, body: JSON.stringify(patch) });
       }
     }
 
-    // Use localStorage as fallback or if server storage is disabled
-    const data = localStorage.getItem(backupId);
-    if (!data) {
-      throw new Error("Backup data does not exist in localStorage");
+    this.changeFeed.broadcast({ kind: "upsert", entity, id, record: updated });
+    return updated;
+  }
+
+  /**
+   * Delete a single record by ID
+   */
+  async deleteRecord(entity: RecordEntityType, id: string): Promise<void> {
+    if (!this.isClient) {
+      throw new Error("StorageService: deleteRecord() called on server side.");
     }
 
-    const storageKey = this.getStorageKey(entity);
-    localStorage.setItem(storageKey, data);
+    const recordKey = `${entity}/${id}`;
+    const response = await this.fetchRecordRoute(entity, id, {
+      method: "DELETE",
+      headers: this.withIfMatch({}, recordKey),
+    });
+
+    if (response) {
+      if (response.status === 404) {
+        throw new Error(`${entity} record ${id} not found`);
+      }
+
+      if (response.status === 409) {
+        const body = await response.json();
+        throw new StorageConflictError(entity, body.current ?? null);
+      }
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      this.revisions.delete(recordKey);
+      this.mirrorRecord(entity, id, null);
+      this.updateMetadata();
+    } else {
+      const records = this.readLocalRecords(entity);
+      const filteredRecords = records.filter((record) => record.id !== id);
+
+      if (filteredRecords.length === records.length) {
+        throw new Error(`${entity} record ${id} not found`);
+      }
+
+      this.writeLocal(entity, JSON.stringify(filteredRecords));
+
+      if (this.config.useServerStorage) {
+        this.queueChange({ kind: "delete", entity, recordId: id });
+      }
+    }
+
+    this.changeFeed.broadcast({ kind: "delete", entity, id });
   }
 
   /**
-   * Toggle between server and local storage
+   * Call a per-record route. Returns null when server storage is disabled, unreachable or still
+   * waiting for queued changes, and the caller should fall back to localStorage.
    */
-  setUseServerStorage(useServer: boolean): void {
+  private async fetchRecordRoute(entity: RecordEntityType, id?: string, init?: RequestInit): Promise<Response | null> {
+    if (!this.config.useServerStorage || !(await this.syncPendingChanges())) {
+      return null;
+    }
+
+    try {
+      const response = await this.request(`${this.config.recordsBasePath}/${entity}${id ? `/${id}` : ""}`, init);
+
+      if (response.status >= 500) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return response;
+    } catch (error) {
+      console.warn(`Failed to reach ${entity} records on server:`, error);
+
+      if (init?.method) {
+        toast.toast({
+          title: "Storage Warning",
+          description: "Could not save to server. Changes saved locally and will sync when it is back.",
+          variant: "warning",
+        });
+      }
+
+      if (!this.config.fallbackToLocalStorage) {
+        throw error;
+      }
+
+      console.log(`Falling back to localStorage for ${entity}`);
+      return null;
+    }
+  }
+
+  /**
+   * Number of changes waiting to be sent to the server
+   */
+  getPendingChangeCount(): number {
+    return this.getOutbox().length;
+  }
+
+  /**
+   * Listen for changes to the number of pending changes. Returns an unsubscribe function.
+   */
+  onPendingChangesChange(listener: (count: number) => void): () => void {
+    this.outboxListeners.add(listener);
+    return () => {
+      this.outboxListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replay queued changes in order until the outbox is empty or the server stops answering.
+   * Resolves to true when nothing is left pending.
+   */
+  async syncPendingChanges(): Promise<boolean> {
+    if (!this.isClient || this.getOutbox().length === 0) {
+      return true;
+    }
+
+    if (!this.config.useServerStorage) {
+      return false;
+    }
+
+    if (!this.syncInProgress) {
+      this.syncInProgress = this.replayOutbox().finally(() => {
+        this.syncInProgress = null;
+      });
+    }
+
+    return this.syncInProgress;
+  }
+
+  private async replayOutbox(): Promise<boolean> {
+    let synced = 0;
+    let rejected = 0;
+
+    while (this.getOutbox().length > 0) {
+      const change = this.getOutbox()[0];
+      const result = await this.replayChange(change);
+
+      if (result === "unavailable") {
+        break;
+      }
+
+      const remaining = this.getOutbox().filter((pending) => pending.id !== change.id);
+
+      if (result === "rejected") {
+        rejected++;
+        this.saveOutbox(remaining);
+      } else {
+        synced++;
+        // Later changes to the same data were made on top of this one, so they now expect its new revision
+        const revisionKey = this.getRevisionKey(change);
+        const revision = this.revisions.get(revisionKey);
+        this.saveOutbox(
+          remaining.map((pending) =>
+            this.getRevisionKey(pending) === revisionKey ? { ...pending, revision } : pending
+          )
+        );
+      }
+    }
+
+    if (synced > 0) {
+      console.log(`Synced ${synced} pending change(s) to server`);
+      toast.success({
+        title: "Back online",
+        description: `${synced} offline change${synced === 1 ? "" : "s"} synced to the server.`,
+      });
+    }
+
+    if (rejected > 0) {
+      toast.warning({
+        title: "Sync Warning",
+        description: `${rejected} offline change${rejected === 1 ? "" : "s"} could not be applied on the server and need review.`,
+      });
+    }
+
+    return this.getOutbox().length === 0;
+  }
+
+  /**
+   * Send a single queued change to the server
+   */
+  private async replayChange(change: PendingChange): Promise<"synced" | "rejected" | "unavailable"> {
+    const storageKey = this.getStorageKey(change.entity, change.filename);
+    const recordKey = `${change.entity}/${change.recordId}`;
+    const recordUrl = `${this.config.recordsBasePath}/${change.entity}`;
+
+    let url: string;
+    let init: RequestInit;
+
+    switch (change.kind) {
+      case "write":
+        url = `${this.config.apiBasePath}/${change.entity}${change.filename ? `/${change.filename}` : ""}`;
+        init = {
+          method: "POST",
+          headers: this.withIfMatch({ "Content-Type": "application/json" }, storageKey, change.revision),
+          body: change.body,
+        };
+        break;
+      case "remove":
+        url = `${this.config.apiBasePath}/${change.entity}`;
+        init = { method: "DELETE" };
+        break;
+      case "create":
+        url = recordUrl;
+        init = { method: "POST", headers: { "Content-Type": "application/json" }, body: change.body };
+        break;
+      case "update":
+        url = `${recordUrl}/${change.recordId}`;
+        init = {
+          method: "PATCH",
+          headers: this.withIfMatch({ "Content-Type": "application/json" }, recordKey, change.revision),
+          body: change.body,
+        };
+        break;
+      case "delete":
+        url = `${recordUrl}/${change.recordId}`;
+        init = { method: "DELETE", headers: this.withIfMatch({}, recordKey, change.revision) };
+        break;
+    }
+
+    let response: Response;
+    try {
+      response = await this.request(url, init);
+    } catch (error) {
+      console.warn(`Server still unreachable, keeping ${this.getOutbox().length} change(s) queued:`, error);
+      return "unavailable";
+    }
+
+    if (response.status >= 500) {
+      return "unavailable";
+    }
+
+    // An entity that is already gone on the server counts as removed
+    if (!response.ok && !(change.kind === "remove" && response.status === 404)) {
+      console.warn(`Server rejected queued ${change.kind} of ${change.entity} with status ${response.status}`);
+      await this.recordRejectedChange(change, response);
+      return "rejected";
+    }
+
+    if (change.kind === "write") {
+      this.rememberRevision(storageKey, response);
+      await this.rememberWrittenRevisions(change.entity, response);
+      if (change.entity !== "metadata" && this.mirrorLocal(storageKey, change.body || "null")) {
+        this.markSynced(storageKey);
+      }
+    } else if (change.kind === "remove") {
+      this.revisions.delete(storageKey);
+    } else if (change.kind === "delete") {
+      this.revisions.delete(recordKey);
+    } else {
+      this.rememberRevision(recordKey, response);
+    }
+
+    return "synced";
+  }
+
+  /**
+   * Keep a queued change the server refused, so the local version is not lost. Record changes that clash with the
+   * server become conflicts to resolve; anything else is kept as a rejected change with the server's reason.
+   */
+  private async recordRejectedChange(change: PendingChange, response: Response): Promise<void> {
+    const body = await response.json().catch(() => ({}));
+    const current = body.current ?? null;
+
+    // A delete of a record that is already gone needs no review
+    if (change.kind === "delete" && response.status === 404) {
+      return;
+    }
+
+    if (RECORD_ENTITIES.includes(change.entity) && (response.status === 409 || response.status === 404)) {
+      const entity = change.entity as RecordEntityType;
+
+      if (change.kind === "write" && Array.isArray(current)) {
+        const local = JSON.parse(change.body || "[]") as StoredRecord[];
+        const storageKey = this.getStorageKey(entity);
+        this.addConflicts(mergeRecordCollections(entity, local, current, this.getLastSync(storageKey)).conflicts);
+        return;
+      }
+
+      if (change.kind !== "write" && change.recordId) {
+        const local =
+          change.kind === "delete" ? null : this.readLocalRecords(entity).find((r) => r.id === change.recordId);
+        if (local !== undefined) {
+          this.addConflicts([{ entity, id: change.recordId, local, server: current }]);
+          return;
+        }
+      }
+    }
+
+    const reason =
+      response.status === 422
+        ? new StorageValidationError(change.entity, body.errors || []).message
+        : response.status === 409
+          ? new StorageConflictError(change.entity, null).message
+          : typeof body.error === "string"
+            ? body.error
+            : `Server returned status ${response.status}`;
+
+    this.saveRejectedChanges([
+      ...this.getRejectedChanges(),
+      { ...change, status: response.status, reason, rejectedAt: new Date().toISOString() },
+    ]);
+  }
+
+  /**
+   * Queued changes the server refused that are not record conflicts, oldest first
+   */
+  getRejectedChanges(): RejectedChange[] {
+    if (!this.rejectedChanges) {
+      const rawData = this.isClient ? localStorage.getItem(`${this.basePath}_rejected`) : null;
+      this.rejectedChanges = rawData ? JSON.parse(rawData) : [];
+    }
+
+    return this.rejectedChanges as RejectedChange[];
+  }
+
+  /**
+   * Listen for changes to the list of rejected changes. Returns an unsubscribe function.
+   */
+  onRejectedChangesChange(listener: (changes: RejectedChange[]) => void): () => void {
+    this.rejectedListeners.add(listener);
+    return () => {
+      this.rejectedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop a rejected change, giving up the local edit it carried
+   */
+  discardRejectedChange(id: string): void {
+    this.saveRejectedChanges(this.getRejectedChanges().filter((change) => change.id !== id));
+  }
+
+  /**
+   * Send a rejected change again without an expected revision, so it replaces whatever the server has now
+   */
+  async retryRejectedChange(id: string): Promise<boolean> {
+    const rejected = this.getRejectedChanges().find((change) => change.id === id);
+    if (!rejected) {
+      return true;
+    }
+
+    this.discardRejectedChange(id);
+    this.saveOutbox([
+      ...this.getOutbox(),
+      {
+        id: rejected.id,
+        kind: rejected.kind,
+        entity: rejected.entity,
+        filename: rejected.filename,
+        recordId: rejected.recordId,
+        body: rejected.body,
+        queuedAt: rejected.queuedAt,
+      },
+    ]);
+    this.revisions.delete(this.getRevisionKey(rejected));
+
+    return this.syncPendingChanges();
+  }
+
+  private saveRejectedChanges(changes: RejectedChange[]): void {
+    this.rejectedChanges = changes;
+    localStorage.setItem(`${this.basePath}_rejected`, JSON.stringify(changes));
+    this.rejectedListeners.forEach((listener) => listener(changes));
+  }
+
+  /**
+   * Key of the revision a change is checked against: the whole file for writes, the record otherwise
+   */
+  private getRevisionKey(change: Pick<PendingChange, "kind" | "entity" | "filename" | "recordId">): string {
+    return change.kind === "write" || change.kind === "remove"
+      ? this.getStorageKey(change.entity, change.filename)
+      : `${change.entity}/${change.recordId}`;
+  }
+
+  /**
+   * Add a failed mutation to the outbox. A full write or a removal replaces everything queued before it for the
+   * same data.
+   */
+  private queueChange(change: Omit<PendingChange, "id" | "queuedAt">): void {
+    // Metadata only tracks the last sync time and is rewritten after every change anyway
+    if (change.entity === "metadata") {
+      return;
+    }
+
+    let outbox = this.getOutbox();
+
+    // After a reload this session may not know the revision yet, but an earlier queued change to the same data does
+    const revisionKey = this.getRevisionKey(change);
+    const revision =
+      this.revisions.get(revisionKey) ??
+      [...outbox].reverse().find((pending) => this.getRevisionKey(pending) === revisionKey)?.revision;
+
+    if (change.kind === "write" || change.kind === "remove") {
+      outbox = outbox.filter(
+        (pending) =>
+          pending.entity !== change.entity || (pending.filename || undefined) !== (change.filename || undefined)
+      );
+    }
+
+    this.saveOutbox([...outbox, { ...change, revision, id: generateId(), queuedAt: new Date().toISOString() }]);
+  }
+
+  private getOutbox(): PendingChange[] {
+    if (!this.outbox) {
+      const rawData = this.isClient ? localStorage.getItem(`${this.basePath}_outbox`) : null;
+      this.outbox = rawData ? JSON.parse(rawData) : [];
+    }
+
+    return this.outbox as PendingChange[];
+  }
+
+  private saveOutbox(outbox: PendingChange[]): void {
+    this.outbox = outbox;
+    localStorage.setItem(`${this.basePath}_outbox`, JSON.stringify(outbox));
+    this.outboxListeners.forEach((listener) => listener(outbox.length));
+  }
+
+  /**
+   * Records that were changed both locally and on the server and need the user to pick a version
+   */
+  getConflicts(): RecordConflict[] {
+    if (!this.conflicts) {
+      const rawData = this.isClient ? localStorage.getItem(`${this.basePath}_conflicts`) : null;
+      this.conflicts = rawData ? JSON.parse(rawData) : [];
+    }
+
+    return this.conflicts as RecordConflict[];
+  }
+
+  /**
+   * Listen for changes to the list of unresolved conflicts. Returns an unsubscribe function.
+   */
+  onConflictsChange(listener: (conflicts: RecordConflict[]) => void): () => void {
+    this.conflictListeners.add(listener);
+    return () => {
+      this.conflictListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Follow changes made in other tabs and by other clients. Record changes update the revision this client
+   * expects, so its next write to the record is not refused as a conflict.
+   */
+  onRemoteChange(listener: (change: DataChange) => void): () => void {
+    return this.changeFeed.subscribe((change) => {
+      const recordKey = `${change.entity}/${"id" in change ? change.id : ""}`;
+
+      // Echoes of this client's own earlier writes can arrive late, so only ever move the revision forward
+      const known = Number(this.revisions.get(recordKey));
+      const revision = change.kind === "upsert" ? (change.record.revision ?? 0) : 0;
+      if (change.kind === "upsert" && !(known >= revision)) {
+        this.revisions.set(recordKey, String(revision));
+      } else if (change.kind === "delete") {
+        this.revisions.delete(recordKey);
+      }
+
+      listener(change);
+    });
+  }
+
+  /**
+   * Settle a conflict by keeping either the local or the server version of the record
+   */
+  async resolveConflict(conflict: RecordConflict, keep: "local" | "server"): Promise<void> {
+    const entity = conflict.entity as RecordEntityType;
+
+    if (keep === "local") {
+      const updatedAt = new Date().toISOString();
+
+      if (!conflict.local) {
+        await this.deleteRecord(entity, conflict.id);
+      } else if (!conflict.server) {
+        await this.createRecord(entity, { ...conflict.local, updatedAt });
+      } else {
+        // Replace the server version entirely, dropping fields the local version does not have
+        const changes: Record<string, unknown> = { ...conflict.local, updatedAt };
+        Object.keys(conflict.server).forEach((key) => {
+          if (!(key in changes)) {
+            changes[key] = undefined;
+          }
+        });
+        await this.updateRecord(entity, conflict.id, changes as Partial<StoredRecord>);
+      }
+    }
+
+    this.saveConflicts(
+      this.getConflicts().filter((existing) => existing.entity !== conflict.entity || existing.id !== conflict.id)
+    );
+  }
+
+  private addConflicts(conflicts: RecordConflict[]): void {
+    if (conflicts.length === 0) {
+      return;
+    }
+
+    // A newer conflict for the same record replaces the older one
+    const remaining = this.getConflicts().filter(
+      (existing) => !conflicts.some((conflict) => conflict.entity === existing.entity && conflict.id === existing.id)
+    );
+    this.saveConflicts([...remaining, ...conflicts]);
+  }
+
+  private saveConflicts(conflicts: RecordConflict[]): void {
+    this.conflicts = conflicts;
+    localStorage.setItem(`${this.basePath}_conflicts`, JSON.stringify(conflicts));
+    this.conflictListeners.forEach((listener) => listener(conflicts));
+  }
+
+  /**
+   * Merge the local copy of a collection with the copy just read from the server. Non-conflicting
+   * local changes are pushed to the server; conflicting records keep the server version until resolved.
+   */
+  private async reconcileWithLocal<T extends StoredRecord>(entity: RecordEntityType, serverRecords: T[]): Promise<T[]> {
+    const storageKey = this.getStorageKey(entity);
+    const rawData = localStorage.getItem(storageKey);
+    const localRecords = rawData ? JSON.parse(rawData) : null;
+
+    if (!Array.isArray(localRecords)) {
+      if (this.mirrorLocal(storageKey, JSON.stringify(serverRecords))) {
+        this.markSynced(storageKey);
+      }
+      return serverRecords;
+    }
+
+    const { merged, conflicts, hasLocalChanges } = mergeRecordCollections<T>(
+      entity,
+      localRecords,
+      serverRecords,
+      this.getLastSync(storageKey)
+    );
+
+    if (conflicts.length > 0) {
+      console.warn(`Found ${conflicts.length} conflicting ${entity} record(s) between local and server copies`);
+      this.addConflicts(conflicts);
+    }
+
+    if (!hasLocalChanges) {
+      if (this.mirrorLocal(storageKey, JSON.stringify(merged))) {
+        this.markSynced(storageKey);
+      }
+      return merged;
+    }
+
+    console.log(`Merging local changes to ${entity} into the server copy`);
+    try {
+      // Marks the entity as synced once the server has it, and picks up the revisions it gave the records
+      await this.write(entity, merged);
+    } catch (error) {
+      console.error(`Failed to push merged ${entity} to server:`, error);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Keep the local copy of a collection in step with a record change the server accepted
+   */
+  private mirrorRecord<T extends StoredRecord>(entity: RecordEntityType, id: string, record: T | null): void {
+    const storageKey = this.getStorageKey(entity);
+
+    // Only a complete copy is worth maintaining; a partial one would look like local deletions
+    if (localStorage.getItem(storageKey) === null) {
+      return;
+    }
+
+    const records = this.readLocalRecords<T>(entity);
+    const index = records.findIndex((existing) => existing.id === id);
+
+    if (!record) {
+      if (index !== -1) {
+        records.splice(index, 1);
+      }
+    } else if (index === -1) {
+      records.push(record);
+    } else {
+      records[index] = record;
+    }
+
+    if (this.mirrorLocal(storageKey, JSON.stringify(records)) && this.getLastSync(storageKey)) {
+      this.markSynced(storageKey);
+    }
+  }
+
+  /**
+   * Copy data the server holds into localStorage so it is available offline. Returns false if it does not fit.
+   */
+  private mirrorLocal(storageKey: string, jsonData: string): boolean {
+    try {
+      localStorage.setItem(storageKey, jsonData);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to keep a local copy of ${storageKey}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * When the local copy of an entity last matched the server, from the local metadata
+   */
+  private getLastSync(storageKey: string): string | null {
+    const metadata = this.readLocalMetadata();
+    const entitySync = metadata.entitySync as Record<string, string> | undefined;
+    return entitySync?.[storageKey] ?? null;
+  }
+
+  /**
+   * Record that the local copy of an entity matches the server as of now
+   */
+  private markSynced(storageKey: string): void {
+    const metadata = this.readLocalMetadata();
+    const now = new Date().toISOString();
+
+    metadata.lastSync = now;
+    metadata.entitySync = { ...(metadata.entitySync as Record<string, string> | undefined), [storageKey]: now };
+    this.mirrorLocal(this.getStorageKey("metadata"), JSON.stringify(metadata));
+  }
+
+  private readLocalMetadata(): Record<string, unknown> {
+    try {
+      const rawData = localStorage.getItem(this.getStorageKey("metadata"));
+      const metadata = rawData ? JSON.parse(rawData) : null;
+      return metadata && typeof metadata === "object" ? metadata : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Remember the revision the server reported in a response's ETag header
+   */
+  private rememberRevision(key: string, response: Response): void {
+    const etag = response.headers.get("ETag");
+    if (etag) {
+      this.revisions.set(key, etag.replace(/^W\//, "").replace(/^"(.*)"$/, "$1"));
+    }
+  }
+
+  /**
+   * Remember the revisions the server gave the records of a collection written whole
+   */
+  private async rememberWrittenRevisions(entity: EntityType, response: Response): Promise<void> {
+    try {
+      const body = await response.json();
+      Object.entries<string>(body?.revisions || {}).forEach(([id, revision]) => {
+        this.revisions.set(`${entity}/${id}`, revision);
+      });
+    } catch {
+      // Nothing to remember from a response without a JSON body
+    }
+  }
+
+  /**
+   * Add an If-Match header when this client knows which revision it is changing. A queued change passes the
+   * revision it was made against; changes queued before revisions were stored with them fall back to this session's.
+   */
+  private withIfMatch(
+    headers: Record<string, string>,
+    key: string,
+    revision = this.revisions.get(key)
+  ): Record<string, string> {
+    return revision ? { ...headers, "If-Match": `"${revision}"` } : headers;
+  }
+
+  /**
+   * Read a record collection from localStorage
+   */
+  private readLocalRecords<T extends StoredRecord>(entity: RecordEntityType): T[] {
+    const rawData = localStorage.getItem(this.getStorageKey(entity));
+    const records = rawData ? JSON.parse(rawData) : [];
+    return Array.isArray(records) ? records : [];
+  }
+
+  /**
+   * Write serialized data to localStorage, keeping a backup of the previous value
+   */
+  private writeLocal(entity: EntityType, jsonData: string, filename?: string): void {
+    const storageKey = this.getStorageKey(entity, filename);
+    console.log(`Writing data to localStorage:${storageKey}, data size: ${jsonData.length} characters`);
+
+    // Create a backup before writing
+    const existingData = localStorage.getItem(storageKey);
+    if (existingData) {
+      localStorage.setItem(`${storageKey}_backup`, existingData);
+      console.log(`Created backup of existing ${entity} data in localStorage`);
+    }
+
+    // Write the data
+    localStorage.setItem(storageKey, jsonData);
+
+    // Verify the data was written
+    const verificationData = localStorage.getItem(storageKey);
+    if (!verificationData) {
+      console.error(`Failed to verify data was written to localStorage:${storageKey}`);
+    } else if (verificationData.length !== jsonData.length) {
+      console.error(
+        `Data verification failed: expected ${jsonData.length} characters but got ${verificationData.length}`
+      );
+    } else {
+      console.log(`Successfully wrote and verified data for ${entity} in localStorage`);
+    }
+  }
+
+  /**
+   * Update this browser's metadata with the last sync time. The server's metadata is server-owned, so this stays local.
+   */
+  private updateMetadata(): void {
+    const metadata = this.readLocalMetadata();
+    metadata.lastSync = new Date().toISOString();
+    this.mirrorLocal(this.getStorageKey("metadata"), JSON.stringify(metadata));
+  }
+
+  /**
+   * Check if data exists
+   */
+  async exists(entity: EntityType, filename?: string): Promise<boolean> {
+    if (!this.isClient) {
+      return false;
+    }
+
+    // Try server storage first if enabled
+    if (this.config.useServerStorage) {
+      try {
+        const response = await this.request(
+          `${this.config.apiBasePath}/${entity}${filename ? `/${filename}` : ""}/exists`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          return data.exists;
+        }
+      } catch (error) {
+        console.warn(`Failed to check if ${entity} exists on server:`, error);
+
+        // Fall back to localStorage if enabled
+        if (!this.config.fallbackToLocalStorage) {
+          return false;
+        }
+      }
+    }
+
+    // Use localStorage as fallback or if server storage is disabled
+    const storageKey = this.getStorageKey(entity, filename);
+    return localStorage.getItem(storageKey) !== null;
+  }
+
+  /**
+   * Create a backup of the data
+   */
+  async createBackup(entity: EntityType, filename?: string): Promise<string> {
+    if (!this.isClient) {
+      throw new Error("StorageService: createBackup() called on server side.");
+    }
+
+    const timestamp = new Date().toISOString().replace(/:/g, "-");
+
+    // Try server storage first if enabled
+    if (this.config.useServerStorage) {
+      try {
+        const query = new URLSearchParams({ operation: "backup", ...(filename ? { filename } : {}) });
+        const response = await this.request(`${this.config.apiBasePath}/${entity}?${query}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ timestamp }),
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          console.log(`Successfully created backup for ${entity} on server`);
+          return data.backupId;
+        } else {
+          throw new Error(`Server returned status ${response.status}`);
+        }
+      } catch (error) {
+        console.warn(`Failed to create backup for ${entity} on server:`, error);
+
+        // Fall back to localStorage if enabled
+        if (!this.config.fallbackToLocalStorage) {
+          throw error;
+        }
+      }
+    }
+
+    // Use localStorage as fallback or if server storage is disabled
+    const storageKey = this.getStorageKey(entity, filename);
+    const backupKey = `${storageKey}_${timestamp}_backup`;
+
+    const data = localStorage.getItem(storageKey);
+    if (!data) {
+      throw new Error(`${entity} data does not exist in localStorage`);
+    }
+
+    localStorage.setItem(backupKey, data);
+    return backupKey;
+  }
+
+  /**
+   * Restore from a backup
+   */
+  async restoreFromBackup(entity: EntityType, backupId: string): Promise<void> {
+    if (!this.isClient) {
+      throw new Error("StorageService: restoreFromBackup() called on server side.");
+    }
+
+    // Try server storage first if enabled
+    if (this.config.useServerStorage) {
+      try {
+        const response = await this.request(`${this.config.apiBasePath}/${entity}?operation=restore`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ backupId }),
+        });
+
+        if (response.ok) {
+          console.log(`Successfully restored ${entity} from backup on server`);
+          localStorage.removeItem(this.getStorageKey(entity));
+          this.revisions.delete(this.getStorageKey(entity));
+          return;
+        } else {
+          throw new Error(`Server returned status ${response.status}`);
+        }
+      } catch (error) {
+        console.warn(`Failed to restore ${entity} from backup on server:`, error);
+
+        // Fall back to localStorage if enabled
+        if (!this.config.fallbackToLocalStorage) {
+          throw error;
+        }
+      }
+    }
+
+    // Use localStorage as fallback or if server storage is disabled
+    const data = localStorage.getItem(backupId);
+    if (!data) {
+      throw new Error("Backup data does not exist in localStorage");
+    }
+
+    const storageKey = this.getStorageKey(entity);
+    localStorage.setItem(storageKey, data);
+  }
+
+  /**
+   * List the server's backups of every entity, newest first
+   */
+  async listServerBackups(): Promise<BackupInfo[]> {
+    try {
+      const response = await this.request(this.config.backupsBasePath);
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return (await response.json()) as BackupInfo[];
+    } catch (error) {
+      console.error("Error listing server backups:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Describe a server backup, including how many records it holds compared with the current data
+   */
+  async previewServerBackup(entity: EntityType, backupId: string): Promise<BackupPreview> {
+    try {
+      const response = await this.request(`${this.config.backupsBasePath}/${entity}/${encodeURIComponent(backupId)}`);
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return (await response.json()) as BackupPreview;
+    } catch (error) {
+      console.error(`Error previewing ${entity} backup ${backupId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an entity's server data with one of its backups
+   */
+  async restoreServerBackup(entity: EntityType, backupId: string): Promise<void> {
+    if (!this.isClient) {
+      throw new Error("StorageService: restoreServerBackup() called on server side.");
+    }
+
+    try {
+      const response = await this.request(`${this.config.backupsBasePath}/${entity}/${encodeURIComponent(backupId)}`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      // The local copy predates the restore, so merging it back in would undo it. Take the server copy next read.
+      const storageKey = this.getStorageKey(entity);
+      localStorage.removeItem(storageKey);
+      this.revisions.delete(storageKey);
+    } catch (error) {
+      console.error(`Error restoring ${entity} backup ${backupId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the server backups of an entity that a retention policy does not keep
+   */
+  async pruneServerBackups(entity: EntityType, policy?: Partial<BackupRetentionPolicy>): Promise<PruneResult> {
+    try {
+      const response = await this.request(`${this.config.backupsBasePath}/${entity}?operation=prune`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(policy || {}),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return (await response.json()) as PruneResult;
+    } catch (error) {
+      console.error(`Error pruning ${entity} backups:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the server's change journal, newest first
+   */
+  async getJournal(query: JournalQuery = {}): Promise<JournalEntry[]> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    });
+
+    try {
+      const response = await this.request(`${this.config.journalPath}?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return (await response.json()) as JournalEntry[];
+    } catch (error) {
+      console.error("Error reading journal:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download every entity the server holds as one archive
+   */
+  async exportWorkspace(): Promise<WorkspaceArchive> {
+    try {
+      const response = await this.request(this.config.workspacePath);
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return (await response.json()) as WorkspaceArchive;
+    } catch (error) {
+      console.error("Error exporting workspace:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Preview or apply a workspace import on the server, returning what changes per entity
+   */
+  async importWorkspace(archive: WorkspaceArchive, mode: ImportMode, preview = false): Promise<EntityImportSummary[]> {
+    if (!this.isClient) {
+      throw new Error("StorageService: importWorkspace() called on server side.");
+    }
+
+    try {
+      const query = new URLSearchParams({ operation: preview ? "preview" : "import", mode });
+      const response = await this.request(`${this.config.workspacePath}?${query}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(archive),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Server returned status ${response.status}`);
+      }
+
+      const summaries = (await response.json()) as EntityImportSummary[];
+
+      // Local copies predate the import and would be merged back over it, so take the server's next read
+      if (!preview) {
+        summaries.forEach(({ entity }) => {
+          localStorage.removeItem(this.getStorageKey(entity));
+          this.revisions.delete(this.getStorageKey(entity));
+        });
+      }
+
+      return summaries;
+    } catch (error) {
+      console.error(`Error ${preview ? "previewing" : "importing"} workspace:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Report how much space the server's copy of this workspace takes
+   */
+  async getStorageReport(): Promise<StorageReport> {
+    try {
+      const response = await this.request(this.config.usagePath);
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return (await response.json()) as StorageReport;
+    } catch (error) {
+      console.error("Error reading storage report:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the version histories and attachments the server could reclaim
+   */
+  async findGarbage(): Promise<GarbageReport> {
+    return this.postGarbage<GarbageReport>("preview", {});
+  }
+
+  /**
+   * Reclaim garbage found by findGarbage(). The server checks everything again and skips whatever is in use by now.
+   */
+  async collectGarbage(garbage: GarbageReport): Promise<CollectResult> {
+    return this.postGarbage<CollectResult>("collect", {
+      versionHistories: garbage.versionHistories.map((history) => history.noteId),
+      attachments: garbage.attachments.map((attachment) => attachment.hash),
+    });
+  }
+
+  private async postGarbage<T>(operation: "preview" | "collect", selection: Record<string, string[]>): Promise<T> {
+    if (!this.isClient) {
+      throw new Error(`StorageService: ${operation} garbage called on server side.`);
+    }
+
+    try {
+      const response = await this.request(`${this.config.usagePath}?operation=${operation}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...selection, keep: this.findLocalAttachmentHashes() }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}`);
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      console.error(`Error in garbage ${operation}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the attachments referred to from this browser's local data in any workspace, which the server cannot see
+   */
+  private findLocalAttachmentHashes(): string[] {
+    const hashes = new Set<string>();
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith("taskflow_")) {
+        findAttachmentHashes(localStorage.getItem(key) || "").forEach((hash) => hashes.add(hash));
+      }
+    }
+
+    return Array.from(hashes);
+  }
+
+  /**
+   * Toggle between server and local storage
+   */
+  setUseServerStorage(useServer: boolean): void {
+    // Local-only edits carry no sync history, so the next merge must not treat anything as deleted
+    if (useServer && !this.config.useServerStorage && this.isClient) {
+      const metadata = this.readLocalMetadata();
+      delete metadata.entitySync;
+      this.mirrorLocal(this.getStorageKey("metadata"), JSON.stringify(metadata));
+    }
+
     this.config.useServerStorage = useServer;
+    this.changeFeed.setServerEnabled(useServer);
     console.log(`Storage mode set to: ${useServer ? "server" : "local"} storage`);
   }
 
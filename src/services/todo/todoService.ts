@@ -1,6 +1,8 @@
 import { Todo } from "@/types";
 import { storageService } from "../storage";
+import { RecordChange, relationService } from "../relations";
 import { generateId } from "@/lib/utils";
+import { getTodoErrors } from "@/lib/validation";
 
 /**
  * TodoService handles all todo-related operations
@@ -23,8 +25,7 @@ export class TodoService {
    */
   async getTodoById(id: string): Promise<Todo | null> {
     try {
-      const todos = await this.getTodos();
-      return todos.find((todo) => todo.id === id) || null;
+      return await storageService.readRecord<Todo>("todos", id);
     } catch (error) {
       console.error(`Error getting todo ${id}:`, error);
       return null;
@@ -39,8 +40,6 @@ export class TodoService {
       // Validate the todo
       this.validateTodo(todoData);
 
-      const todos = await this.getTodos();
-
       const newTodo: Todo = {
         id: generateId(),
         ...todoData,
@@ -48,13 +47,8 @@ export class TodoService {
         updatedAt: new Date().toISOString(),
       };
 
-      // Add the new todo
-      todos.push(newTodo);
-
       // Save to storage
-      await storageService.write("todos", todos);
-
-      return newTodo;
+      return await storageService.createRecord("todos", newTodo);
     } catch (error) {
       console.error("Error creating todo:", error);
       throw error;
@@ -66,30 +60,22 @@ export class TodoService {
    */
   async updateTodo(id: string, todoData: Partial<Omit<Todo, "id" | "createdAt">>): Promise<Todo> {
     try {
-      const todos = await this.getTodos();
-      const index = todos.findIndex((todo) => todo.id === id);
+      const todo = await this.getTodoById(id);
 
-      if (index === -1) {
+      if (!todo) {
         throw new Error(`Todo with id ${id} not found`);
       }
 
-      // Create the updated todo
-      const updatedTodo: Todo = {
-        ...todos[index],
+      const changes = {
         ...todoData,
         updatedAt: new Date().toISOString(),
       };
 
       // Validate the updated todo
-      this.validateTodo(updatedTodo);
+      this.validateTodo({ ...todo, ...changes });
 
-      // Update the todo in the array
-      todos[index] = updatedTodo;
-
-      // Save to storage
-      await storageService.write("todos", todos);
-
-      return updatedTodo;
+      // Save only the changed fields to storage
+      return await storageService.updateRecord<Todo>("todos", id, changes);
     } catch (error) {
       console.error(`Error updating todo ${id}:`, error);
       throw error;
@@ -99,19 +85,16 @@ export class TodoService {
   /**
    * Delete a todo
    */
-  async deleteTodo(id: string): Promise<boolean> {
+  async deleteTodo(id: string): Promise<RecordChange[]> {
     try {
-      const todos = await this.getTodos();
-      const filteredTodos = todos.filter((todo) => todo.id !== id);
+      const todo = await this.getTodoById(id);
 
-      if (filteredTodos.length === todos.length) {
+      if (!todo) {
         throw new Error(`Todo with id ${id} not found`);
       }
 
-      // Save to storage
-      await storageService.write("todos", filteredTodos);
-
-      return true;
+      // Linked records are cascaded, unlinked or block the delete as the delete rules say
+      return await relationService.deleteRecord("todos", id);
     } catch (error) {
       console.error(`Error deleting todo ${id}:`, error);
       throw error;
@@ -177,52 +160,10 @@ export class TodoService {
    * Validate a todo
    */
   private validateTodo(todo: Partial<Todo>): void {
-    // Title is required
-    if (!todo.title || todo.title.trim().length === 0) {
-      throw new Error("Todo title is required");
-    }
-
-    // Title max length
-    if (todo.title.length > 100) {
-      throw new Error("Todo title must be 100 characters or less");
-    }
-
-    // Description max length
-    if (todo.description && todo.description.length > 500) {
-      throw new Error("Todo description must be 500 characters or less");
-    }
-
-    // Due date must be valid
-    if (todo.dueDate) {
-      const dueDate = new Date(todo.dueDate);
-      if (isNaN(dueDate.getTime())) {
-        throw new Error("Invalid due date");
-      }
-    }
-
-    // Validate subtasks
-    if (todo.subtasks && !Array.isArray(todo.subtasks)) {
-      throw new Error("Subtasks must be an array");
-    }
-
-    // Validate tags
-    if (todo.tags && !Array.isArray(todo.tags)) {
-      throw new Error("Tags must be an array");
-    }
-
-    // Validate images
-    if (todo.images && !Array.isArray(todo.images)) {
-      throw new Error("Images must be an array");
-    }
-
-    // Validate status
-    if (todo.status && !["pending", "in-progress", "completed"].includes(todo.status)) {
-      throw new Error("Invalid status");
-    }
-
-    // Validate priority
-    if (todo.priority && !["low", "medium", "high"].includes(todo.priority)) {
-      throw new Error("Invalid priority");
+    // Same rules the storage routes apply, so the client and server cannot disagree
+    const errors = getTodoErrors(todo);
+    if (errors.length > 0) {
+      throw new Error(errors[0].message);
     }
   }
 }
@@ -0,0 +1,7 @@
+import { TrashService } from "./trashService";
+
+// Create a singleton instance of the trash service
+export const trashService = new TrashService();
+
+// Re-export the service
+export * from "./trashService";
@@ -0,0 +1,185 @@
+import { Note, Project, Todo } from "@/types";
+import { generateId } from "@/lib/utils";
+import { RecordEntityType, storageService } from "../storage";
+
+export const TRASH_ENTITY = "trash";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface TrashRecordTypes {
+  todos: Todo;
+  projects: Project;
+  notes: Note;
+}
+
+/**
+ * A link to a deleted record that was removed from a record that stayed, kept so a restore can put it back
+ */
+export interface TrashLink {
+  relation: string;
+  entity: RecordEntityType;
+  id: string;
+  // The linking record as it was before the delete
+  before: TrashRecordTypes[RecordEntityType];
+}
+
+/**
+ * A deleted record, kept until it is restored, deleted permanently or purged
+ */
+export interface TrashItem<E extends RecordEntityType = RecordEntityType> {
+  id: string;
+  entity: E;
+  record: TrashRecordTypes[E];
+  links?: TrashLink[];
+  deletedAt: string;
+}
+
+/**
+ * TrashService keeps deleted todos, projects and notes so they can be restored
+ */
+export class TrashService {
+  /**
+   * Get everything in the trash, most recently deleted first
+   */
+  async getItems(): Promise<TrashItem[]> {
+    try {
+      const items = await storageService.read<TrashItem[]>(TRASH_ENTITY);
+      return Array.isArray(items) ? [...items].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)) : [];
+    } catch (error) {
+      console.error("Error reading trash:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Move a record into the trash and remove it from its collection, along with the links to it that were removed
+   * from other records
+   */
+  async moveToTrash<E extends RecordEntityType>(
+    entity: E,
+    record: TrashRecordTypes[E],
+    links: TrashLink[] = []
+  ): Promise<TrashItem<E>> {
+    try {
+      const item: TrashItem<E> = {
+        id: generateId(),
+        entity,
+        record,
+        ...(links.length > 0 ? { links } : {}),
+        deletedAt: new Date().toISOString(),
+      };
+
+      // Keep the copy before removing the original, so a failed delete loses nothing
+      const items = await this.getItems();
+      await storageService.write(TRASH_ENTITY, [item, ...items]);
+
+      try {
+        await storageService.deleteRecord(entity, record.id);
+      } catch (error) {
+        await storageService.write(TRASH_ENTITY, items);
+        throw error;
+      }
+
+      return item;
+    } catch (error) {
+      console.error(`Error moving ${entity} record ${record.id} to trash:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put a trashed record back in its collection. A record that is already back, for example through undo,
+   * is left as it is. Links other records had to it are not put back here; relationService.restoreRecord does that.
+   */
+  async restore(itemId: string): Promise<TrashItem> {
+    try {
+      const items = await this.getItems();
+      const item = items.find((candidate) => candidate.id === itemId);
+
+      if (!item) {
+        throw new Error(`Trash item ${itemId} not found`);
+      }
+
+      if (!(await storageService.readRecord(item.entity, item.record.id))) {
+        await storageService.createRecord(item.entity, { ...item.record, updatedAt: new Date().toISOString() });
+      }
+
+      await storageService.write(
+        TRASH_ENTITY,
+        items.filter((candidate) => candidate.id !== itemId)
+      );
+      return item;
+    } catch (error) {
+      console.error(`Error restoring trash item ${itemId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the trash copies of a record that came back another way, such as undo
+   */
+  async discardRecord(entity: RecordEntityType, recordId: string): Promise<void> {
+    try {
+      const items = await this.getItems();
+      const remaining = items.filter((item) => item.entity !== entity || item.record.id !== recordId);
+
+      if (remaining.length !== items.length) {
+        await storageService.write(TRASH_ENTITY, remaining);
+      }
+    } catch (error) {
+      console.error(`Error removing ${entity} record ${recordId} from trash:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete trashed records for good, along with anything only they use
+   */
+  async deletePermanently(itemIds: string[]): Promise<void> {
+    try {
+      const items = await this.getItems();
+      const ids = new Set(itemIds);
+
+      // Note version history lives in an entity of its own per note
+      for (const item of items) {
+        if (ids.has(item.id) && item.entity === "notes") {
+          await storageService.remove(`note_versions_${item.record.id}`);
+        }
+      }
+
+      await storageService.write(
+        TRASH_ENTITY,
+        items.filter((item) => !ids.has(item.id))
+      );
+    } catch (error) {
+      console.error("Error deleting trash items:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  async emptyTrash(): Promise<void> {
+    const items = await this.getItems();
+    await this.deletePermanently(items.map((item) => item.id));
+  }
+
+  /**
+   * Permanently delete items that have been in the trash longer than the retention period
+   */
+  async purgeExpired(retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS): Promise<number> {
+    try {
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+      const expired = (await this.getItems()).filter((item) => new Date(item.deletedAt).getTime() < cutoff);
+
+      if (expired.length > 0) {
+        await this.deletePermanently(expired.map((item) => item.id));
+      }
+      return expired.length;
+    } catch (error) {
+      console.error("Error purging trash:", error);
+      return 0;
+    }
+  }
+}
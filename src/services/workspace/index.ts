@@ -0,0 +1,7 @@
+import { WorkspaceService } from "./workspaceService";
+
+// Create a singleton instance of the workspace service
+export const workspaceService = new WorkspaceService();
+
+// Re-export the service
+export * from "./workspaceService";
@@ -0,0 +1,189 @@
+"use client";
+
+import {
+  DEFAULT_WORKSPACE_ID,
+  scopeToWorkspace,
+  Workspace,
+  WORKSPACE_COOKIE,
+  WORKSPACE_ID_PATTERN,
+} from "@/lib/workspaces";
+
+// The workspace a tab works in. Session storage keeps each tab in its own workspace across reloads, and local
+// storage opens new tabs in the one used last.
+const ACTIVE_WORKSPACE_KEY = "taskflow_workspace";
+
+// localStorage keys that belong to a workspace, each scoped with scopeToWorkspace
+const LOCAL_KEY_BASES = ["taskflow_data", "taskflow_history"];
+
+/**
+ * WorkspaceService lists and manages workspaces and knows which one this tab is working in
+ */
+export class WorkspaceService {
+  private basePath: string;
+  private activeWorkspaceId: string;
+
+  constructor(basePath = "/api/workspaces") {
+    this.basePath = basePath;
+    this.activeWorkspaceId = this.readActiveWorkspaceId();
+
+    // The cookie is shared by every tab, so each one claims it again as it reloads or navigates away
+    if (typeof window !== "undefined") {
+      this.rememberForServer(this.activeWorkspaceId);
+      window.addEventListener("pagehide", () => this.rememberForServer(this.activeWorkspaceId));
+    }
+  }
+
+  private readActiveWorkspaceId(): string {
+    if (typeof window === "undefined") {
+      return DEFAULT_WORKSPACE_ID;
+    }
+
+    try {
+      const stored = sessionStorage.getItem(ACTIVE_WORKSPACE_KEY) || localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+      return stored && WORKSPACE_ID_PATTERN.test(stored) ? stored : DEFAULT_WORKSPACE_ID;
+    } catch {
+      return DEFAULT_WORKSPACE_ID;
+    }
+  }
+
+  /**
+   * Tell the server which workspace to render the next page load with
+   */
+  private rememberForServer(workspaceId: string): void {
+    document.cookie = `${WORKSPACE_COOKIE}=${workspaceId}; path=/; max-age=31536000; SameSite=Lax`;
+  }
+
+  /**
+   * Get the ID of the workspace this tab is working in
+   */
+  getActiveWorkspaceId(): string {
+    return this.activeWorkspaceId;
+  }
+
+  /**
+   * Scope a localStorage key or channel name to the active workspace
+   */
+  scopeKey(key: string): string {
+    return scopeToWorkspace(key, this.activeWorkspaceId);
+  }
+
+  /**
+   * Open another workspace. The page reloads so every service starts over with the new workspace's data.
+   */
+  switchWorkspace(workspaceId: string): void {
+    sessionStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+    this.activeWorkspaceId = workspaceId;
+    this.rememberForServer(workspaceId);
+    window.location.reload();
+  }
+
+  /**
+   * Get every workspace, the default one first
+   */
+  async getWorkspaces(): Promise<Workspace[]> {
+    try {
+      return await this.request<Workspace[]>(this.basePath);
+    } catch (error) {
+      console.error("Error loading workspaces:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create an empty workspace
+   */
+  async createWorkspace(name: string): Promise<Workspace> {
+    try {
+      return await this.request<Workspace>(this.basePath, { method: "POST", body: JSON.stringify({ name }) });
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a workspace holding a copy of another one's data, including what it keeps in this browser
+   */
+  async duplicateWorkspace(workspaceId: string, name: string): Promise<Workspace> {
+    try {
+      const workspace = await this.request<Workspace>(this.basePath, {
+        method: "POST",
+        body: JSON.stringify({ name, copyFrom: workspaceId }),
+      });
+
+      this.getLocalKeys(workspaceId).forEach(({ key, base, suffix }) => {
+        const value = localStorage.getItem(key);
+        if (value !== null) {
+          localStorage.setItem(`${scopeToWorkspace(base, workspace.id)}${suffix}`, value);
+        }
+      });
+
+      return workspace;
+    } catch (error) {
+      console.error(`Error duplicating workspace ${workspaceId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a workspace
+   */
+  async renameWorkspace(workspaceId: string, name: string): Promise<Workspace> {
+    try {
+      return await this.request<Workspace>(`${this.basePath}/${workspaceId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ name }),
+      });
+    } catch (error) {
+      console.error(`Error renaming workspace ${workspaceId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a workspace with all of its data, on the server and in this browser
+   */
+  async deleteWorkspace(workspaceId: string): Promise<void> {
+    try {
+      await this.request(`${this.basePath}/${workspaceId}`, { method: "DELETE" });
+      this.getLocalKeys(workspaceId).forEach(({ key }) => localStorage.removeItem(key));
+    } catch (error) {
+      console.error(`Error deleting workspace ${workspaceId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the localStorage keys holding a workspace's data, split into the unscoped base and what follows it
+   */
+  private getLocalKeys(workspaceId: string): Array<{ key: string; base: string; suffix: string }> {
+    const keys: Array<{ key: string; base: string; suffix: string }> = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key) continue;
+
+      for (const base of LOCAL_KEY_BASES) {
+        const prefix = scopeToWorkspace(base, workspaceId);
+        if (key === prefix || key.startsWith(`${prefix}_`)) {
+          keys.push({ key, base, suffix: key.slice(prefix.length) });
+          break;
+        }
+      }
+    }
+
+    return keys;
+  }
+
+  private async request<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(body?.error || `Request failed with status ${response.status}`);
+    }
+
+    return body as T;
+  }
+}
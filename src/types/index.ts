@@ -16,6 +16,7 @@ export interface Todo {
   completedAt?: string;
   category?: string;
   dependsOn?: string[]; // IDs of todos this task depends on
+  externalId?: string; // ID in the system it was imported from, such as an iCalendar UID
 }
 
 export interface SubTask {
@@ -66,6 +67,7 @@ export interface Milestone {
   completed: boolean;
   completedAt?: string;
   todoIds: string[]; // IDs of todos associated with this milestone
+  externalId?: string; // ID in the system it was imported from, such as an iCalendar UID
   createdAt: string;
   updatedAt: string;
 }
@@ -151,6 +153,11 @@ export interface AppData {
   settings: AppSettings;
 }
 
+// App data rendered on the server, with the workspace it was read from
+export interface InitialAppData extends AppData {
+  workspaceId: string;
+}
+
 export interface AppSettings {
   theme: "light" | "dark" | "system";
   notifications: boolean;
@@ -160,8 +167,15 @@ export interface AppSettings {
     end: string;
   };
   useServerStorage?: boolean;
+  trashRetentionDays?: number; // Days deleted items stay in the trash
+  deleteRules?: Partial<Record<RelationName, DeletePolicy>>; // Overrides of the default policy per relation
 }
 
+// What happens to records that point at a record being deleted
+export type DeletePolicy = "cascade" | "unlink" | "block";
+
+export type RelationName = "projectTodos" | "projectNotes" | "todoDependents" | "todoNotes" | "noteLinks";
+
 export interface NotificationData {
   id: string;
   title: string;